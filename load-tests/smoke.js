@@ -29,14 +29,14 @@ export default function () {
   });
 
   if (AUTH_TOKEN) {
-    const posts = http.get(`${BASE_URL}/api/posts?type=posts&feed=forYou&page=1&limit=20`, {
+    const posts = http.get(`${BASE_URL}/api/posts?type=posts&feed=forYou&limit=20`, {
       headers: authHeaders,
     });
     check(posts, {
       "posts status 200": (r) => r.status === 200,
     });
 
-    const wallet = http.get(`${BASE_URL}/api/wallet/overview?limit=20&page=1`, {
+    const wallet = http.get(`${BASE_URL}/api/wallet/overview?limit=20`, {
       headers: authHeaders,
     });
     check(wallet, {
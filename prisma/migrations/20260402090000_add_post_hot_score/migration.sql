@@ -0,0 +1,19 @@
+ALTER TABLE "Post"
+ADD COLUMN IF NOT EXISTS "hotScore" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill using the same formula as computeHotScore (default weights and decay).
+UPDATE "Post" p
+SET "hotScore" =
+  LOG(GREATEST(
+    p."stayVotes" * 1.0
+      + p."dropVotes" * 0.5
+      + COALESCE((SELECT COUNT(*) FROM "Reaction" r WHERE r."postId" = p."id"), 0) * 1.0
+      + COALESCE((SELECT COUNT(*) FROM "Comment" c WHERE c."postId" = p."id"), 0) * 2.0
+      + p."repostCount" * 3.0
+      + p."shareCount" * 1.5,
+    1
+  ))
+  + (EXTRACT(EPOCH FROM p."expiresAt") - EXTRACT(EPOCH FROM TIMESTAMP '2026-01-01 00:00:00')) / 45000.0;
+
+CREATE INDEX IF NOT EXISTS "Post_isRoast_status_hotScore_idx"
+ON "Post"("isRoast", "status", "hotScore");
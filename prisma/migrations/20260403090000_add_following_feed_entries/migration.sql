@@ -0,0 +1,53 @@
+ALTER TABLE "User"
+ADD COLUMN IF NOT EXISTS "followerCount" INTEGER NOT NULL DEFAULT 0;
+
+UPDATE "User" u
+SET "followerCount" = counts.total
+FROM (
+  SELECT "followingId", COUNT(*)::INTEGER AS total
+  FROM "Follow"
+  GROUP BY "followingId"
+) counts
+WHERE counts."followingId" = u."id";
+
+CREATE TABLE "FeedEntry" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "postId" TEXT NOT NULL,
+  "authorId" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "FeedEntry_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "FeedEntry_userId_postId_key" ON "FeedEntry"("userId", "postId");
+CREATE INDEX "FeedEntry_userId_createdAt_idx" ON "FeedEntry"("userId", "createdAt");
+CREATE INDEX "FeedEntry_userId_authorId_idx" ON "FeedEntry"("userId", "authorId");
+CREATE INDEX "FeedEntry_postId_idx" ON "FeedEntry"("postId");
+
+ALTER TABLE "FeedEntry"
+ADD CONSTRAINT "FeedEntry_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "FeedEntry"
+ADD CONSTRAINT "FeedEntry_postId_fkey"
+FOREIGN KEY ("postId") REFERENCES "Post"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed feeds with live banters from accounts under the default fan-out threshold (5000).
+INSERT INTO "FeedEntry" ("id", "userId", "postId", "authorId", "createdAt")
+SELECT
+  'fe_' || md5(f."followerId" || ':' || p."id"),
+  f."followerId",
+  p."id",
+  p."userId",
+  p."createdAt"
+FROM "Post" p
+JOIN "Follow" f ON f."followingId" = p."userId"
+JOIN "User" author ON author."id" = p."userId"
+WHERE p."status" = 'ACTIVE'
+  AND p."isRoast" = true
+  AND p."expiresAt" > NOW()
+  AND author."followerCount" <= 5000
+ON CONFLICT DO NOTHING;
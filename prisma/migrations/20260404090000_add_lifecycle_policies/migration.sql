@@ -0,0 +1,38 @@
+CREATE TABLE "LifecyclePolicy" (
+  "id" TEXT NOT NULL,
+  "version" INTEGER NOT NULL,
+  "cycleHours" INTEGER NOT NULL DEFAULT 24,
+  "minTotalVotes" INTEGER NOT NULL DEFAULT 0,
+  "survivalMarginPct" DOUBLE PRECISION NOT NULL DEFAULT 0,
+  "rewardRaw" BIGINT NOT NULL DEFAULT 10000,
+  "rewardEveryCycles" INTEGER NOT NULL DEFAULT 7,
+  "leagueOverrides" JSONB NOT NULL DEFAULT '{}',
+  "isActive" BOOLEAN NOT NULL DEFAULT false,
+  "note" TEXT,
+  "createdBy" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "LifecyclePolicy_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "LifecyclePolicy_version_key" ON "LifecyclePolicy"("version");
+CREATE INDEX "LifecyclePolicy_isActive_idx" ON "LifecyclePolicy"("isActive");
+
+ALTER TABLE "Post"
+ADD COLUMN IF NOT EXISTS "lifecyclePolicyId" TEXT;
+
+CREATE INDEX IF NOT EXISTS "Post_lifecyclePolicyId_idx" ON "Post"("lifecyclePolicyId");
+
+ALTER TABLE "Post"
+ADD CONSTRAINT "Post_lifecyclePolicyId_fkey"
+FOREIGN KEY ("lifecyclePolicyId") REFERENCES "LifecyclePolicy"("id")
+ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Version 1 mirrors the previously hard-coded rules (24h cycles, drop >= stay deletes,
+-- 0.0001 ROL every 7 cycles) and is pinned to every existing banter.
+INSERT INTO "LifecyclePolicy" ("id", "version", "isActive", "note")
+VALUES ('lifecycle_policy_v1', 1, true, 'Initial policy');
+
+UPDATE "Post"
+SET "lifecyclePolicyId" = 'lifecycle_policy_v1'
+WHERE "lifecyclePolicyId" IS NULL;
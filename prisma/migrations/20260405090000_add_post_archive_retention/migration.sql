@@ -0,0 +1,14 @@
+ALTER TABLE "Post"
+ADD COLUMN IF NOT EXISTS "archiveReason" TEXT,
+ADD COLUMN IF NOT EXISTS "purgeAfter" TIMESTAMP(3),
+ADD COLUMN IF NOT EXISTS "mediaPurgedAt" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "Post_status_purgeAfter_idx" ON "Post"("status", "purgeAfter");
+CREATE INDEX IF NOT EXISTS "Post_userId_status_hiddenAt_idx" ON "Post"("userId", "status", "hiddenAt");
+
+-- Archived reposts are kept for the retention window but must not stop the user reposting the
+-- same banter again, so only reposts without an archiveReason stay unique per user.
+DROP INDEX IF EXISTS "Post_userId_repostOfId_key";
+CREATE UNIQUE INDEX IF NOT EXISTS "Post_userId_repostOfId_unarchived_key"
+  ON "Post"("userId", "repostOfId")
+  WHERE "archiveReason" IS NULL;
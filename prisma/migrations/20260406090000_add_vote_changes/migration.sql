@@ -0,0 +1,23 @@
+CREATE TABLE "VoteChange" (
+  "id" TEXT NOT NULL,
+  "postId" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "fromType" "VoteType" NOT NULL,
+  "toType" "VoteType",
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "VoteChange_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "VoteChange_postId_userId_createdAt_idx" ON "VoteChange"("postId", "userId", "createdAt");
+CREATE INDEX "VoteChange_userId_idx" ON "VoteChange"("userId");
+
+ALTER TABLE "VoteChange"
+ADD CONSTRAINT "VoteChange_postId_fkey"
+FOREIGN KEY ("postId") REFERENCES "Post"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "VoteChange"
+ADD CONSTRAINT "VoteChange_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
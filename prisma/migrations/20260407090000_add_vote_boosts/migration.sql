@@ -0,0 +1,28 @@
+CREATE TYPE "VoteBoostStatus" AS ENUM ('ACTIVE', 'REFUNDED');
+
+ALTER TABLE "Post"
+ADD COLUMN IF NOT EXISTS "stayBoost" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS "dropBoost" INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE "VoteBoost" (
+  "id" TEXT NOT NULL,
+  "postId" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "voteType" "VoteType" NOT NULL,
+  "credits" INTEGER NOT NULL,
+  "status" "VoteBoostStatus" NOT NULL DEFAULT 'ACTIVE',
+  "refundedAt" TIMESTAMP(3),
+  "refundReason" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "VoteBoost_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "VoteBoost_postId_status_idx" ON "VoteBoost"("postId", "status");
+CREATE INDEX "VoteBoost_postId_userId_idx" ON "VoteBoost"("postId", "userId");
+CREATE INDEX "VoteBoost_userId_createdAt_idx" ON "VoteBoost"("userId", "createdAt");
+
+ALTER TABLE "VoteBoost"
+ADD CONSTRAINT "VoteBoost_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+CREATE TYPE "VoteCreditLedgerType" AS ENUM (
+  'OPENING_BALANCE',
+  'PURCHASE',
+  'PCA_VOTE',
+  'BANTER_BOOST',
+  'BOOST_REFUND',
+  'ADMIN_GRANT'
+);
+
+CREATE TABLE "VoteCreditLedger" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "type" "VoteCreditLedgerType" NOT NULL,
+  "credits" INTEGER NOT NULL,
+  "balanceAfter" INTEGER NOT NULL,
+  "reference" TEXT NOT NULL,
+  "metadata" JSONB,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "VoteCreditLedger_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "VoteCreditLedger_reference_key" ON "VoteCreditLedger"("reference");
+CREATE INDEX "VoteCreditLedger_userId_createdAt_idx" ON "VoteCreditLedger"("userId", "createdAt");
+CREATE INDEX "VoteCreditLedger_type_idx" ON "VoteCreditLedger"("type");
+
+ALTER TABLE "VoteCreditLedger"
+ADD CONSTRAINT "VoteCreditLedger_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Balances that predate the ledger are carried in as a single opening entry per user.
+INSERT INTO "VoteCreditLedger" ("id", "userId", "type", "credits", "balanceAfter", "reference")
+SELECT
+  'vcl_' || md5('opening_balance:' || u."id"),
+  u."id",
+  'OPENING_BALANCE',
+  u."voteBalance",
+  u."voteBalance",
+  'opening_balance:' || u."id"
+FROM "User" u
+WHERE u."voteBalance" <> 0
+ON CONFLICT DO NOTHING;
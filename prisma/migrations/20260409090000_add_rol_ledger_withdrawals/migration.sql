@@ -0,0 +1,83 @@
+CREATE TYPE "RolLedgerType" AS ENUM (
+  'OPENING_BALANCE',
+  'SURVIVAL_REWARD',
+  'WITHDRAWAL',
+  'WITHDRAWAL_REFUND'
+);
+
+CREATE TYPE "RolWithdrawalStatus" AS ENUM (
+  'PENDING',
+  'APPROVED',
+  'BROADCAST',
+  'CONFIRMED',
+  'FAILED',
+  'REJECTED'
+);
+
+CREATE TABLE "RolLedger" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "type" "RolLedgerType" NOT NULL,
+  "amountRaw" BIGINT NOT NULL,
+  "balanceAfterRaw" BIGINT NOT NULL,
+  "reference" TEXT NOT NULL,
+  "metadata" JSONB,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "RolLedger_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "RolLedger_reference_key" ON "RolLedger"("reference");
+CREATE INDEX "RolLedger_userId_createdAt_idx" ON "RolLedger"("userId", "createdAt");
+CREATE INDEX "RolLedger_type_idx" ON "RolLedger"("type");
+
+ALTER TABLE "RolLedger"
+ADD CONSTRAINT "RolLedger_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "RolWithdrawal" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "amountRaw" BIGINT NOT NULL,
+  "toAddress" TEXT NOT NULL,
+  "status" "RolWithdrawalStatus" NOT NULL DEFAULT 'PENDING',
+  "requiresApproval" BOOLEAN NOT NULL DEFAULT false,
+  "approvedBy" TEXT,
+  "approvedAt" TIMESTAMP(3),
+  "rejectedBy" TEXT,
+  "rejectedReason" TEXT,
+  "txHash" TEXT,
+  "txExpiresAt" TIMESTAMP(3),
+  "broadcastAt" TIMESTAMP(3),
+  "confirmedAt" TIMESTAMP(3),
+  "failedAt" TIMESTAMP(3),
+  "failureReason" TEXT,
+  "walletTransactionId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "RolWithdrawal_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "RolWithdrawal_txHash_key" ON "RolWithdrawal"("txHash");
+CREATE INDEX "RolWithdrawal_userId_createdAt_idx" ON "RolWithdrawal"("userId", "createdAt");
+CREATE INDEX "RolWithdrawal_status_createdAt_idx" ON "RolWithdrawal"("status", "createdAt");
+
+ALTER TABLE "RolWithdrawal"
+ADD CONSTRAINT "RolWithdrawal_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Rewards accrued before the ledger are carried in as a single opening entry per user.
+INSERT INTO "RolLedger" ("id", "userId", "type", "amountRaw", "balanceAfterRaw", "reference")
+SELECT
+  'rol_' || md5('rol_opening_balance:' || u."id"),
+  u."id",
+  'OPENING_BALANCE',
+  u."rolBalanceRaw",
+  u."rolBalanceRaw",
+  'rol_opening_balance:' || u."id"
+FROM "User" u
+WHERE u."rolBalanceRaw" <> 0
+ON CONFLICT DO NOTHING;
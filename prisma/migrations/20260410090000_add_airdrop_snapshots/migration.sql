@@ -0,0 +1,34 @@
+CREATE TABLE "AirdropSnapshot" (
+  "id" TEXT NOT NULL,
+  "asOf" TIMESTAMP(3) NOT NULL,
+  "userCount" INTEGER NOT NULL,
+  "totalPointsRaw" BIGINT NOT NULL,
+  "contentHash" TEXT NOT NULL,
+  "note" TEXT,
+  "createdBy" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "AirdropSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "AirdropSnapshot_createdAt_idx" ON "AirdropSnapshot"("createdAt");
+
+CREATE TABLE "AirdropSnapshotEntry" (
+  "id" TEXT NOT NULL,
+  "snapshotId" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "rank" INTEGER NOT NULL,
+  "pointsRaw" BIGINT NOT NULL,
+  "movementAddress" TEXT,
+  "solanaAddress" TEXT,
+
+  CONSTRAINT "AirdropSnapshotEntry_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "AirdropSnapshotEntry_snapshotId_userId_key" ON "AirdropSnapshotEntry"("snapshotId", "userId");
+CREATE INDEX "AirdropSnapshotEntry_snapshotId_rank_idx" ON "AirdropSnapshotEntry"("snapshotId", "rank");
+
+ALTER TABLE "AirdropSnapshotEntry"
+ADD CONSTRAINT "AirdropSnapshotEntry_snapshotId_fkey"
+FOREIGN KEY ("snapshotId") REFERENCES "AirdropSnapshot"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+ALTER TABLE "User" ADD COLUMN "referralCode" TEXT;
+ALTER TABLE "User" ADD COLUMN "lastIpPrefix" TEXT;
+
+CREATE UNIQUE INDEX "User_referralCode_key" ON "User"("referralCode");
+
+CREATE TYPE "ReferralStatus" AS ENUM ('PENDING', 'REWARDED', 'REJECTED', 'EXPIRED');
+
+CREATE TABLE "Referral" (
+  "id" TEXT NOT NULL,
+  "referrerId" TEXT NOT NULL,
+  "refereeId" TEXT NOT NULL,
+  "code" TEXT NOT NULL,
+  "status" "ReferralStatus" NOT NULL DEFAULT 'PENDING',
+  "rejectReason" TEXT,
+  "refereeIpPrefix" TEXT,
+  "refereeDeviceToken" TEXT,
+  "qualifiedBy" TEXT,
+  "rewardedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "Referral_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "Referral_refereeId_key" ON "Referral"("refereeId");
+CREATE INDEX "Referral_referrerId_createdAt_idx" ON "Referral"("referrerId", "createdAt");
+CREATE INDEX "Referral_referrerId_refereeIpPrefix_idx" ON "Referral"("referrerId", "refereeIpPrefix");
+CREATE INDEX "Referral_status_createdAt_idx" ON "Referral"("status", "createdAt");
+
+ALTER TABLE "Referral"
+ADD CONSTRAINT "Referral_referrerId_fkey"
+FOREIGN KEY ("referrerId") REFERENCES "User"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "Referral"
+ADD CONSTRAINT "Referral_refereeId_fkey"
+FOREIGN KEY ("refereeId") REFERENCES "User"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,83 @@
+-- Daily rewards move from server-local days to the user's own timezone.
+ALTER TABLE "User" ADD COLUMN "timezone" TEXT;
+ALTER TABLE "User" ADD COLUMN "timezoneChangedAt" TIMESTAMP(3);
+ALTER TABLE "User" ADD COLUMN "lastDailyPointsDayKey" TEXT;
+
+-- Default the timezone from country (same table as src/utils/timezone.ts).
+UPDATE "User"
+SET "timezone" = CASE UPPER(TRIM("country"))
+    WHEN 'NG' THEN 'Africa/Lagos'
+    WHEN 'NIGERIA' THEN 'Africa/Lagos'
+    WHEN 'GB' THEN 'Europe/London'
+    WHEN 'UK' THEN 'Europe/London'
+    WHEN 'UNITED KINGDOM' THEN 'Europe/London'
+    WHEN 'ENGLAND' THEN 'Europe/London'
+    WHEN 'SCOTLAND' THEN 'Europe/London'
+    WHEN 'WALES' THEN 'Europe/London'
+    WHEN 'IE' THEN 'Europe/Dublin'
+    WHEN 'IRELAND' THEN 'Europe/Dublin'
+    WHEN 'GH' THEN 'Africa/Accra'
+    WHEN 'GHANA' THEN 'Africa/Accra'
+    WHEN 'KE' THEN 'Africa/Nairobi'
+    WHEN 'KENYA' THEN 'Africa/Nairobi'
+    WHEN 'UG' THEN 'Africa/Kampala'
+    WHEN 'UGANDA' THEN 'Africa/Kampala'
+    WHEN 'TZ' THEN 'Africa/Dar_es_Salaam'
+    WHEN 'TANZANIA' THEN 'Africa/Dar_es_Salaam'
+    WHEN 'RW' THEN 'Africa/Kigali'
+    WHEN 'RWANDA' THEN 'Africa/Kigali'
+    WHEN 'ZA' THEN 'Africa/Johannesburg'
+    WHEN 'SOUTH AFRICA' THEN 'Africa/Johannesburg'
+    WHEN 'ZM' THEN 'Africa/Lusaka'
+    WHEN 'ZAMBIA' THEN 'Africa/Lusaka'
+    WHEN 'ZW' THEN 'Africa/Harare'
+    WHEN 'ZIMBABWE' THEN 'Africa/Harare'
+    WHEN 'CM' THEN 'Africa/Douala'
+    WHEN 'CAMEROON' THEN 'Africa/Douala'
+    WHEN 'SN' THEN 'Africa/Dakar'
+    WHEN 'SENEGAL' THEN 'Africa/Dakar'
+    WHEN 'CI' THEN 'Africa/Abidjan'
+    WHEN 'COTE D''IVOIRE' THEN 'Africa/Abidjan'
+    WHEN 'IVORY COAST' THEN 'Africa/Abidjan'
+    WHEN 'EG' THEN 'Africa/Cairo'
+    WHEN 'EGYPT' THEN 'Africa/Cairo'
+    WHEN 'MA' THEN 'Africa/Casablanca'
+    WHEN 'MOROCCO' THEN 'Africa/Casablanca'
+    WHEN 'FR' THEN 'Europe/Paris'
+    WHEN 'FRANCE' THEN 'Europe/Paris'
+    WHEN 'DE' THEN 'Europe/Berlin'
+    WHEN 'GERMANY' THEN 'Europe/Berlin'
+    WHEN 'ES' THEN 'Europe/Madrid'
+    WHEN 'SPAIN' THEN 'Europe/Madrid'
+    WHEN 'IT' THEN 'Europe/Rome'
+    WHEN 'ITALY' THEN 'Europe/Rome'
+    WHEN 'PT' THEN 'Europe/Lisbon'
+    WHEN 'PORTUGAL' THEN 'Europe/Lisbon'
+    WHEN 'NL' THEN 'Europe/Amsterdam'
+    WHEN 'NETHERLANDS' THEN 'Europe/Amsterdam'
+    WHEN 'AE' THEN 'Asia/Dubai'
+    WHEN 'UNITED ARAB EMIRATES' THEN 'Asia/Dubai'
+    WHEN 'IN' THEN 'Asia/Kolkata'
+    WHEN 'INDIA' THEN 'Asia/Kolkata'
+    WHEN 'US' THEN 'America/New_York'
+    WHEN 'USA' THEN 'America/New_York'
+    WHEN 'UNITED STATES' THEN 'America/New_York'
+    WHEN 'CA' THEN 'America/Toronto'
+    WHEN 'CANADA' THEN 'America/Toronto'
+    WHEN 'BR' THEN 'America/Sao_Paulo'
+    WHEN 'BRAZIL' THEN 'America/Sao_Paulo'
+    WHEN 'AU' THEN 'Australia/Sydney'
+    WHEN 'AUSTRALIA' THEN 'Australia/Sydney'
+  END
+WHERE "country" IS NOT NULL;
+
+-- Record the day the last claim counted for. Claims were keyed on the server's day (UTC in
+-- every deployment), so take the later of that day and the claim's day in the user's zone:
+-- nobody can claim the same day twice across the switchover, at the cost of users west of
+-- UTC possibly skipping one day.
+UPDATE "User"
+SET "lastDailyPointsDayKey" = GREATEST(
+  TO_CHAR("lastDailyPointsAt", 'YYYY-MM-DD'),
+  TO_CHAR(("lastDailyPointsAt" AT TIME ZONE 'UTC') AT TIME ZONE COALESCE("timezone", 'UTC'), 'YYYY-MM-DD')
+)
+WHERE "lastDailyPointsAt" IS NOT NULL;
@@ -0,0 +1,37 @@
+ALTER TABLE "User" ADD COLUMN "loginStreak" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "User" ADD COLUMN "longestLoginStreak" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "User" ADD COLUMN "streakFreezes" INTEGER NOT NULL DEFAULT 0;
+
+-- Seed streaks from existing LOGIN claims: runs of consecutive claimed days, the latest run
+-- being the current streak. Freezes did not exist before, so none are granted here.
+WITH days AS (
+  SELECT DISTINCT
+    "userId",
+    COALESCE("metadata"->>'dayKey', SPLIT_PART("reference", ':', 3))::DATE AS "day"
+  FROM "PointLedger"
+  WHERE "type" = 'LOGIN' AND "reference" LIKE 'daily_points:%'
+),
+runs AS (
+  SELECT
+    "userId",
+    "day",
+    "day" - (ROW_NUMBER() OVER (PARTITION BY "userId" ORDER BY "day"))::INTEGER AS "run"
+  FROM days
+),
+islands AS (
+  SELECT "userId", "run", COUNT(*)::INTEGER AS "length", MAX("day") AS "lastDay"
+  FROM runs
+  GROUP BY "userId", "run"
+),
+streaks AS (
+  SELECT
+    "userId",
+    MAX("length") AS "longest",
+    (ARRAY_AGG("length" ORDER BY "lastDay" DESC))[1] AS "current"
+  FROM islands
+  GROUP BY "userId"
+)
+UPDATE "User" u
+SET "loginStreak" = s."current", "longestLoginStreak" = s."longest"
+FROM streaks s
+WHERE u."id" = s."userId";
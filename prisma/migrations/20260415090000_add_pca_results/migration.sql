@@ -0,0 +1,103 @@
+ALTER TABLE "PcaCategory" ADD COLUMN "closedAt" TIMESTAMP(3);
+ALTER TABLE "PcaCategory" ADD COLUMN "totalVotes" INTEGER;
+ALTER TABLE "PcaCategory" ADD COLUMN "resultsAnnouncedAt" TIMESTAMP(3);
+
+CREATE TABLE "PcaResult" (
+  "id" TEXT NOT NULL,
+  "categoryId" TEXT NOT NULL,
+  "nomineeId" TEXT NOT NULL,
+  "nomineeName" TEXT NOT NULL,
+  "nomineeTeam" TEXT,
+  "nomineeImageUrl" TEXT,
+  "rank" INTEGER NOT NULL,
+  "voteCount" INTEGER NOT NULL,
+  "voterCount" INTEGER NOT NULL,
+  "voteShareBps" INTEGER NOT NULL,
+  "lastVoteAt" TIMESTAMP(3),
+  "isWinner" BOOLEAN NOT NULL DEFAULT false,
+  "tieBreak" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "PcaResult_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "PcaResult_categoryId_nomineeId_key" ON "PcaResult"("categoryId", "nomineeId");
+CREATE INDEX "PcaResult_categoryId_rank_idx" ON "PcaResult"("categoryId", "rank");
+
+ALTER TABLE "PcaResult" ADD CONSTRAINT "PcaResult_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "PcaCategory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Categories that ended before results existed: freeze their standings now, ranked with the
+-- same tie-break rules as the closing job, and mark them announced so no winner notifications
+-- go out for past votes.
+WITH "stats" AS (
+  SELECT
+    n."id",
+    n."categoryId",
+    n."name",
+    n."team",
+    n."imageUrl",
+    n."sortOrder",
+    n."createdAt",
+    n."voteCount",
+    COUNT(DISTINCT v."userId")::INTEGER AS "voterCount",
+    MAX(v."createdAt") AS "lastVoteAt"
+  FROM "PcaNominee" n
+  JOIN "PcaCategory" c ON c."id" = n."categoryId"
+  LEFT JOIN "PcaVote" v ON v."nomineeId" = n."id"
+  WHERE c."endsAt" <= CURRENT_TIMESTAMP
+  GROUP BY n."id"
+), "ranked" AS (
+  SELECT
+    s.*,
+    ROW_NUMBER() OVER (
+      PARTITION BY s."categoryId"
+      ORDER BY s."voteCount" DESC, s."voterCount" DESC, s."lastVoteAt" ASC NULLS LAST,
+        s."sortOrder" ASC, s."createdAt" ASC, s."id" ASC
+    ) AS "rank",
+    SUM(s."voteCount") OVER (PARTITION BY s."categoryId") AS "totalVotes"
+  FROM "stats" s
+), "compared" AS (
+  SELECT
+    r.*,
+    LAG(r."voteCount") OVER "w" AS "aboveVotes",
+    LAG(r."voterCount") OVER "w" AS "aboveVoters",
+    LAG(r."lastVoteAt") OVER "w" AS "aboveLastVoteAt"
+  FROM "ranked" r
+  WINDOW "w" AS (PARTITION BY r."categoryId" ORDER BY r."rank")
+)
+INSERT INTO "PcaResult" (
+  "id", "categoryId", "nomineeId", "nomineeName", "nomineeTeam", "nomineeImageUrl", "rank",
+  "voteCount", "voterCount", "voteShareBps", "lastVoteAt", "isWinner", "tieBreak"
+)
+SELECT
+  'pcr_' || md5(c."categoryId" || ':' || c."id"),
+  c."categoryId",
+  c."id",
+  c."name",
+  c."team",
+  c."imageUrl",
+  c."rank",
+  c."voteCount",
+  c."voterCount",
+  CASE
+    WHEN c."totalVotes" > 0 THEN ROUND(c."voteCount" * 10000.0 / c."totalVotes")::INTEGER
+    ELSE 0
+  END,
+  c."lastVoteAt",
+  c."rank" = 1 AND c."voteCount" > 0,
+  CASE
+    WHEN c."aboveVotes" IS DISTINCT FROM c."voteCount" THEN NULL
+    WHEN c."aboveVoters" <> c."voterCount" THEN 'VOTERS'
+    WHEN c."aboveLastVoteAt" IS DISTINCT FROM c."lastVoteAt" THEN 'EARLIEST_TO_TOTAL'
+    ELSE 'SORT_ORDER'
+  END
+FROM "compared" c;
+
+UPDATE "PcaCategory" c SET
+  "closedAt" = c."endsAt",
+  "resultsAnnouncedAt" = c."endsAt",
+  "totalVotes" = COALESCE(
+    (SELECT SUM(n."voteCount") FROM "PcaNominee" n WHERE n."categoryId" = c."id"),
+    0
+  )
+WHERE c."endsAt" <= CURRENT_TIMESTAMP;
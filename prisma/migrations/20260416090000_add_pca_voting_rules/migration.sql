@@ -0,0 +1,10 @@
+ALTER TABLE "PcaCategory" ADD COLUMN "votingRules" JSONB;
+
+ALTER TABLE "PcaVote" ADD COLUMN "weightedVotes" INTEGER;
+ALTER TABLE "PcaVote" ADD COLUMN "isFree" BOOLEAN NOT NULL DEFAULT false;
+
+-- Votes cast before weighting existed counted in full.
+UPDATE "PcaVote" SET "weightedVotes" = "votes";
+ALTER TABLE "PcaVote" ALTER COLUMN "weightedVotes" SET NOT NULL;
+
+CREATE INDEX "PcaVote_userId_categoryId_createdAt_idx" ON "PcaVote"("userId", "categoryId", "createdAt");
@@ -0,0 +1,43 @@
+CREATE TYPE "PcaRoundStage" AS ENUM ('GROUP', 'KNOCKOUT', 'FINAL');
+
+CREATE TABLE "PcaRound" (
+    "id" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "stage" "PcaRoundStage" NOT NULL,
+    "label" TEXT NOT NULL,
+    "advanceCount" INTEGER NOT NULL DEFAULT 1,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PcaRound_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "PcaRoundEntry" (
+    "id" TEXT NOT NULL,
+    "roundId" TEXT NOT NULL,
+    "nomineeId" TEXT NOT NULL,
+    "groupIndex" INTEGER NOT NULL,
+    "seed" INTEGER NOT NULL,
+    "voteCount" INTEGER NOT NULL DEFAULT 0,
+    "rank" INTEGER,
+    "advanced" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PcaRoundEntry_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "PcaVote" ADD COLUMN "roundId" TEXT;
+
+CREATE UNIQUE INDEX "PcaRound_categoryId_order_key" ON "PcaRound"("categoryId", "order");
+CREATE INDEX "PcaRound_closedAt_endsAt_idx" ON "PcaRound"("closedAt", "endsAt");
+CREATE UNIQUE INDEX "PcaRoundEntry_roundId_nomineeId_key" ON "PcaRoundEntry"("roundId", "nomineeId");
+CREATE INDEX "PcaRoundEntry_roundId_groupIndex_idx" ON "PcaRoundEntry"("roundId", "groupIndex");
+CREATE INDEX "PcaVote_roundId_nomineeId_idx" ON "PcaVote"("roundId", "nomineeId");
+
+ALTER TABLE "PcaRound" ADD CONSTRAINT "PcaRound_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "PcaCategory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "PcaRoundEntry" ADD CONSTRAINT "PcaRoundEntry_roundId_fkey" FOREIGN KEY ("roundId") REFERENCES "PcaRound"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "PcaRoundEntry" ADD CONSTRAINT "PcaRoundEntry_nomineeId_fkey" FOREIGN KEY ("nomineeId") REFERENCES "PcaNominee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "PcaVote" ADD CONSTRAINT "PcaVote_roundId_fkey" FOREIGN KEY ("roundId") REFERENCES "PcaRound"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1 @@
+ALTER TABLE "PcaCategory" ADD COLUMN "hideLiveCounts" BOOLEAN NOT NULL DEFAULT false;
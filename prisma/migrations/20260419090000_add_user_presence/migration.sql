@@ -0,0 +1,2 @@
+ALTER TABLE "User" ADD COLUMN "showPresence" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "User" ADD COLUMN "lastSeenAt" TIMESTAMP(3);
@@ -0,0 +1,58 @@
+ALTER TABLE "DirectMessage" ADD COLUMN "deliveredAt" TIMESTAMP(3);
+CREATE INDEX "DirectMessage_conversationId_deliveredAt_idx" ON "DirectMessage"("conversationId", "deliveredAt");
+
+ALTER TABLE "Conversation" ADD COLUMN "userALastReadMessageId" TEXT;
+ALTER TABLE "Conversation" ADD COLUMN "userALastReadAt" TIMESTAMP(3);
+ALTER TABLE "Conversation" ADD COLUMN "userAUnreadCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Conversation" ADD COLUMN "userBLastReadMessageId" TEXT;
+ALTER TABLE "Conversation" ADD COLUMN "userBLastReadAt" TIMESTAMP(3);
+ALTER TABLE "Conversation" ADD COLUMN "userBUnreadCount" INTEGER NOT NULL DEFAULT 0;
+
+-- Messages read before receipts existed were delivered by the time they were read.
+UPDATE "DirectMessage" SET "deliveredAt" = "readAt" WHERE "readAt" IS NOT NULL;
+
+-- Each side's watermark is the latest message from the other participant it has read.
+UPDATE "Conversation" c SET
+  "userALastReadMessageId" = r."id",
+  "userALastReadAt" = r."createdAt"
+FROM (
+  SELECT DISTINCT ON (m."conversationId") m."conversationId", m."id", m."createdAt"
+  FROM "DirectMessage" m
+  JOIN "Conversation" mc ON mc."id" = m."conversationId"
+  WHERE m."senderId" = mc."userBId" AND m."readAt" IS NOT NULL
+  ORDER BY m."conversationId", m."createdAt" DESC, m."id" DESC
+) r
+WHERE r."conversationId" = c."id";
+
+UPDATE "Conversation" c SET
+  "userBLastReadMessageId" = r."id",
+  "userBLastReadAt" = r."createdAt"
+FROM (
+  SELECT DISTINCT ON (m."conversationId") m."conversationId", m."id", m."createdAt"
+  FROM "DirectMessage" m
+  JOIN "Conversation" mc ON mc."id" = m."conversationId"
+  WHERE m."senderId" = mc."userAId" AND m."readAt" IS NOT NULL
+  ORDER BY m."conversationId", m."createdAt" DESC, m."id" DESC
+) r
+WHERE r."conversationId" = c."id";
+
+UPDATE "Conversation" c SET
+  "userAUnreadCount" = (
+    SELECT COUNT(*) FROM "DirectMessage" m
+    WHERE m."conversationId" = c."id" AND m."senderId" = c."userBId" AND m."readAt" IS NULL
+  ),
+  "userBUnreadCount" = (
+    SELECT COUNT(*) FROM "DirectMessage" m
+    WHERE m."conversationId" = c."id" AND m."senderId" = c."userAId" AND m."readAt" IS NULL
+  );
+
+-- The inbox is ordered by lastMessageAt, which read watermarks never touch; fill it for
+-- conversations that predate it so every row has a sort key.
+UPDATE "Conversation" c SET "lastMessageAt" = COALESCE(
+  (SELECT MAX(m."createdAt") FROM "DirectMessage" m WHERE m."conversationId" = c."id"),
+  c."createdAt"
+)
+WHERE c."lastMessageAt" IS NULL;
+
+ALTER TABLE "Conversation" ALTER COLUMN "lastMessageAt" SET DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE "Conversation" ALTER COLUMN "lastMessageAt" SET NOT NULL;
@@ -0,0 +1,9 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { buildRealtimeJsonSchema } from '../src/websocket/contracts';
+
+// Writes the realtime event catalogue as JSON Schema for client codegen.
+const output = path.resolve(__dirname, '../docs/realtime-events.schema.json');
+mkdirSync(path.dirname(output), { recursive: true });
+writeFileSync(output, `${JSON.stringify(buildRealtimeJsonSchema(), null, 2)}\n`);
+console.log(`Wrote ${path.relative(process.cwd(), output)}`);
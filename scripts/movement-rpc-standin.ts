@@ -0,0 +1,284 @@
+/**
+ * Local stand-in for the Movement/Aptos fullnode REST API, covering what the ROL withdrawal flow
+ * calls: ledger info, gas estimate, account sequence numbers, the primary_fungible_store ABI,
+ * BCS transaction submission and lookup by hash.
+ *
+ * Submitted transfers stay pending for STANDIN_COMMIT_MS and then commit in sequence-number
+ * order, like a real mempool. Reused or stale sequence numbers are rejected with a 400, and
+ * transfers to STANDIN_FAIL_ADDRESS commit as failed, so every withdrawal state can be reached.
+ *
+ *   npm run rol:standin
+ *   ROL_WITHDRAWAL_RPC_URL=http://127.0.0.1:8090/v1 ROL_WITHDRAWAL_TOKEN_ADDRESS=0xa \
+ *   ROL_TREASURY_PRIVATE_KEY=<any ed25519 key> npm run dev
+ */
+import http from 'http';
+import {
+  AccountAddress,
+  AccountAuthenticatorEd25519,
+  Deserializer,
+  SignedTransaction,
+  SimpleTransaction,
+  TransactionAuthenticatorEd25519,
+  generateUserTransactionHash,
+} from '@aptos-labs/ts-sdk';
+
+const PORT = Number.parseInt(process.env.STANDIN_PORT || '8090', 10);
+const CHAIN_ID = Number.parseInt(process.env.STANDIN_CHAIN_ID || '4', 10);
+const COMMIT_MS = Math.max(0, Number.parseInt(process.env.STANDIN_COMMIT_MS || '2000', 10));
+const FAIL_ADDRESS = (process.env.STANDIN_FAIL_ADDRESS || '').trim().toLowerCase();
+
+type StoredTransaction = {
+  hash: string;
+  sender: string;
+  sequenceNumber: bigint;
+  expiresAtSecs: bigint;
+  recipient: string | null;
+  submittedAt: number;
+  committed: null | { version: bigint; timestampUs: bigint; success: boolean };
+};
+
+const committedSequence = new Map<string, bigint>();
+const transactions = new Map<string, StoredTransaction>();
+let ledgerVersion = BigInt(0);
+
+const normalizeAddress = (value: string) => AccountAddress.from(value).toStringLong();
+
+const send = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: http.ServerResponse, status: number, message: string, errorCode: string) =>
+  send(res, status, { message, error_code: errorCode, vm_error_code: null });
+
+const nowUs = () => BigInt(Date.now()) * BigInt(1000);
+
+const ledgerInfo = () => ({
+  chain_id: CHAIN_ID,
+  epoch: '1',
+  ledger_version: ledgerVersion.toString(),
+  oldest_ledger_version: '0',
+  ledger_timestamp: nowUs().toString(),
+  node_role: 'full_node',
+  oldest_block_height: '0',
+  block_height: ledgerVersion.toString(),
+  git_hash: 'standin',
+});
+
+const PRIMARY_FUNGIBLE_STORE_ABI = {
+  bytecode: '0x',
+  abi: {
+    address: '0x1',
+    name: 'primary_fungible_store',
+    friends: [],
+    exposed_functions: [
+      {
+        name: 'transfer',
+        visibility: 'public',
+        is_entry: true,
+        is_view: false,
+        generic_type_params: [{ constraints: ['key'] }],
+        params: ['&signer', '0x1::object::Object<T0>', 'address', 'u64'],
+        return: [],
+      },
+    ],
+    structs: [],
+  },
+};
+
+const toResponse = (tx: StoredTransaction) => {
+  const base = {
+    hash: tx.hash,
+    sender: tx.sender,
+    sequence_number: tx.sequenceNumber.toString(),
+    max_gas_amount: '200000',
+    gas_unit_price: '100',
+    expiration_timestamp_secs: tx.expiresAtSecs.toString(),
+    payload: {
+      type: 'entry_function_payload',
+      function: '0x1::primary_fungible_store::transfer',
+      type_arguments: ['0x1::fungible_asset::Metadata'],
+      arguments: [],
+    },
+    signature: { type: 'ed25519_signature', public_key: '0x', signature: '0x' },
+  };
+  if (!tx.committed) {
+    return { type: 'pending_transaction', ...base };
+  }
+  return {
+    type: 'user_transaction',
+    ...base,
+    version: tx.committed.version.toString(),
+    timestamp: tx.committed.timestampUs.toString(),
+    success: tx.committed.success,
+    vm_status: tx.committed.success ? 'Executed successfully' : 'Move abort: EINSUFFICIENT_BALANCE',
+    gas_used: '10',
+    state_change_hash: '0x0',
+    event_root_hash: '0x0',
+    accumulator_root_hash: '0x0',
+    changes: [],
+    events: [],
+  };
+};
+
+// Commit pending transactions whose sequence number is next for their sender.
+const commitReady = () => {
+  const cutoff = Date.now() - COMMIT_MS;
+  let progressed = true;
+  while (progressed) {
+    progressed = false;
+    for (const tx of transactions.values()) {
+      if (tx.committed || tx.submittedAt > cutoff) continue;
+      if (tx.expiresAtSecs * BigInt(1000) < BigInt(Date.now())) {
+        transactions.delete(tx.hash);
+        continue;
+      }
+      const next = committedSequence.get(tx.sender) ?? BigInt(0);
+      if (tx.sequenceNumber !== next) continue;
+
+      ledgerVersion += BigInt(1);
+      tx.committed = {
+        version: ledgerVersion,
+        timestampUs: nowUs(),
+        success: !(FAIL_ADDRESS && tx.recipient === FAIL_ADDRESS),
+      };
+      committedSequence.set(tx.sender, next + BigInt(1));
+      progressed = true;
+      console.log(`committed ${tx.hash} seq ${tx.sequenceNumber} success ${tx.committed.success}`);
+    }
+  }
+};
+
+const readBody = (req: http.IncomingMessage) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const submit = (body: Buffer, res: http.ServerResponse) => {
+  const signed = SignedTransaction.deserialize(new Deserializer(new Uint8Array(body)));
+  if (!(signed.authenticator instanceof TransactionAuthenticatorEd25519)) {
+    return sendError(
+      res,
+      400,
+      'Only single-signer ed25519 transactions are supported',
+      'invalid_input'
+    );
+  }
+  const hash = generateUserTransactionHash({
+    transaction: new SimpleTransaction(signed.raw_txn),
+    senderAuthenticator: new AccountAuthenticatorEd25519(
+      signed.authenticator.public_key,
+      signed.authenticator.signature
+    ),
+  });
+  const sender = signed.raw_txn.sender.toStringLong();
+  const sequenceNumber = signed.raw_txn.sequence_number;
+  const committed = committedSequence.get(sender) ?? BigInt(0);
+
+  if (transactions.has(hash)) {
+    return send(res, 202, toResponse(transactions.get(hash)!));
+  }
+  if (sequenceNumber < committed) {
+    return sendError(res, 400, 'Transaction sequence number too old', 'vm_error');
+  }
+  const clash = [...transactions.values()].some(
+    (tx) => !tx.committed && tx.sender === sender && tx.sequenceNumber === sequenceNumber
+  );
+  if (clash) {
+    return sendError(
+      res,
+      400,
+      'Transaction already in mempool with a different payload',
+      'mempool_is_full'
+    );
+  }
+
+  // Arguments are metadata, recipient, amount; the recipient is the second.
+  const payload = signed.raw_txn.payload as unknown as {
+    entryFunction?: { args?: Array<{ bcsToBytes: () => Uint8Array }> };
+  };
+  const recipientArg = payload.entryFunction?.args?.[1];
+  const recipient = recipientArg
+    ? AccountAddress.from(recipientArg.bcsToBytes()).toStringLong()
+    : null;
+
+  const tx: StoredTransaction = {
+    hash,
+    sender,
+    sequenceNumber,
+    expiresAtSecs: signed.raw_txn.expiration_timestamp_secs,
+    recipient,
+    submittedAt: Date.now(),
+    committed: null,
+  };
+  transactions.set(hash, tx);
+  console.log(`accepted ${hash} seq ${sequenceNumber} from ${sender}`);
+  return send(res, 202, toResponse(tx));
+};
+
+const server = http.createServer(async (req, res) => {
+  try {
+    commitReady();
+    const path = (req.url || '/').split('?')[0].replace(/\/+$/, '');
+
+    if (req.method === 'GET' && (path === '/v1' || path === '')) {
+      return send(res, 200, ledgerInfo());
+    }
+    if (req.method === 'GET' && path === '/v1/estimate_gas_price') {
+      return send(res, 200, {
+        gas_estimate: 100,
+        deprioritized_gas_estimate: 100,
+        prioritized_gas_estimate: 150,
+      });
+    }
+    const moduleMatch = path.match(/^\/v1\/accounts\/([^/]+)\/module\/primary_fungible_store$/);
+    if (req.method === 'GET' && moduleMatch) {
+      return send(res, 200, PRIMARY_FUNGIBLE_STORE_ABI);
+    }
+    const accountMatch = path.match(/^\/v1\/accounts\/([^/]+)$/);
+    if (req.method === 'GET' && accountMatch) {
+      const address = normalizeAddress(accountMatch[1]);
+      return send(res, 200, {
+        sequence_number: (committedSequence.get(address) ?? BigInt(0)).toString(),
+        authentication_key: address,
+      });
+    }
+    const hashMatch = path.match(/^\/v1\/transactions\/by_hash\/([^/]+)$/);
+    if (req.method === 'GET' && hashMatch) {
+      const tx = transactions.get(hashMatch[1].toLowerCase());
+      return tx
+        ? send(res, 200, toResponse(tx))
+        : sendError(
+            res,
+            404,
+            `Transaction not found by Transaction hash(${hashMatch[1]})`,
+            'transaction_not_found'
+          );
+    }
+    if (req.method === 'POST' && path === '/v1/transactions') {
+      return submit(await readBody(req), res);
+    }
+    return sendError(
+      res,
+      404,
+      `No stand-in route for ${req.method} ${path}`,
+      'web_framework_error'
+    );
+  } catch (error) {
+    return sendError(
+      res,
+      400,
+      error instanceof Error ? error.message : String(error),
+      'invalid_input'
+    );
+  }
+});
+
+const commitTimer = setInterval(commitReady, Math.max(250, Math.min(COMMIT_MS, 1000)));
+server.on('close', () => clearInterval(commitTimer));
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`Movement RPC stand-in on http://127.0.0.1:${PORT}/v1 (chain ${CHAIN_ID})`);
+});
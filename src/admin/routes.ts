@@ -1,12 +1,38 @@
 import { Router, Request, Response } from 'express';
-import { PcaCategoryType, PcaSport, Prisma } from '@prisma/client';
+import { PcaCategoryType, PcaSport, Prisma, RolWithdrawalStatus } from '@prisma/client';
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { prisma } from '../index';
 import { AppError } from '../utils/errorHandler';
 import { logger } from '../utils/logger';
+import { publishRealtimeEvent } from '../websocket/events';
 import { adminAuthMiddleware, generateAdminToken } from './auth';
 import { hardDeletePost } from '../post/service';
+import {
+  activateLifecyclePolicyVersion,
+  createLifecyclePolicyVersion,
+  getActiveLifecyclePolicy,
+  parseLeagueOverrides,
+  parseLifecycleRulesPatch,
+  serializeLifecyclePolicy,
+} from '../post/lifecycle';
+import { recountVotes } from '../vote/service';
+import { applyVoteCreditChange, getVoteCreditDrift } from '../payment/voteCredits';
+import { getRolDrift, serializeRolLedgerEntry } from '../wallet/rolLedger';
+import { getLoginStreakDrift, rebuildLoginStreak } from '../points/streaks';
+import { parseBadgeKeys, replayBadges } from '../points/badges';
+import { parsePcaVotingRulesPatch } from '../pca/votingRules';
+import { parsePcaBracketInput, setPcaBracket } from '../pca/brackets';
+import {
+  getAirdropSnapshotExport,
+  serializeAirdropSnapshot,
+  takeAirdropSnapshot,
+} from '../points/airdropSnapshot';
+import {
+  approveRolWithdrawal,
+  rejectRolWithdrawal,
+  serializeRolWithdrawal,
+} from '../wallet/rolWithdrawals';
 
 const router = Router();
 
@@ -396,6 +422,82 @@ router.delete('/ads/:id', async (req: Request, res: Response): Promise<void> =>
   }
 });
 
+/**
+ * GET /api/admin/lifecycle-policy
+ * Active banter lifecycle policy plus version history.
+ */
+router.get('/lifecycle-policy', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const active = await getActiveLifecyclePolicy();
+    const versions = await prisma.lifecyclePolicy.findMany({
+      orderBy: { version: 'desc' },
+      take: 50,
+      include: { _count: { select: { posts: true } } },
+    });
+    res.json({
+      success: true,
+      policy: serializeLifecyclePolicy(active),
+      versions: versions.map((version) => ({
+        ...serializeLifecyclePolicy(version),
+        postCount: version._count.posts,
+      })),
+    });
+  } catch (error) {
+    logger.error('Admin lifecycle policy error', { error });
+    res.status(500).json({ success: false, message: 'Failed to load lifecycle policy' });
+  }
+});
+
+/**
+ * POST /api/admin/lifecycle-policy
+ * Publish a new policy version. Omitted fields carry over from the active version;
+ * existing banters keep evaluating under the version they were created with.
+ */
+router.post('/lifecycle-policy', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const body = req.body || {};
+    const policy = await createLifecyclePolicyVersion({
+      rules: parseLifecycleRulesPatch(body),
+      leagueOverrides:
+        body.leagueOverrides !== undefined ? parseLeagueOverrides(body.leagueOverrides) : undefined,
+      note: typeof body.note === 'string' ? body.note.trim() : null,
+      createdBy: req.admin?.email || null,
+    });
+    logger.info(`Lifecycle policy v${policy.version} published by ${req.admin?.email || 'unknown'}`);
+    res.json({ success: true, policy: serializeLifecyclePolicy(policy) });
+  } catch (error) {
+    logger.error('Admin lifecycle policy create error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to publish lifecycle policy' });
+  }
+});
+
+/**
+ * POST /api/admin/lifecycle-policy/:version/activate
+ * Roll back (or forward) to an existing policy version for newly created banters.
+ */
+router.post('/lifecycle-policy/:version/activate', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const version = Number.parseInt(req.params.version, 10);
+    if (!Number.isFinite(version) || version < 1) {
+      throw new AppError('version must be a positive integer', 400);
+    }
+    const policy = await activateLifecyclePolicyVersion(version);
+    logger.info(`Lifecycle policy v${policy.version} activated by ${req.admin?.email || 'unknown'}`);
+    res.json({ success: true, policy: serializeLifecyclePolicy(policy) });
+  } catch (error) {
+    logger.error('Admin lifecycle policy activate error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to activate lifecycle policy' });
+  }
+});
+
   /**
    * POST /api/admin/uploads/presign
    * Generate presigned upload URL for admin assets (PCA, ads).
@@ -902,6 +1004,453 @@ router.get('/users', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/**
+ * GET /api/admin/vote-credits/mismatches
+ * Users whose stored voteBalance differs from the sum of their ledger entries.
+ */
+router.get('/vote-credits/mismatches', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { limit, skip } = getPagination(req);
+    const rows = await prisma.$queryRaw<
+      Array<{ id: string; username: string | null; voteBalance: number; ledgerSum: number }>
+    >`
+      SELECT u."id", u."username", u."voteBalance", COALESCE(SUM(l."credits"), 0)::INTEGER AS "ledgerSum"
+      FROM "User" u
+      LEFT JOIN "VoteCreditLedger" l ON l."userId" = u."id"
+      GROUP BY u."id"
+      HAVING u."voteBalance" <> COALESCE(SUM(l."credits"), 0)
+      ORDER BY ABS(u."voteBalance" - COALESCE(SUM(l."credits"), 0)) DESC, u."id" ASC
+      LIMIT ${limit} OFFSET ${skip}
+    `;
+    res.json({
+      success: true,
+      mismatches: rows.map((row) => ({
+        ...row,
+        drift: row.voteBalance - row.ledgerSum,
+      })),
+    });
+  } catch (error) {
+    logger.error('Admin vote credit mismatches error', { error });
+    res.status(500).json({ success: false, message: 'Failed to load vote credit mismatches' });
+  }
+});
+
+/**
+ * GET /api/admin/users/:id/vote-credits
+ * A user's vote credit ledger with a balance-vs-ledger consistency check.
+ */
+router.get('/users/:id/vote-credits', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.params.id;
+    const { page, limit, skip } = getPagination(req);
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const [total, history, consistency] = await Promise.all([
+      prisma.voteCreditLedger.count({ where: { userId } }),
+      prisma.voteCreditLedger.findMany({
+        where: { userId },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip,
+        take: limit,
+      }),
+      getVoteCreditDrift(prisma, userId),
+    ]);
+
+    res.json({
+      success: true,
+      ...consistency,
+      history,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / limit)),
+      },
+    });
+  } catch (error) {
+    logger.error('Admin user vote credits error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to load vote credits' });
+  }
+});
+
+/**
+ * POST /api/admin/users/:id/vote-credits
+ * Grant (or, with negative credits, claw back) vote credits.
+ * Body: credits, reason, reference (optional idempotency key)
+ */
+router.post('/users/:id/vote-credits', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.params.id;
+    const credits = Number(req.body?.credits);
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+    if (!Number.isInteger(credits) || credits === 0) {
+      throw new AppError('credits must be a non-zero integer', 400);
+    }
+    if (!reason) {
+      throw new AppError('reason is required', 400);
+    }
+    const reference =
+      typeof req.body?.reference === 'string' && req.body.reference.trim()
+        ? `admin_grant:${req.body.reference.trim()}`
+        : `admin_grant:${userId}:${Date.now()}`;
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const result = await prisma.$transaction((tx) =>
+      applyVoteCreditChange(tx, {
+        userId,
+        type: 'ADMIN_GRANT',
+        credits,
+        reference,
+        metadata: { reason, admin: req.admin?.email || null },
+      })
+    );
+    logger.info(`Admin vote credit change for ${userId}: ${credits}`, {
+      admin: req.admin?.email,
+      reference,
+      applied: result.applied,
+    });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('Admin vote credit grant error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to update vote credits' });
+  }
+});
+
+const ROL_WITHDRAWAL_STATUSES = ['PENDING', 'APPROVED', 'BROADCAST', 'CONFIRMED', 'FAILED', 'REJECTED'];
+
+/**
+ * GET /api/admin/rol-withdrawals
+ * Query params: status, userId, page, limit
+ */
+router.get('/rol-withdrawals', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page, limit, skip } = getPagination(req);
+    const status = typeof req.query.status === 'string' ? req.query.status.toUpperCase() : '';
+    if (status && !ROL_WITHDRAWAL_STATUSES.includes(status)) {
+      throw new AppError(`status must be one of ${ROL_WITHDRAWAL_STATUSES.join(', ')}`, 400);
+    }
+    const where: Prisma.RolWithdrawalWhereInput = {
+      ...(status ? { status: status as RolWithdrawalStatus } : {}),
+      ...(typeof req.query.userId === 'string' && req.query.userId ? { userId: req.query.userId } : {}),
+    };
+
+    const [total, withdrawals] = await Promise.all([
+      prisma.rolWithdrawal.count({ where }),
+      prisma.rolWithdrawal.findMany({
+        where,
+        include: { user: { select: { id: true, username: true, email: true } } },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip,
+        take: limit,
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      withdrawals: withdrawals.map((withdrawal) => ({
+        ...serializeRolWithdrawal(withdrawal),
+        user: withdrawal.user,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / limit)),
+      },
+    });
+  } catch (error) {
+    logger.error('Admin ROL withdrawals list error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to load ROL withdrawals' });
+  }
+});
+
+/**
+ * POST /api/admin/rol-withdrawals/:id/approve
+ * Release a withdrawal that was held for review; the next broadcast run sends it.
+ */
+router.post('/rol-withdrawals/:id/approve', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const withdrawal = await approveRolWithdrawal(req.params.id, req.admin?.email || null);
+    logger.info(`Admin approved ROL withdrawal ${withdrawal.id}`, { admin: req.admin?.email });
+    res.json({ success: true, withdrawal: serializeRolWithdrawal(withdrawal) });
+  } catch (error) {
+    logger.error('Admin ROL withdrawal approve error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to approve ROL withdrawal' });
+  }
+});
+
+/**
+ * POST /api/admin/rol-withdrawals/:id/reject
+ * Reject a withdrawal that has not been broadcast and return the ROL to the user.
+ * Body: reason
+ */
+router.post('/rol-withdrawals/:id/reject', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+    if (!reason) {
+      throw new AppError('reason is required', 400);
+    }
+    const withdrawal = await rejectRolWithdrawal(req.params.id, req.admin?.email || null, reason);
+    logger.info(`Admin rejected ROL withdrawal ${withdrawal.id}`, { admin: req.admin?.email, reason });
+    res.json({ success: true, withdrawal: serializeRolWithdrawal(withdrawal) });
+  } catch (error) {
+    logger.error('Admin ROL withdrawal reject error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to reject ROL withdrawal' });
+  }
+});
+
+/**
+ * GET /api/admin/users/:id/rol-ledger
+ * A user's ROL ledger with a balance-vs-ledger consistency check.
+ */
+router.get('/users/:id/rol-ledger', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.params.id;
+    const { page, limit, skip } = getPagination(req);
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const [total, history, drift] = await Promise.all([
+      prisma.rolLedger.count({ where: { userId } }),
+      prisma.rolLedger.findMany({
+        where: { userId },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip,
+        take: limit,
+      }),
+      getRolDrift(prisma, userId),
+    ]);
+
+    res.json({
+      success: true,
+      balanceRaw: drift.balanceRaw.toString(),
+      ledgerSumRaw: drift.ledgerSumRaw.toString(),
+      driftRaw: drift.driftRaw.toString(),
+      mismatch: drift.mismatch,
+      history: history.map(serializeRolLedgerEntry),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / limit)),
+      },
+    });
+  } catch (error) {
+    logger.error('Admin user ROL ledger error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to load ROL ledger' });
+  }
+});
+
+/**
+ * GET /api/admin/users/:id/login-streak
+ * Stored login streak next to the streak replayed from LOGIN point ledger rows.
+ */
+router.get('/users/:id/login-streak', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const drift = await getLoginStreakDrift(req.params.id);
+    res.json({ success: true, ...drift });
+  } catch (error) {
+    logger.error('Admin login streak error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to load login streak' });
+  }
+});
+
+/**
+ * POST /api/admin/users/:id/login-streak/rebuild
+ * Overwrite the stored login streak with the one replayed from the ledger.
+ */
+router.post('/users/:id/login-streak/rebuild', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await rebuildLoginStreak(req.params.id);
+    logger.info('Admin rebuilt login streak', {
+      userId: req.params.id,
+      changed: result.changed,
+      admin: req.admin?.email,
+    });
+    res.json({
+      success: true,
+      changed: result.changed,
+      streak: result.derived.streak,
+      longest: result.derived.longest,
+      freezes: result.derived.freezes,
+    });
+  } catch (error) {
+    logger.error('Admin rebuild login streak error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to rebuild login streak' });
+  }
+});
+
+/**
+ * POST /api/admin/badges/replay
+ * Award badges from historical data to users who earned them before badges existed.
+ * Body: { badges?: string[] } (defaults to every badge)
+ */
+router.post('/badges/replay', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const badges = parseBadgeKeys(req.body?.badges);
+    const awarded = await replayBadges(badges);
+    logger.info('Admin replayed badges', { badges, awarded, admin: req.admin?.email });
+    res.json({ success: true, awarded });
+  } catch (error) {
+    logger.error('Admin badge replay error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to replay badges' });
+  }
+});
+
+/**
+ * POST /api/admin/airdrop-snapshots
+ * Freeze Banter Points balances for the airdrop.
+ * Body: asOf (ISO date, optional, defaults to now), note
+ */
+router.post('/airdrop-snapshots', async (req: Request, res: Response): Promise<void> => {
+  try {
+    let asOf: Date | undefined;
+    if (req.body?.asOf !== undefined && req.body.asOf !== null && req.body.asOf !== '') {
+      asOf = new Date(req.body.asOf);
+      if (Number.isNaN(asOf.getTime())) {
+        throw new AppError('asOf must be a valid date', 400);
+      }
+    }
+    const note = typeof req.body?.note === 'string' ? req.body.note.trim() || null : null;
+
+    const snapshot = await takeAirdropSnapshot({
+      asOf,
+      note,
+      createdBy: req.admin?.email || null,
+    });
+    res.status(201).json({ success: true, snapshot: serializeAirdropSnapshot(snapshot) });
+  } catch (error) {
+    logger.error('Admin airdrop snapshot error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to take airdrop snapshot' });
+  }
+});
+
+/**
+ * GET /api/admin/airdrop-snapshots
+ */
+router.get('/airdrop-snapshots', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page, limit, skip } = getPagination(req);
+    const [total, snapshots] = await Promise.all([
+      prisma.airdropSnapshot.count(),
+      prisma.airdropSnapshot.findMany({
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip,
+        take: limit,
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      snapshots: snapshots.map(serializeAirdropSnapshot),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / limit)),
+      },
+    });
+  } catch (error) {
+    logger.error('Admin airdrop snapshots list error', { error });
+    res.status(500).json({ success: false, message: 'Failed to load airdrop snapshots' });
+  }
+});
+
+/**
+ * GET /api/admin/airdrop-snapshots/:id/export
+ * Query params: format=csv|json (default json)
+ * The CSV body hashes to the snapshot's contentHash (also sent as X-Content-Hash).
+ */
+router.get('/airdrop-snapshots/:id/export', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const format = typeof req.query.format === 'string' ? req.query.format.toLowerCase() : 'json';
+    if (format !== 'csv' && format !== 'json') {
+      throw new AppError('format must be csv or json', 400);
+    }
+
+    const { snapshot, entries, csv, verified } = await getAirdropSnapshotExport(req.params.id);
+    if (!verified) {
+      throw new AppError('Snapshot entries no longer match the recorded content hash', 409);
+    }
+
+    res.setHeader('X-Content-Hash', snapshot.contentHash);
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="airdrop-snapshot-${snapshot.id}.csv"`
+      );
+      res.send(csv);
+      return;
+    }
+
+    res.json({
+      success: true,
+      snapshot: serializeAirdropSnapshot(snapshot),
+      entries: entries.map((entry) => ({
+        ...entry,
+        pointsRaw: entry.pointsRaw.toString(),
+      })),
+    });
+  } catch (error) {
+    logger.error('Admin airdrop snapshot export error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to export airdrop snapshot' });
+  }
+});
+
 /**
  * GET /api/admin/users/:id
  */
@@ -977,6 +1526,7 @@ router.delete('/posts/:id', async (req: Request, res: Response): Promise<void> =
         isRoast: true,
         repostOfId: true,
         status: true,
+        league: true,
       },
     });
 
@@ -993,17 +1543,12 @@ router.delete('/posts/:id', async (req: Request, res: Response): Promise<void> =
       throw new AppError('Post not found', 404);
     }
 
-    try {
-      const { getIO } = await import('../websocket/socket');
-      getIO().emit('post-hidden', { postId });
-      if (post.repostOfId && typeof deleted.repostCount === 'number') {
-        getIO().emit('repost-update', {
-          postId: post.repostOfId,
-          repostCount: deleted.repostCount,
-        });
-      }
-    } catch (error) {
-      logger.warn('WebSocket not available for admin post-hidden event', { error, postId });
+    publishRealtimeEvent('post-hidden', { postId, league: post.league });
+    if (post.repostOfId && typeof deleted.repostCount === 'number') {
+      publishRealtimeEvent('repost-update', {
+        postId: post.repostOfId,
+        repostCount: deleted.repostCount,
+      });
     }
 
     res.json({ success: true });
@@ -1019,6 +1564,81 @@ router.delete('/posts/:id', async (req: Request, res: Response): Promise<void> =
   }
 });
 
+/**
+ * DELETE /api/admin/banters/:id
+ * Moderation removal of a banter. Vote boosts on it are refunded to their buyers.
+ */
+router.delete('/banters/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const postId = String(req.params.id || '').trim();
+    if (!postId) {
+      throw new AppError('Post id is required', 400);
+    }
+
+    const post = await prisma.post.findUnique({
+      where: { id: postId },
+      select: { id: true, isRoast: true, repostOfId: true, league: true },
+    });
+    if (!post || !post.isRoast) {
+      throw new AppError('Banter not found', 404);
+    }
+
+    const deleted = await hardDeletePost(postId, { refundBoostsReason: 'admin_deleted' });
+    if (!deleted.deleted) {
+      throw new AppError('Banter not found', 404);
+    }
+
+    publishRealtimeEvent('post-hidden', { postId, reason: 'admin_deleted', league: post.league });
+    if (post.repostOfId && typeof deleted.repostCount === 'number') {
+      publishRealtimeEvent('repost-update', {
+        postId: post.repostOfId,
+        repostCount: deleted.repostCount,
+      });
+    }
+
+    logger.info(`Banter ${postId} removed by ${req.admin?.email || 'unknown'}`, deleted.refunds);
+    res.json({ success: true, refunds: deleted.refunds });
+  } catch (error) {
+    logger.error('Admin delete banter error', { error, postId: req.params.id });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to delete banter' });
+  }
+});
+
+/**
+ * POST /api/admin/votes/recount
+ * Rebuild Stay/Drop counters from Vote rows and report drift.
+ * Body: postId (single post) or afterId/limit (batch scan), dryRun
+ */
+router.post('/votes/recount', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const body = req.body || {};
+    const result = await recountVotes({
+      postId: typeof body.postId === 'string' && body.postId.trim() ? body.postId.trim() : undefined,
+      afterId: typeof body.afterId === 'string' && body.afterId.trim() ? body.afterId.trim() : undefined,
+      limit: body.limit !== undefined ? parseIntField(body.limit, 500) : undefined,
+      dryRun: parseBool(body.dryRun, false),
+    });
+    if (result.drifted > 0) {
+      logger.warn(`Vote recount found ${result.drifted} drifted posts`, {
+        dryRun: result.dryRun,
+        admin: req.admin?.email,
+      });
+    }
+    res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('Admin vote recount error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to recount votes' });
+  }
+});
+
 /**
  * GET /api/admin/pca/categories
  */
@@ -1073,7 +1693,9 @@ router.post('/pca/categories', async (req: Request, res: Response): Promise<void
       roundLabel,
       description,
       criteria,
+      votingRules,
       isActive,
+      hideLiveCounts,
       startsAt,
       endsAt,
     } = req.body || {};
@@ -1095,7 +1717,11 @@ router.post('/pca/categories', async (req: Request, res: Response): Promise<void
         roundLabel: roundLabel || null,
         description: description || null,
         criteria: parseJsonBody(criteria),
+        ...(votingRules != null
+          ? { votingRules: parsePcaVotingRulesPatch(parseJsonBody(votingRules)) }
+          : {}),
         isActive: typeof isActive === 'boolean' ? isActive : true,
+        hideLiveCounts: hideLiveCounts === true,
         startsAt: startsAt ? new Date(startsAt) : null,
         endsAt: endsAt ? new Date(endsAt) : null,
       },
@@ -1121,6 +1747,18 @@ router.patch('/pca/categories/:id', async (req: Request, res: Response): Promise
   try {
     const id = req.params.id;
     const body = req.body || {};
+    if (body.startsAt !== undefined || body.endsAt !== undefined) {
+      const existing = await prisma.pcaCategory.findUnique({
+        where: { id },
+        select: { closedAt: true, _count: { select: { rounds: true } } },
+      });
+      if (existing?.closedAt) {
+        throw new AppError('Voting in this PCA category has closed and its results are final', 409);
+      }
+      if (existing?._count.rounds) {
+        throw new AppError('This category is a bracket; change its schedule through its rounds', 409);
+      }
+    }
     const updated = await prisma.pcaCategory.update({
       where: { id },
       data: {
@@ -1132,7 +1770,16 @@ router.patch('/pca/categories/:id', async (req: Request, res: Response): Promise
         ...(body.roundLabel !== undefined ? { roundLabel: body.roundLabel || null } : {}),
         ...(body.description !== undefined ? { description: body.description || null } : {}),
         ...(body.criteria !== undefined ? { criteria: parseJsonBody(body.criteria) } : {}),
+        ...(body.votingRules !== undefined
+          ? {
+              votingRules:
+                body.votingRules === null
+                  ? Prisma.DbNull
+                  : parsePcaVotingRulesPatch(parseJsonBody(body.votingRules)),
+            }
+          : {}),
         ...(typeof body.isActive === 'boolean' ? { isActive: body.isActive } : {}),
+        ...(typeof body.hideLiveCounts === 'boolean' ? { hideLiveCounts: body.hideLiveCounts } : {}),
         ...(body.startsAt !== undefined ? { startsAt: body.startsAt ? new Date(body.startsAt) : null } : {}),
         ...(body.endsAt !== undefined ? { endsAt: body.endsAt ? new Date(body.endsAt) : null } : {}),
       },
@@ -1151,6 +1798,27 @@ router.patch('/pca/categories/:id', async (req: Request, res: Response): Promise
   }
 });
 
+/**
+ * PUT /api/admin/pca/categories/:id/bracket
+ * Body: { rounds: [{ stage, label, advanceCount?, startsAt, endsAt }], groups?: string[][] }
+ * Replaces the category's rounds before voting starts; an empty rounds list removes the bracket.
+ */
+router.put('/pca/categories/:id/bracket', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bracket = await setPcaBracket(req.params.id, parsePcaBracketInput(req.body));
+    res.json({ success: true, ...bracket });
+    return;
+  } catch (error) {
+    logger.error('Admin PCA bracket update error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to update PCA bracket' });
+    return;
+  }
+});
+
 /**
  * DELETE /api/admin/pca/categories/:id
  */
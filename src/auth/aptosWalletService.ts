@@ -1,10 +1,35 @@
-import { Account, Ed25519PrivateKey } from '@aptos-labs/ts-sdk';
+import {
+  Account,
+  AccountAuthenticator,
+  Aptos,
+  AptosApiError,
+  AptosConfig,
+  Ed25519PrivateKey,
+  Network,
+  SimpleTransaction,
+  generateUserTransactionHash,
+  isUserTransactionResponse,
+} from '@aptos-labs/ts-sdk';
 import { Prisma } from '@prisma/client';
 import crypto from 'crypto';
 import { prisma } from '../index';
 import { logger } from '../utils/logger';
 
 const ALGORITHM = 'aes-256-gcm';
+// ROL withdrawals can target any Aptos-compatible node, e.g. a local testnet at http://127.0.0.1:8080/v1.
+const ROL_WITHDRAWAL_RPC_URL =
+  process.env.ROL_WITHDRAWAL_RPC_URL ||
+  process.env.MOVEMENT_RPC_URL ||
+  process.env.MOVEMENT_TESTNET_RPC ||
+  'https://testnet.movementnetwork.xyz/v1';
+const ROL_WITHDRAWAL_TOKEN_ADDRESS = (
+  process.env.ROL_WITHDRAWAL_TOKEN_ADDRESS ||
+  process.env.MOVEMENT_ROL_ADDRESS ||
+  ''
+).trim();
+const ROL_TREASURY_PRIVATE_KEY = (process.env.ROL_TREASURY_PRIVATE_KEY || '').trim();
+
+let rolWithdrawalClient: Aptos | null = null;
 
 const getKey = () => {
   const raw = process.env.APTOS_WALLET_ENCRYPTION_KEY || 'default-key-please-change-in-production-32bytes';
@@ -108,3 +133,135 @@ export const ensureServerMovementWallet = async (userId: string) => {
     return wallet;
   });
 };
+
+const getRolWithdrawalClient = () => {
+  if (!rolWithdrawalClient) {
+    rolWithdrawalClient = new Aptos(
+      new AptosConfig({ network: Network.CUSTOM, fullnode: ROL_WITHDRAWAL_RPC_URL })
+    );
+  }
+  return rolWithdrawalClient;
+};
+
+export const getRolWithdrawalTokenAddress = () => ROL_WITHDRAWAL_TOKEN_ADDRESS;
+
+export const isRolWithdrawalConfigured = () =>
+  Boolean(ROL_TREASURY_PRIVATE_KEY && ROL_WITHDRAWAL_TOKEN_ADDRESS);
+
+const getRolTreasuryAccount = () => {
+  if (!isRolWithdrawalConfigured()) {
+    throw new Error('ROL withdrawals require ROL_TREASURY_PRIVATE_KEY and a ROL token address');
+  }
+  return Account.fromPrivateKey({ privateKey: new Ed25519PrivateKey(ROL_TREASURY_PRIVATE_KEY) });
+};
+
+export type SignedRolTransfer = {
+  transaction: SimpleTransaction;
+  senderAuthenticator: AccountAuthenticator;
+  txHash: string;
+  fromAddress: string;
+  tokenAddress: string;
+  expiresAt: Date;
+};
+
+/**
+ * The treasury's next on-chain sequence number. It only moves once a transfer commits, so a
+ * batch reads it once and numbers its transfers from there.
+ */
+export const getRolTreasurySequenceNumber = async (): Promise<bigint> => {
+  const info = await getRolWithdrawalClient().getAccountInfo({
+    accountAddress: getRolTreasuryAccount().accountAddress,
+  });
+  return BigInt(info.sequence_number);
+};
+
+/**
+ * Build and sign a treasury -> user transfer of the ROL fungible asset without submitting it.
+ * The hash is known up front so callers can persist it before broadcasting.
+ */
+export const buildRolTransfer = async (input: {
+  toAddress: string;
+  amountRaw: bigint;
+  sequenceNumber: bigint;
+}): Promise<SignedRolTransfer> => {
+  const aptos = getRolWithdrawalClient();
+  const treasury = getRolTreasuryAccount();
+
+  const transaction = await aptos.transaction.build.simple({
+    sender: treasury.accountAddress,
+    data: {
+      function: '0x1::primary_fungible_store::transfer',
+      typeArguments: ['0x1::fungible_asset::Metadata'],
+      functionArguments: [ROL_WITHDRAWAL_TOKEN_ADDRESS, input.toAddress, input.amountRaw],
+    },
+    options: { accountSequenceNumber: input.sequenceNumber },
+  });
+  const senderAuthenticator = aptos.transaction.sign({ signer: treasury, transaction });
+  const txHash = generateUserTransactionHash({ transaction, senderAuthenticator });
+
+  return {
+    transaction,
+    senderAuthenticator,
+    txHash,
+    fromAddress: treasury.accountAddress.toString().toLowerCase(),
+    tokenAddress: ROL_WITHDRAWAL_TOKEN_ADDRESS,
+    expiresAt: new Date(
+      Number(transaction.rawTransaction.expiration_timestamp_secs) * 1000
+    ),
+  };
+};
+
+/**
+ * Submit a signed transfer. A 4xx from the node means it was rejected and will never commit;
+ * any other error leaves the outcome unknown and is rethrown for reconciliation to settle.
+ */
+export const submitRolTransfer = async (
+  signed: SignedRolTransfer
+): Promise<{ accepted: true; txHash: string } | { accepted: false; reason: string }> => {
+  try {
+    const pending = await getRolWithdrawalClient().transaction.submit.simple({
+      transaction: signed.transaction,
+      senderAuthenticator: signed.senderAuthenticator,
+    });
+    return { accepted: true, txHash: pending.hash };
+  } catch (error) {
+    if (error instanceof AptosApiError && error.status >= 400 && error.status < 500) {
+      return { accepted: false, reason: error.message };
+    }
+    throw error;
+  }
+};
+
+export type MovementTransactionStatus =
+  | { state: 'NOT_FOUND' }
+  | { state: 'PENDING' }
+  | { state: 'SUCCESS'; version: string; timestamp: Date }
+  | { state: 'FAILED'; vmStatus: string };
+
+export const getMovementTransactionStatus = async (
+  txHash: string
+): Promise<MovementTransactionStatus> => {
+  try {
+    const tx = await getRolWithdrawalClient().getTransactionByHash({ transactionHash: txHash });
+    if (tx.type === 'pending_transaction') {
+      return { state: 'PENDING' };
+    }
+    if (!isUserTransactionResponse(tx)) {
+      return { state: 'FAILED', vmStatus: `unexpected transaction type ${tx.type}` };
+    }
+    if (!tx.success) {
+      return { state: 'FAILED', vmStatus: tx.vm_status };
+    }
+    return {
+      state: 'SUCCESS',
+      version: tx.version,
+      // Aptos timestamps are in microseconds.
+      timestamp: new Date(Math.floor(Number(tx.timestamp) / 1000)),
+    };
+  } catch (error) {
+    if (error instanceof AptosApiError && error.status === 404) {
+      return { state: 'NOT_FOUND' };
+    }
+    throw error;
+  }
+};
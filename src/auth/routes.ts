@@ -8,13 +8,26 @@ import { generateToken } from './jwt';
 import { PrivyClient } from '@privy-io/server-auth';
 import { createNotification } from '../notification/service';
 import {
-  DAILY_BANTER_POINTS_RAW,
   EARLY_USER_POINTS_RAW,
   awardDailyLoginPoints,
   awardEarlyUserPoints,
 } from '../points/service';
+import {
+  attributeReferral,
+  getIpPrefix,
+  normalizeReferralCode,
+  queueReferralQualificationCheck,
+} from '../points/referrals';
+import { isValidTimeZone, resolveUserTimeZone } from '../utils/timezone';
+import { getUserBadges } from '../points/badges';
+import { publishPresence } from '../message/presence';
 
 const router = Router();
+// A user may move their daily reward timezone at most once per cooldown.
+const TIMEZONE_CHANGE_COOLDOWN_DAYS = Math.max(
+  0,
+  Number.parseInt(process.env.TIMEZONE_CHANGE_COOLDOWN_DAYS || '7', 10)
+);
 const privyClient = new PrivyClient(
   process.env.PRIVY_APP_ID || '',
   process.env.PRIVY_APP_SECRET || ''
@@ -109,6 +122,35 @@ const queuePointsAwardNotification = (input: {
   });
 };
 
+/**
+ * DAILY_POINTS notification for a claim, telling the user where their streak stands.
+ */
+const queueDailyPointsNotification = (
+  userId: string,
+  reward: { reference: string; pointsRaw: bigint; streak: number; freezesUsed: number }
+) => {
+  const streakLine =
+    reward.streak > 1
+      ? `You're on a ${reward.streak}-day login streak.`
+      : 'You started a new login streak.';
+  const freezeLine =
+    reward.freezesUsed > 0
+      ? ` A streak freeze covered ${reward.freezesUsed === 1 ? 'the day' : 'the days'} you missed.`
+      : '';
+  queuePointsAwardNotification({
+    userId,
+    type: 'DAILY_POINTS',
+    title: reward.streak > 1 ? `Day ${reward.streak} streak: Banter Points added` : 'Daily Banter Points added',
+    body: `You received your daily Banter Points reward. ${streakLine}${freezeLine} Open Profile > Banter Points to see how your points count toward the future airdrop.`,
+    data: {
+      pointsRaw: reward.pointsRaw.toString(),
+      streak: String(reward.streak),
+      freezesUsed: String(reward.freezesUsed),
+    },
+    reference: reward.reference,
+  });
+};
+
 const pickPrimaryWalletsByChain = (
   wallets: Array<{
     address: string;
@@ -217,11 +259,14 @@ const resolvePrivyEmail = (privyUser: any, linkedAccounts: any[] = []) => {
 /**
  * POST /api/auth/privy/verify
  * Verify Privy token, sync wallets, return JWT
- * Request: { privyToken: string }
+ * Request: { privyToken: string, referralCode?: string, deviceToken?: string }
+ * A referral code is only attributed when this call creates the account.
  */
 router.post('/privy/verify', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { privyToken } = req.body || {};
+    const { privyToken, deviceToken } = req.body || {};
+    const referralCode = normalizeReferralCode(req.body?.referralCode);
+    const ipPrefix = getIpPrefix(req.ip);
     if (!privyToken || typeof privyToken !== 'string') {
       throw new AppError('Privy token is required', 400);
     }
@@ -255,11 +300,15 @@ router.post('/privy/verify', async (req: Request, res: Response): Promise<void>
 
     const now = new Date();
     let dailyPointsAwarded = false;
-    let dailyPointsReference = '';
+    let dailyReward: Awaited<ReturnType<typeof awardDailyLoginPoints>> | null = null;
     let earlyUserAwarded = false;
     let earlyUserReference = '';
 
     const user = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const existingUser = await tx.user.findUnique({
+        where: { email },
+        select: { id: true },
+      });
       const syncedUser = await tx.user.upsert({
         where: { email },
         create: {
@@ -267,14 +316,25 @@ router.post('/privy/verify', async (req: Request, res: Response): Promise<void>
           displayName: displayName || null,
           movementAddress: movementWallet?.address || null,
           solanaAddress: solanaWallet?.address || null,
+          lastIpPrefix: ipPrefix,
         },
         update: {
           ...(displayName ? { displayName } : {}),
           movementAddress: movementWallet?.address || null,
           solanaAddress: solanaWallet?.address || null,
+          ...(ipPrefix ? { lastIpPrefix: ipPrefix } : {}),
         },
       });
 
+      if (!existingUser) {
+        await attributeReferral(tx, {
+          refereeId: syncedUser.id,
+          code: referralCode,
+          ip: req.ip,
+          deviceToken: typeof deviceToken === 'string' ? deviceToken : null,
+        });
+      }
+
       await reconcilePrimaryWalletForChain(tx, {
         userId: syncedUser.id,
         blockchain: 'SOLANA',
@@ -301,7 +361,7 @@ router.post('/privy/verify', async (req: Request, res: Response): Promise<void>
 
       const rewardResult = await awardDailyLoginPoints(tx, syncedUser.id, now);
       dailyPointsAwarded = rewardResult.awarded;
-      dailyPointsReference = rewardResult.reference;
+      dailyReward = rewardResult;
       logger.info('Daily points check (privy verify)', {
         userId: syncedUser.id,
         awarded: dailyPointsAwarded,
@@ -315,17 +375,9 @@ router.post('/privy/verify', async (req: Request, res: Response): Promise<void>
       return syncedUser;
     });
 
-    if (dailyPointsAwarded) {
-      queuePointsAwardNotification({
-        userId: user.id,
-        type: 'DAILY_POINTS',
-        title: 'Daily Banter Points added',
-        body: 'You received your daily Banter Points reward. Open Profile > Banter Points to see how your points count toward the future airdrop.',
-        data: {
-          pointsRaw: DAILY_BANTER_POINTS_RAW.toString(),
-        },
-        reference: dailyPointsReference,
-      });
+    if (dailyPointsAwarded && dailyReward) {
+      queueDailyPointsNotification(user.id, dailyReward);
+      queueReferralQualificationCheck(user.id);
     }
     if (earlyUserAwarded) {
       queuePointsAwardNotification({
@@ -446,6 +498,10 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
     }
 
     const now = new Date();
+    const ipPrefix = getIpPrefix(req.ip);
+    if (ipPrefix && ipPrefix !== user.lastIpPrefix) {
+      await prisma.user.update({ where: { id: user.id }, data: { lastIpPrefix: ipPrefix } });
+    }
     const rewardResult = await prisma.$transaction((tx) => awardDailyLoginPoints(tx, user.id, now));
     logger.info('Daily points check (login)', {
       userId: user.id,
@@ -453,16 +509,8 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
       localDayStart: rewardResult.localDayStart.toISOString(),
     });
     if (rewardResult.awarded) {
-      queuePointsAwardNotification({
-        userId: user.id,
-        type: 'DAILY_POINTS',
-        title: 'Daily Banter Points added',
-        body: 'You received your daily Banter Points reward. Open Profile > Banter Points to see how your points count toward the future airdrop.',
-        data: {
-          pointsRaw: DAILY_BANTER_POINTS_RAW.toString(),
-        },
-        reference: rewardResult.reference,
-      });
+      queueDailyPointsNotification(user.id, rewardResult);
+      queueReferralQualificationCheck(user.id);
     }
     const earlyUserResult = await prisma.$transaction((tx) => awardEarlyUserPoints(tx, user));
     if (earlyUserResult.awarded) {
@@ -496,12 +544,13 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
 /**
  * POST /api/auth/register
  * Register a new user
- * Request: { email: string, displayName?: string, username?: string, solanaAddress: string, movementAddress?: string }
+ * Request: { email: string, displayName?: string, username?: string, solanaAddress: string, movementAddress?: string, referralCode?: string, deviceToken?: string }
  * Response: { token: string }
  */
 router.post('/register', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { email, displayName, username, solanaAddress, movementAddress } = req.body;
+    const { email, displayName, username, solanaAddress, movementAddress, deviceToken } = req.body;
+    const referralCode = normalizeReferralCode(req.body?.referralCode);
 
     if (!email || typeof email !== 'string') {
       throw new AppError('Email is required', 400);
@@ -567,9 +616,17 @@ router.post('/register', async (req: Request, res: Response): Promise<void> => {
           username: username || null,
           solanaAddress: normalizedSolanaAddress,
           movementAddress: normalizedMovementAddress,
+          lastIpPrefix: getIpPrefix(req.ip),
         },
       });
 
+      await attributeReferral(tx, {
+        refereeId: createdUser.id,
+        code: referralCode,
+        ip: req.ip,
+        deviceToken: typeof deviceToken === 'string' ? deviceToken : null,
+      });
+
       const walletData: any[] = [];
       if (normalizedMovementAddress) {
         walletData.push({
@@ -653,6 +710,10 @@ router.get('/me', jwtAuthMiddleware, async (req: Request, res: Response): Promis
     }
 
     const now = new Date();
+    const ipPrefix = getIpPrefix(req.ip);
+    if (ipPrefix && ipPrefix !== user.lastIpPrefix) {
+      await prisma.user.update({ where: { id: user.id }, data: { lastIpPrefix: ipPrefix } });
+    }
     const rewardResult = await prisma.$transaction((tx) => awardDailyLoginPoints(tx, user.id, now));
     logger.info('Daily points check (/me)', {
       userId: user.id,
@@ -665,18 +726,10 @@ router.get('/me', jwtAuthMiddleware, async (req: Request, res: Response): Promis
     let effectiveLastDailyPointsAt = user.lastDailyPointsAt;
 
     if (rewardResult.awarded) {
-      effectiveBanterPointsRaw = user.banterPointsRaw + DAILY_BANTER_POINTS_RAW;
+      effectiveBanterPointsRaw = user.banterPointsRaw + rewardResult.pointsRaw;
       effectiveLastDailyPointsAt = now;
-      queuePointsAwardNotification({
-        userId: user.id,
-        type: 'DAILY_POINTS',
-        title: 'Daily Banter Points added',
-        body: 'You received your daily Banter Points reward. Open Profile > Banter Points to see how your points count toward the future airdrop.',
-        data: {
-          pointsRaw: DAILY_BANTER_POINTS_RAW.toString(),
-        },
-        reference: rewardResult.reference,
-      });
+      queueDailyPointsNotification(user.id, rewardResult);
+      queueReferralQualificationCheck(user.id);
     }
     const earlyUserResult = await prisma.$transaction((tx) => awardEarlyUserPoints(tx, user));
     if (earlyUserResult.awarded) {
@@ -706,15 +759,19 @@ router.get('/me', jwtAuthMiddleware, async (req: Request, res: Response): Promis
         rolBalanceRaw: user.rolBalanceRaw.toString(),
         banterPointsRaw: effectiveBanterPointsRaw.toString(),
         lastDailyPointsAt: effectiveLastDailyPointsAt,
+        loginStreak: rewardResult.streak,
         avatarUrl: user.avatarUrl,
         bannerUrl: user.bannerUrl,
         bio: user.bio,
         profileLocked: user.profileLocked,
+        showPresence: user.showPresence,
         phone: user.phone,
         country: user.country,
+        timezone: resolveUserTimeZone(user),
         dateOfBirth: user.dateOfBirth,
         clubs: user.clubs,
         wallets: user.wallets,
+        badges: await getUserBadges(user.id),
       },
     });
   } catch (error) {
@@ -743,14 +800,47 @@ router.patch('/me', jwtAuthMiddleware, async (req: Request, res: Response): Prom
       username,
       bio,
       profileLocked,
+      showPresence,
       phone,
       country,
       dateOfBirth,
       clubs,
       avatarUrl,
       bannerUrl,
+      timezone,
     } = req.body || {};
 
+    if (showPresence !== undefined && typeof showPresence !== 'boolean') {
+      throw new AppError('showPresence must be a boolean', 400);
+    }
+
+    let timezoneUpdate: { timezone: string; timezoneChangedAt: Date } | undefined;
+    if (timezone !== undefined) {
+      if (!isValidTimeZone(timezone)) {
+        throw new AppError('timezone must be an IANA timezone such as Africa/Lagos', 400);
+      }
+      const current = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { timezone: true, country: true, timezoneChangedAt: true },
+      });
+      if (!current) {
+        throw new AppError('User not found', 404);
+      }
+      const nextTimezone = timezone.trim();
+      if (nextTimezone !== resolveUserTimeZone(current)) {
+        const cooldownEndsAt = current.timezoneChangedAt
+          ? current.timezoneChangedAt.getTime() + TIMEZONE_CHANGE_COOLDOWN_DAYS * 24 * 60 * 60 * 1000
+          : 0;
+        if (cooldownEndsAt > Date.now()) {
+          throw new AppError(
+            `Timezone can only be changed once every ${TIMEZONE_CHANGE_COOLDOWN_DAYS} days`,
+            429
+          );
+        }
+        timezoneUpdate = { timezone: nextTimezone, timezoneChangedAt: new Date() };
+      }
+    }
+
     if (username) {
       const existing = await prisma.user.findUnique({ where: { username } });
       if (existing && existing.id !== userId) {
@@ -765,14 +855,22 @@ router.patch('/me', jwtAuthMiddleware, async (req: Request, res: Response): Prom
         username: typeof username === 'string' ? username : undefined,
         bio: typeof bio === 'string' ? bio : undefined,
         profileLocked: typeof profileLocked === 'boolean' ? profileLocked : undefined,
+        showPresence,
         phone: typeof phone === 'string' ? phone : undefined,
         country: typeof country === 'string' ? country : undefined,
         dateOfBirth: dateOfBirth ? new Date(dateOfBirth) : undefined,
         clubs: Array.isArray(clubs) ? clubs : undefined,
         avatarUrl: typeof avatarUrl === 'string' ? avatarUrl : undefined,
         bannerUrl: typeof bannerUrl === 'string' ? bannerUrl : undefined,
+        ...timezoneUpdate,
       },
     });
+    if (typeof showPresence === 'boolean') {
+      // Contacts learn right away that presence was hidden or shown again.
+      void publishPresence(updated.id).catch((error) => {
+        logger.warn('Failed to publish presence change', { userId: updated.id, error });
+      });
+    }
 
     res.json({
       success: true,
@@ -787,8 +885,10 @@ router.patch('/me', jwtAuthMiddleware, async (req: Request, res: Response): Prom
         bannerUrl: updated.bannerUrl,
         bio: updated.bio,
         profileLocked: updated.profileLocked,
+        showPresence: updated.showPresence,
         phone: updated.phone,
         country: updated.country,
+        timezone: resolveUserTimeZone(updated),
         dateOfBirth: updated.dateOfBirth,
         clubs: updated.clubs,
       },
@@ -1,9 +1,18 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../index';
 import { logger } from '../utils/logger';
-import { getIO } from '../websocket/socket';
+import { publishRealtimeEvent } from '../websocket/events';
 import { jwtAuthMiddleware } from '../auth/jwtMiddleware';
 import { createNotification } from '../notification/service';
+import { refreshPostHotScore } from '../post/ranking';
+import {
+  buildCursorPage,
+  buildTimeCursorWhere,
+  decodeTimeCursor,
+  encodeTimeCursor,
+  parseCursorParams,
+} from '../utils/cursor';
+import { AppError } from '../utils/errorHandler';
 
 const router = Router();
 const VALID_COMMENT_EMOJIS = ['😂', '🔥', '❤️', '👏', '😮', '😢'];
@@ -11,14 +20,14 @@ const VALID_COMMENT_EMOJIS = ['😂', '🔥', '❤️', '👏', '😮', '😢'];
 /**
  * GET /api/comments/:commentId/replies
  * Get replies for a comment
+ * Query params: limit, cursor
  */
 router.get('/replies/:commentId', async (req: Request, res: Response): Promise<Response | void> => {
   try {
     const userId = req.user?.userId;
     const commentId = req.params.commentId;
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const skip = (page - 1) * limit;
+    const { limit, cursor } = parseCursorParams(req.query, { defaultLimit: 20, maxLimit: 100 });
+    const cursorWhere = buildTimeCursorWhere(decodeTimeCursor(cursor), { direction: 'asc' });
 
     const parent = await prisma.comment.findUnique({
       where: { id: commentId },
@@ -47,8 +56,8 @@ router.get('/replies/:commentId', async (req: Request, res: Response): Promise<R
       return res.status(404).json({ success: false, message: 'Post not found' });
     }
 
-    const replies = await prisma.comment.findMany({
-      where: { parentId: commentId },
+    const replyRows = await prisma.comment.findMany({
+      where: { parentId: commentId, ...cursorWhere },
       include: {
         user: {
           select: {
@@ -59,12 +68,10 @@ router.get('/replies/:commentId', async (req: Request, res: Response): Promise<R
           },
         },
       },
-      orderBy: {
-        createdAt: 'asc',
-      },
-      skip,
-      take: limit,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: limit + 1,
     });
+    const { items: replies, pagination } = buildCursorPage(replyRows, limit, encodeTimeCursor);
 
     const replyIds = replies.map((reply) => reply.id);
     const replyReactionGroups = replyIds.length
@@ -95,10 +102,6 @@ router.get('/replies/:commentId', async (req: Request, res: Response): Promise<R
       {}
     );
 
-    const total = await prisma.comment.count({
-      where: { parentId: commentId },
-    });
-
     return res.json({
       success: true,
       replies: replies.map((comment) => ({
@@ -112,15 +115,13 @@ router.get('/replies/:commentId', async (req: Request, res: Response): Promise<R
         reactionBreakdown: replyBreakdownMap[comment.id] || {},
         userReaction: replyUserReactionMap[comment.id] || null,
       })),
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
+      pagination,
     });
   } catch (error) {
     logger.error('Get comment replies error', { error });
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
     return res.status(500).json({ success: false, message: 'Failed to get comment replies' });
   }
 });
@@ -210,6 +211,7 @@ router.post('/', async (req: Request, res: Response): Promise<Response | void> =
     });
 
     logger.info(`Created comment ${comment.id} on post ${postId} by user ${user.id}`);
+    await refreshPostHotScore(postId);
 
     const actorName = user.displayName || user.username || 'Someone';
     if (parent && parent.userId !== user.id) {
@@ -253,23 +255,19 @@ router.post('/', async (req: Request, res: Response): Promise<Response | void> =
       where: { postId },
     });
 
-    try {
-      getIO().emit('comment-created', {
-        postId,
-        comment: {
-          id: comment.id,
-          postId: comment.postId,
-          userId: comment.userId,
-          parentId: comment.parentId,
-          content: comment.content,
-          createdAt: comment.createdAt,
-          user: comment.user,
-        },
-        commentCount,
-      });
-    } catch (error) {
-      logger.warn('WebSocket not available for comment-created event', { error });
-    }
+    publishRealtimeEvent('comment-created', {
+      postId,
+      comment: {
+        id: comment.id,
+        postId: comment.postId,
+        userId: comment.userId,
+        parentId: comment.parentId,
+        content: comment.content,
+        createdAt: comment.createdAt,
+        user: comment.user,
+      },
+      commentCount,
+    });
 
     return res.status(201).json({
       success: true,
@@ -293,16 +291,16 @@ router.post('/', async (req: Request, res: Response): Promise<Response | void> =
 /**
  * GET /api/comments/:postId
  * Get all comments for a post (top-level by default)
+ * Query params: limit, cursor, parentId, includeReplies=1
  */
 router.get('/:postId', async (req: Request, res: Response): Promise<Response | void> => {
   try {
     const userId = req.user?.userId;
     const postId = req.params.postId;
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 50;
+    const { limit, cursor } = parseCursorParams(req.query, { defaultLimit: 50, maxLimit: 100 });
+    const cursorWhere = buildTimeCursorWhere(decodeTimeCursor(cursor), { direction: 'asc' });
     const parentId = typeof req.query.parentId === 'string' ? req.query.parentId : undefined;
     const includeReplies = req.query.includeReplies === '1';
-    const skip = (page - 1) * limit;
 
     // Check if post exists
     const post = await prisma.post.findUnique({
@@ -316,8 +314,8 @@ router.get('/:postId', async (req: Request, res: Response): Promise<Response | v
       return res.status(404).json({ success: false, message: 'Post not found' });
     }
 
-    const comments = await prisma.comment.findMany({
-      where: { postId, parentId: parentId ?? null },
+    const commentRows = await prisma.comment.findMany({
+      where: { postId, parentId: parentId ?? null, ...cursorWhere },
       include: {
         user: {
           select: {
@@ -347,12 +345,10 @@ router.get('/:postId', async (req: Request, res: Response): Promise<Response | v
           select: { replies: true },
         },
       },
-      orderBy: {
-        createdAt: 'asc',
-      },
-      skip,
-      take: limit,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: limit + 1,
     });
+    const { items: comments, pagination } = buildCursorPage(commentRows, limit, encodeTimeCursor);
 
     const commentIds = comments.map((comment) => comment.id);
     const reactionGroups = commentIds.length
@@ -381,10 +377,6 @@ router.get('/:postId', async (req: Request, res: Response): Promise<Response | v
       return acc;
     }, {});
 
-    const total = await prisma.comment.count({
-      where: { postId, parentId: parentId ?? null },
-    });
-
     return res.json({
       success: true,
       comments: comments.map((comment) => {
@@ -415,15 +407,13 @@ router.get('/:postId', async (req: Request, res: Response): Promise<Response | v
           : undefined,
         };
       }),
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
+      pagination,
     });
   } catch (error) {
     logger.error('Get comments error', { error });
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
     return res.status(500).json({ success: false, message: 'Failed to get comments' });
   }
 });
@@ -476,23 +466,19 @@ router.patch('/:id', jwtAuthMiddleware, async (req: Request, res: Response): Pro
       },
     });
 
-    try {
-      getIO().emit('comment-updated', {
+    publishRealtimeEvent('comment-updated', {
+      postId: updated.postId,
+      comment: {
+        id: updated.id,
         postId: updated.postId,
-        comment: {
-          id: updated.id,
-          postId: updated.postId,
-          userId: updated.userId,
-          parentId: updated.parentId,
-          content: updated.content,
-          createdAt: updated.createdAt,
-          user: updated.user,
-          replyCount: updated._count?.replies || 0,
-        },
-      });
-    } catch (error) {
-      logger.warn('WebSocket not available for comment-updated event', { error });
-    }
+        userId: updated.userId,
+        parentId: updated.parentId,
+        content: updated.content,
+        createdAt: updated.createdAt,
+        user: updated.user,
+        replyCount: updated._count?.replies || 0,
+      },
+    });
 
     return res.json({
       success: true,
@@ -600,17 +586,14 @@ router.post('/:commentId/reactions', jwtAuthMiddleware, async (req: Request, res
       return acc;
     }, {});
 
-    try {
-      getIO().emit('comment-reaction-update', {
-        commentId,
-        reactionBreakdown,
-        action,
-        emoji,
-        userId,
-      });
-    } catch (error) {
-      logger.warn('WebSocket not available for comment-reaction-update event', { error });
-    }
+    publishRealtimeEvent('comment-reaction-update', {
+      postId: comment.postId,
+      commentId,
+      reactionBreakdown,
+      action,
+      emoji,
+      userId,
+    });
 
     return res.json({
       success: true,
@@ -650,20 +633,17 @@ router.delete('/:id', jwtAuthMiddleware, async (req: Request, res: Response): Pr
     await prisma.comment.delete({
       where: { id: commentId },
     });
+    await refreshPostHotScore(comment.postId);
 
     const commentCount = await prisma.comment.count({
       where: { postId: comment.postId },
     });
 
-    try {
-      getIO().emit('comment-deleted', {
-        postId: comment.postId,
-        commentId,
-        commentCount,
-      });
-    } catch (error) {
-      logger.warn('WebSocket not available for comment-deleted event', { error });
-    }
+    publishRealtimeEvent('comment-deleted', {
+      postId: comment.postId,
+      commentId,
+      commentCount,
+    });
 
     return res.json({
       success: true,
@@ -13,6 +13,9 @@ import { jwtAuthMiddleware } from './auth/jwtMiddleware';
 import { setupWebSocket } from './websocket/socket';
 import { closeSocketRedisAdapter, setupSocketRedisAdapter } from './websocket/redisAdapter';
 import { setupQueueWorkers } from './queue/workers';
+import { startPostExpirationSweeper, stopPostExpirationSweeper } from './queue/postExpiration';
+import { startPcaClosingScheduler, stopPcaClosingScheduler } from './pca/results';
+import { stopPcaLiveUpdates } from './pca/liveResults';
 import authRoutes from './auth/routes';
 import walletRoutes from './wallet/routes';
 import postRoutes from './post/routes';
@@ -173,6 +176,7 @@ app.use('/api/ads', adsRoutes); // Public ad settings + campaigns
 app.use('/api/users', jwtAuthMiddleware, userRoutes);
 app.use('/api/notifications', jwtAuthMiddleware, notificationRoutes);
 app.use('/api/messages', jwtAuthMiddleware, messageRoutes);
+app.use('/api/public/pca', pcaRoutes); // Public reads (categories, results); voting requires a user
 app.use('/api/pca', jwtAuthMiddleware, pcaRoutes);
 app.use('/api/rewards', jwtAuthMiddleware, pointsRoutes);
 app.use('/api/admin', adminRoutes);
@@ -186,6 +190,14 @@ function shouldRunQueueWorkers() {
   return process.env.RUN_QUEUE_WORKERS !== '0' && process.env.DISABLE_BACKGROUND_QUEUE !== '1';
 }
 
+// The sweeper covers posts whose jobs were never queued, so it also runs when the queue is disabled.
+// PCA closing rides on the same interval role since it needs no Redis either.
+function shouldRunExpirationSweeper() {
+  const appRole = (process.env.APP_ROLE || 'all').trim().toLowerCase();
+  if (appRole === 'api') return false;
+  return process.env.RUN_QUEUE_WORKERS !== '0';
+}
+
 async function bootstrap() {
   await setupSocketRedisAdapter(io);
   setupWebSocket(io);
@@ -196,6 +208,11 @@ async function bootstrap() {
     logger.info('Queue workers disabled via RUN_QUEUE_WORKERS=0 or DISABLE_BACKGROUND_QUEUE=1');
   }
 
+  if (shouldRunExpirationSweeper()) {
+    startPostExpirationSweeper();
+    startPcaClosingScheduler();
+  }
+
   const PORT = process.env.PORT || 3001;
   httpServer.listen(PORT, () => {
     logger.info(`🚀 Banter Backend Server running on port ${PORT}`);
@@ -218,6 +235,9 @@ void bootstrap().catch(async (error) => {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully...');
+  stopPostExpirationSweeper();
+  stopPcaClosingScheduler();
+  stopPcaLiveUpdates();
   await closeSocketRedisAdapter().catch(() => undefined);
   await prisma.$disconnect();
   httpServer.close(() => {
@@ -228,6 +248,9 @@ process.on('SIGTERM', async () => {
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully...');
+  stopPostExpirationSweeper();
+  stopPcaClosingScheduler();
+  stopPcaLiveUpdates();
   await closeSocketRedisAdapter().catch(() => undefined);
   await prisma.$disconnect();
   httpServer.close(() => {
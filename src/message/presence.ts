@@ -0,0 +1,153 @@
+import { prisma } from '../index';
+import { AppError } from '../utils/errorHandler';
+import { logger } from '../utils/logger';
+import { publishUserEvent } from '../websocket/events';
+import { buildUserRoom } from '../websocket/rooms';
+import { getIO } from '../websocket/socket';
+
+// Clients should drop a typing indicator that is not refreshed within this window.
+const TYPING_TTL_MS = 8000;
+const PRESENCE_FANOUT_LIMIT = 500;
+
+type PresenceUser = { id: string; showPresence: boolean; lastSeenAt: Date | null };
+
+/**
+ * Whether any socket is signed in as the user. The user room spans every instance when the Redis
+ * adapter is enabled, so this reflects connections to other instances too.
+ */
+export const isUserOnline = async (userId: string) => {
+  try {
+    const sockets = await getIO().in(buildUserRoom(userId)).fetchSockets();
+    return sockets.length > 0;
+  } catch (error) {
+    logger.warn('Presence lookup failed', { userId, error });
+    return false;
+  }
+};
+
+// Users who hide their presence always read as not visible, with no online or last-seen data.
+const toPresence = async (user: PresenceUser) =>
+  user.showPresence
+    ? {
+        userId: user.id,
+        visible: true,
+        online: await isUserOnline(user.id),
+        lastSeenAt: user.lastSeenAt?.toISOString() ?? null,
+      }
+    : { userId: user.id, visible: false, online: null, lastSeenAt: null };
+
+/**
+ * Users the viewer shares an accepted conversation with. Presence and typing are never shared
+ * with someone whose message request is still pending or was rejected.
+ */
+const getActivePartnerIds = async (userId: string, limit = PRESENCE_FANOUT_LIMIT) => {
+  const conversations = await prisma.conversation.findMany({
+    where: { status: 'ACTIVE', OR: [{ userAId: userId }, { userBId: userId }] },
+    orderBy: { lastMessageAt: 'desc' },
+    take: limit,
+    select: { userAId: true, userBId: true },
+  });
+  return conversations.map((conversation) =>
+    conversation.userAId === userId ? conversation.userBId : conversation.userAId
+  );
+};
+
+/**
+ * Presence of the requested users as seen by the viewer. Users without an accepted conversation
+ * with the viewer are left out.
+ */
+export async function getPresenceForViewer(viewerId: string, userIds: string[]) {
+  const requested = [...new Set(userIds)].filter((userId) => userId && userId !== viewerId);
+  if (!requested.length) {
+    return [];
+  }
+
+  const conversations = await prisma.conversation.findMany({
+    where: {
+      status: 'ACTIVE',
+      OR: [
+        { userAId: viewerId, userBId: { in: requested } },
+        { userBId: viewerId, userAId: { in: requested } },
+      ],
+    },
+    select: { userAId: true, userBId: true },
+  });
+  const partnerIds = conversations.map((conversation) =>
+    conversation.userAId === viewerId ? conversation.userBId : conversation.userAId
+  );
+  const users = await prisma.user.findMany({
+    where: { id: { in: partnerIds } },
+    select: { id: true, showPresence: true, lastSeenAt: true },
+  });
+  return Promise.all(users.map(toPresence));
+}
+
+/**
+ * Send the user's current presence to everyone they share an accepted conversation with.
+ */
+export async function publishPresence(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, showPresence: true, lastSeenAt: true },
+  });
+  if (!user) {
+    return;
+  }
+
+  const presence = await toPresence(user);
+  const partnerIds = await getActivePartnerIds(userId);
+  for (const partnerId of partnerIds) {
+    publishUserEvent(partnerId, 'presence.update', presence);
+  }
+}
+
+const touchLastSeen = (userId: string) =>
+  prisma.user.update({ where: { id: userId }, data: { lastSeenAt: new Date() } });
+
+/**
+ * Called once a signed-in socket has joined its user room. Only the user's first connection
+ * across all instances announces them as online.
+ */
+export async function handlePresenceConnect(userId: string) {
+  const sockets = await getIO().in(buildUserRoom(userId)).fetchSockets();
+  await touchLastSeen(userId);
+  if (sockets.length <= 1) {
+    await publishPresence(userId);
+  }
+}
+
+/**
+ * Called after a signed-in socket disconnected. The user goes offline once no socket on any
+ * instance is left in their room.
+ */
+export async function handlePresenceDisconnect(userId: string) {
+  if (await isUserOnline(userId)) {
+    return;
+  }
+  await touchLastSeen(userId);
+  await publishPresence(userId);
+}
+
+/**
+ * Relay a typing start/stop to the other participant of an accepted conversation.
+ */
+export async function relayTyping(userId: string, conversationId: string, typing: boolean) {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { userAId: true, userBId: true, status: true },
+  });
+  if (!conversation || (conversation.userAId !== userId && conversation.userBId !== userId)) {
+    throw new AppError('Conversation not found', 404);
+  }
+  if (conversation.status !== 'ACTIVE') {
+    throw new AppError('Typing indicators start once the message request is accepted', 409);
+  }
+
+  const recipientId = conversation.userAId === userId ? conversation.userBId : conversation.userAId;
+  publishUserEvent(recipientId, 'messages.typing', {
+    conversationId,
+    userId,
+    typing,
+    expiresAt: typing ? new Date(Date.now() + TYPING_TTL_MS).toISOString() : null,
+  });
+}
@@ -0,0 +1,189 @@
+import { prisma } from '../index';
+import { AppError } from '../utils/errorHandler';
+import { publishUserEvent } from '../websocket/events';
+
+type ConversationSides = {
+  id: string;
+  userAId: string;
+  userBId: string;
+  status: string;
+};
+
+type ReadWatermarks = {
+  userAId: string;
+  userALastReadMessageId: string | null;
+  userALastReadAt: Date | null;
+  userAUnreadCount: number;
+  userBLastReadMessageId: string | null;
+  userBLastReadAt: Date | null;
+  userBUnreadCount: number;
+};
+
+export type MessageDeliveryState = 'SENT' | 'DELIVERED' | 'READ';
+
+export const getMessageDeliveryState = (message: {
+  deliveredAt: Date | null;
+  readAt: Date | null;
+}): MessageDeliveryState => (message.readAt ? 'READ' : message.deliveredAt ? 'DELIVERED' : 'SENT');
+
+/**
+ * The user's read watermark in a conversation and how many messages from the other participant
+ * arrived after it.
+ */
+export const getReadWatermark = (conversation: ReadWatermarks, userId: string) =>
+  conversation.userAId === userId
+    ? {
+        lastReadMessageId: conversation.userALastReadMessageId,
+        lastReadAt: conversation.userALastReadAt,
+        unreadCount: conversation.userAUnreadCount,
+      }
+    : {
+        lastReadMessageId: conversation.userBLastReadMessageId,
+        lastReadAt: conversation.userBLastReadAt,
+        unreadCount: conversation.userBUnreadCount,
+      };
+
+// Counter update for a new message: it is unread for the recipient until their watermark passes it.
+export const incrementUnread = (conversation: { userAId: string }, recipientId: string) =>
+  conversation.userAId === recipientId
+    ? { userAUnreadCount: { increment: 1 } }
+    : { userBUnreadCount: { increment: 1 } };
+
+/**
+ * Move the reader's watermark up to a message (the other participant's latest when omitted) and
+ * mark everything the other participant sent until then as read. The watermark never moves
+ * backwards, so replays and stale devices are no-ops. The sender and the reader's other devices
+ * get messages.read. Only the watermark columns change; the inbox order stays put.
+ */
+export async function markConversationRead(
+  userId: string,
+  conversationId: string,
+  upToMessageId?: string | null
+) {
+  const result = await prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT id FROM "Conversation" WHERE id = ${conversationId} FOR UPDATE`;
+    const conversation = await tx.conversation.findUnique({ where: { id: conversationId } });
+    if (!conversation || (conversation.userAId !== userId && conversation.userBId !== userId)) {
+      throw new AppError('Conversation not found', 404);
+    }
+    if (conversation.status !== 'ACTIVE') {
+      throw new AppError('Read receipts start once the message request is accepted', 409);
+    }
+
+    const senderId = conversation.userAId === userId ? conversation.userBId : conversation.userAId;
+    const target = upToMessageId
+      ? await tx.directMessage.findFirst({
+          where: { id: upToMessageId, conversationId },
+          select: { id: true, createdAt: true, senderId: true },
+        })
+      : await tx.directMessage.findFirst({
+          where: { conversationId, senderId },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          select: { id: true, createdAt: true, senderId: true },
+        });
+    if (upToMessageId && !target) {
+      throw new AppError('Message not found', 404);
+    }
+
+    const current = getReadWatermark(conversation, userId);
+    if (!target || (current.lastReadAt && target.createdAt <= current.lastReadAt)) {
+      return { senderId, watermark: current, readAt: null, count: 0 };
+    }
+
+    const readAt = new Date();
+    const marked = await tx.directMessage.updateMany({
+      where: { conversationId, senderId, readAt: null, createdAt: { lte: target.createdAt } },
+      data: { readAt },
+    });
+    await tx.directMessage.updateMany({
+      where: { conversationId, senderId, deliveredAt: null, createdAt: { lte: target.createdAt } },
+      data: { deliveredAt: readAt },
+    });
+    const unreadCount = await tx.directMessage.count({
+      where: { conversationId, senderId, createdAt: { gt: target.createdAt } },
+    });
+
+    // The watermark is the latest message the reader has seen, theirs or the other side's.
+    const watermark = { lastReadMessageId: target.id, lastReadAt: target.createdAt, unreadCount };
+    await tx.conversation.update({
+      where: { id: conversationId },
+      data:
+        conversation.userAId === userId
+          ? {
+              userALastReadMessageId: watermark.lastReadMessageId,
+              userALastReadAt: watermark.lastReadAt,
+              userAUnreadCount: unreadCount,
+            }
+          : {
+              userBLastReadMessageId: watermark.lastReadMessageId,
+              userBLastReadAt: watermark.lastReadAt,
+              userBUnreadCount: unreadCount,
+            },
+    });
+    return { senderId, watermark, readAt, count: marked.count };
+  });
+
+  if (result.readAt && result.watermark.lastReadMessageId) {
+    const payload = {
+      conversationId,
+      readerId: userId,
+      upToMessageId: result.watermark.lastReadMessageId,
+      readAt: result.readAt.toISOString(),
+      count: result.count,
+    };
+    publishUserEvent(result.senderId, 'messages.read', payload);
+    publishUserEvent(userId, 'messages.read', payload);
+  }
+
+  return {
+    conversationId,
+    lastReadMessageId: result.watermark.lastReadMessageId,
+    lastReadAt: result.watermark.lastReadAt,
+    unreadCount: result.watermark.unreadCount,
+    marked: result.count,
+  };
+}
+
+/**
+ * Mark messages waiting for the user in these accepted conversations as delivered, and tell each
+ * sender. Called when the user's client loads their conversations.
+ */
+export async function markConversationsDelivered(
+  userId: string,
+  conversations: ConversationSides[]
+) {
+  const active = conversations.filter((conversation) => conversation.status === 'ACTIVE');
+  if (!active.length) {
+    return;
+  }
+
+  const deliveredAt = new Date();
+  const where = {
+    conversationId: { in: active.map((conversation) => conversation.id) },
+    senderId: { not: userId },
+    deliveredAt: null,
+    createdAt: { lte: deliveredAt },
+  };
+  const pending = await prisma.directMessage.groupBy({
+    by: ['conversationId'],
+    where,
+    _count: { _all: true },
+  });
+  if (!pending.length) {
+    return;
+  }
+  await prisma.directMessage.updateMany({ where, data: { deliveredAt } });
+
+  const byId = new Map(active.map((conversation) => [conversation.id, conversation]));
+  for (const row of pending) {
+    const conversation = byId.get(row.conversationId);
+    if (!conversation) continue;
+    const senderId = conversation.userAId === userId ? conversation.userBId : conversation.userAId;
+    publishUserEvent(senderId, 'messages.delivered', {
+      conversationId: row.conversationId,
+      recipientId: userId,
+      deliveredAt: deliveredAt.toISOString(),
+      count: row._count._all,
+    });
+  }
+}
@@ -4,6 +4,21 @@ import { prisma } from '../index';
 import { AppError } from '../utils/errorHandler';
 import { logger } from '../utils/logger';
 import { createNotification, emitToUser } from '../notification/service';
+import { getPresenceForViewer, isUserOnline } from './presence';
+import {
+  getMessageDeliveryState,
+  getReadWatermark,
+  incrementUnread,
+  markConversationRead,
+  markConversationsDelivered,
+} from './receipts';
+import {
+  buildCursorPage,
+  buildTimeCursorWhere,
+  decodeTimeCursor,
+  encodeTimeCursor,
+  parseCursorParams,
+} from '../utils/cursor';
 
 const router = Router();
 
@@ -42,7 +57,16 @@ const getOtherParticipant = <
   userId: string
 ) => (conversation.userAId === userId ? conversation.userB : conversation.userA);
 
-const normalizeConversation = async (
+const LATEST_MESSAGE_SELECT = {
+  id: true,
+  body: true,
+  createdAt: true,
+  senderId: true,
+  deliveredAt: true,
+  readAt: true,
+} as const;
+
+const normalizeConversation = (
   conversation: {
     id: string;
     userAId: string;
@@ -51,24 +75,33 @@ const normalizeConversation = async (
     status: ConversationStatus;
     approvedAt: Date | null;
     rejectedAt: Date | null;
-    lastMessageAt: Date | null;
+    lastMessageAt: Date;
     lastMessagePreview: string | null;
+    userALastReadMessageId: string | null;
+    userALastReadAt: Date | null;
+    userAUnreadCount: number;
+    userBLastReadMessageId: string | null;
+    userBLastReadAt: Date | null;
+    userBUnreadCount: number;
     createdAt: Date;
     userA?: any;
     userB?: any;
-    messages?: Array<{ id: string; body: string; createdAt: Date; senderId: string; readAt: Date | null }>;
+    messages?: Array<{
+      id: string;
+      body: string;
+      createdAt: Date;
+      senderId: string;
+      deliveredAt: Date | null;
+      readAt: Date | null;
+    }>;
   },
   userId: string
 ) => {
   const otherUser = getOtherParticipant(conversation, userId);
   const latestMessage = conversation.messages?.[0] || null;
-  const unreadCount = await prisma.directMessage.count({
-    where: {
-      conversationId: conversation.id,
-      senderId: { not: userId },
-      readAt: null,
-    },
-  });
+  // Unread counts are kept on the conversation and reset from the read watermark.
+  const { unreadCount } = getReadWatermark(conversation, userId);
+  const otherId = conversation.userAId === userId ? conversation.userBId : conversation.userAId;
 
   return {
     id: conversation.id,
@@ -89,9 +122,14 @@ const normalizeConversation = async (
     senderName: otherUser?.displayName || otherUser?.username || 'User',
     preview: latestMessage?.body || conversation.lastMessagePreview || '',
     lastSenderId: latestMessage?.senderId || null,
+    lastMessageState:
+      latestMessage && latestMessage.senderId === userId
+        ? getMessageDeliveryState(latestMessage)
+        : null,
+    participantLastReadMessageId: getReadWatermark(conversation, otherId).lastReadMessageId,
     unread: unreadCount > 0,
     unreadCount,
-    createdAt: conversation.lastMessageAt || conversation.createdAt,
+    createdAt: conversation.lastMessageAt,
     approvedAt: conversation.approvedAt,
     rejectedAt: conversation.rejectedAt,
   };
@@ -139,16 +177,17 @@ const notifyDirectMessage = async (
 router.get('/unread-count', async (req: Request, res: Response) => {
   try {
     const userId = requireUserId(req);
-    const count = await prisma.directMessage.count({
-      where: {
-        readAt: null,
-        senderId: { not: userId },
-        conversation: {
-          status: 'ACTIVE',
-          OR: [{ userAId: userId }, { userBId: userId }],
-        },
-      },
-    });
+    const [asUserA, asUserB] = await Promise.all([
+      prisma.conversation.aggregate({
+        where: { status: 'ACTIVE', userAId: userId },
+        _sum: { userAUnreadCount: true },
+      }),
+      prisma.conversation.aggregate({
+        where: { status: 'ACTIVE', userBId: userId },
+        _sum: { userBUnreadCount: true },
+      }),
+    ]);
+    const count = (asUserA._sum.userAUnreadCount ?? 0) + (asUserB._sum.userBUnreadCount ?? 0);
     res.json({ success: true, unreadCount: count });
   } catch (error) {
     logger.error('Get message unread count error', { error });
@@ -159,6 +198,31 @@ router.get('/unread-count', async (req: Request, res: Response) => {
   }
 });
 
+router.get('/presence', async (req: Request, res: Response) => {
+  try {
+    const userId = requireUserId(req);
+    const userIds = String(req.query.userIds || '')
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean);
+    if (!userIds.length) {
+      throw new AppError('userIds is required', 400);
+    }
+    if (userIds.length > 100) {
+      throw new AppError('At most 100 userIds can be requested', 400);
+    }
+    const presence = await getPresenceForViewer(userId, userIds);
+    res.json({ success: true, presence });
+  } catch (error) {
+    logger.error('Get message presence error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to load presence' });
+  }
+});
+
 router.get('/with/:userId', async (req: Request, res: Response) => {
   try {
     const viewerId = requireUserId(req);
@@ -177,14 +241,14 @@ router.get('/with/:userId', async (req: Request, res: Response) => {
         messages: {
           orderBy: { createdAt: 'desc' },
           take: 1,
-          select: { id: true, body: true, createdAt: true, senderId: true, readAt: true },
+          select: LATEST_MESSAGE_SELECT,
         },
       },
     });
 
     res.json({
       success: true,
-      conversation: conversation ? await normalizeConversation(conversation, viewerId) : null,
+      conversation: conversation ? normalizeConversation(conversation, viewerId) : null,
     });
   } catch (error) {
     logger.error('Get conversation by user error', { error });
@@ -198,11 +262,16 @@ router.get('/with/:userId', async (req: Request, res: Response) => {
 router.get('/', async (req: Request, res: Response) => {
   try {
     const userId = requireUserId(req);
-    const limit = Math.min(Math.max(Number(req.query.limit || 50), 1), 100);
+    const { limit, cursor } = parseCursorParams(req.query, { defaultLimit: 50, maxLimit: 100 });
 
-    const conversations = await prisma.conversation.findMany({
+    // Ordered by the latest message only, so reads, receipts and request decisions neither
+    // reorder the inbox nor shift rows between pages.
+    const rows = await prisma.conversation.findMany({
       where: {
-        OR: [{ userAId: userId }, { userBId: userId }],
+        AND: [
+          { OR: [{ userAId: userId }, { userBId: userId }] },
+          buildTimeCursorWhere(decodeTimeCursor(cursor), { field: 'lastMessageAt' }),
+        ],
       },
       include: {
         userA: { select: { id: true, displayName: true, username: true, avatarUrl: true } },
@@ -210,15 +279,19 @@ router.get('/', async (req: Request, res: Response) => {
         messages: {
           orderBy: { createdAt: 'desc' },
           take: 1,
-          select: { id: true, body: true, createdAt: true, senderId: true, readAt: true },
+          select: LATEST_MESSAGE_SELECT,
         },
       },
-      orderBy: [{ lastMessageAt: 'desc' }, { updatedAt: 'desc' }],
-      take: limit,
+      orderBy: [{ lastMessageAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
     });
+    const { items: conversations, pagination } = buildCursorPage(rows, limit, (conversation) =>
+      encodeTimeCursor({ createdAt: conversation.lastMessageAt, id: conversation.id })
+    );
 
-    const normalized = await Promise.all(
-      conversations.map((conversation) => normalizeConversation(conversation, userId))
+    await markConversationsDelivered(userId, conversations);
+    const normalized = conversations.map((conversation) =>
+      normalizeConversation(conversation, userId)
     );
 
     const unreadCount = normalized.reduce((sum, item) => sum + item.unreadCount, 0);
@@ -227,13 +300,15 @@ router.get('/', async (req: Request, res: Response) => {
       success: true,
       messages: normalized,
       unreadCount,
+      pagination,
     });
   } catch (error) {
     logger.error('List messages error', { error });
     if (error instanceof AppError) {
-      throw error;
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
     }
-    throw new AppError('Failed to load messages', 500);
+    res.status(500).json({ success: false, message: 'Failed to load messages' });
   }
 });
 
@@ -241,6 +316,18 @@ router.get('/conversations/:id', async (req: Request, res: Response) => {
   try {
     const userId = requireUserId(req);
     const conversationId = String(req.params.id || '');
+    const access = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: { userAId: true, userBId: true, status: true },
+    });
+    if (!access || !isParticipant(access, userId)) {
+      throw new AppError('Conversation not found', 404);
+    }
+    // Opening an accepted conversation reads it up to the latest message.
+    if (access.status === 'ACTIVE') {
+      await markConversationRead(userId, conversationId);
+    }
+
     const conversation = await prisma.conversation.findUnique({
       where: { id: conversationId },
       include: {
@@ -252,6 +339,7 @@ router.get('/conversations/:id', async (req: Request, res: Response) => {
             id: true,
             body: true,
             createdAt: true,
+            deliveredAt: true,
             readAt: true,
             senderId: true,
             sender: {
@@ -271,20 +359,8 @@ router.get('/conversations/:id', async (req: Request, res: Response) => {
       throw new AppError('Conversation not found', 404);
     }
 
-    if (conversation.status === 'ACTIVE') {
-      const unreadIds = conversation.messages
-        .filter((message) => message.senderId !== userId && !message.readAt)
-        .map((message) => message.id);
-      if (unreadIds.length) {
-        await prisma.directMessage.updateMany({
-          where: { id: { in: unreadIds } },
-          data: { readAt: new Date() },
-        });
-        emitToUser(userId, 'messages.read', { conversationId, count: unreadIds.length });
-      }
-    }
-
     const otherUser = getOtherParticipant(conversation, userId);
+    const otherId = conversation.userAId === userId ? conversation.userBId : conversation.userAId;
 
     res.json({
       success: true,
@@ -303,11 +379,15 @@ router.get('/conversations/:id', async (req: Request, res: Response) => {
               avatarUrl: otherUser.avatarUrl,
             }
           : null,
+        unreadCount: getReadWatermark(conversation, userId).unreadCount,
+        participantLastReadMessageId: getReadWatermark(conversation, otherId).lastReadMessageId,
         messages: conversation.messages.map((message) => ({
           id: message.id,
           body: message.body,
           createdAt: message.createdAt,
+          deliveredAt: message.deliveredAt,
           readAt: message.readAt,
+          state: message.senderId === userId ? getMessageDeliveryState(message) : null,
           senderId: message.senderId,
           sender: message.sender,
           mine: message.senderId === userId,
@@ -362,6 +442,8 @@ router.post('/start', async (req: Request, res: Response) => {
     let conversationId = existing?.id || '';
     let createdMessageId = '';
     let finalStatus = existing?.status || ConversationStatus.PENDING;
+    // Messages in accepted conversations count as delivered when the recipient is connected.
+    const recipientOnline = existing ? await isUserOnline(recipientId) : false;
 
     await prisma.$transaction(async (tx) => {
       const now = new Date();
@@ -373,6 +455,7 @@ router.post('/start', async (req: Request, res: Response) => {
             status: 'PENDING',
             lastMessageAt: now,
             lastMessagePreview: previewText(body),
+            ...(pair.userAId === recipientId ? { userAUnreadCount: 1 } : { userBUnreadCount: 1 }),
             messages: {
               create: {
                 senderId: userId,
@@ -407,6 +490,7 @@ router.post('/start', async (req: Request, res: Response) => {
             rejectedAt: null,
             lastMessageAt: now,
             lastMessagePreview: previewText(body),
+            ...incrementUnread(existing, recipientId),
           },
         });
         finalStatus = 'ACTIVE';
@@ -416,6 +500,7 @@ router.post('/start', async (req: Request, res: Response) => {
           data: {
             lastMessageAt: now,
             lastMessagePreview: previewText(body),
+            ...incrementUnread(existing, recipientId),
           },
         });
       }
@@ -425,6 +510,7 @@ router.post('/start', async (req: Request, res: Response) => {
           conversationId: existing.id,
           senderId: userId,
           body,
+          deliveredAt: recipientOnline ? now : null,
         },
         select: { id: true },
       });
@@ -481,12 +567,16 @@ router.post('/conversations/:id/send', async (req: Request, res: Response) => {
       throw new AppError('This conversation is waiting for approval', 409);
     }
 
+    const recipientId = conversation.userAId === userId ? conversation.userBId : conversation.userAId;
+    const recipientOnline = await isUserOnline(recipientId);
     const message = await prisma.$transaction(async (tx) => {
+      const now = new Date();
       await tx.conversation.update({
         where: { id: conversationId },
         data: {
-          lastMessageAt: new Date(),
+          lastMessageAt: now,
           lastMessagePreview: previewText(body),
+          ...incrementUnread(conversation, recipientId),
         },
       });
       return tx.directMessage.create({
@@ -494,17 +584,19 @@ router.post('/conversations/:id/send', async (req: Request, res: Response) => {
           conversationId,
           senderId: userId,
           body,
+          deliveredAt: recipientOnline ? now : null,
         },
         select: {
           id: true,
           body: true,
           createdAt: true,
           senderId: true,
+          deliveredAt: true,
+          readAt: true,
         },
       });
     });
 
-    const recipientId = conversation.userAId === userId ? conversation.userBId : conversation.userAId;
     const sender = conversation.userAId === userId ? conversation.userA : conversation.userB;
     await notifyDirectMessage(recipientId, sender, conversationId, message.id, body);
 
@@ -512,6 +604,7 @@ router.post('/conversations/:id/send', async (req: Request, res: Response) => {
       success: true,
       message: {
         ...message,
+        state: getMessageDeliveryState(message),
         mine: true,
       },
     });
@@ -524,6 +617,27 @@ router.post('/conversations/:id/send', async (req: Request, res: Response) => {
   }
 });
 
+router.post('/conversations/:id/read', async (req: Request, res: Response) => {
+  try {
+    const userId = requireUserId(req);
+    const conversationId = String(req.params.id || '');
+    const upToMessageId = req.body?.upToMessageId ?? null;
+    if (upToMessageId !== null && typeof upToMessageId !== 'string') {
+      throw new AppError('upToMessageId must be a message ID', 400);
+    }
+
+    const receipt = await markConversationRead(userId, conversationId, upToMessageId || null);
+    res.json({ success: true, ...receipt });
+  } catch (error) {
+    logger.error('Mark conversation read error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to mark conversation read' });
+  }
+});
+
 router.post('/conversations/:id/accept', async (req: Request, res: Response) => {
   try {
     const userId = requireUserId(req);
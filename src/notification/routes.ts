@@ -6,6 +6,7 @@ import {
 } from './service';
 import { registerPushToken, unregisterPushToken } from './pushService';
 import { AppError } from '../utils/errorHandler';
+import { parseCursorParams } from '../utils/cursor';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -13,6 +14,7 @@ const router = Router();
 /**
  * GET /api/notifications
  * List current user's notifications.
+ * Query params: unreadOnly, limit, cursor
  */
 router.get('/', async (req: Request, res: Response) => {
   try {
@@ -22,12 +24,17 @@ router.get('/', async (req: Request, res: Response) => {
     }
 
     const unreadOnly = req.query.unreadOnly === '1' || req.query.unreadOnly === 'true';
-    const limit = Number(req.query.limit || 100);
-    const items = await listNotifications(userId, unreadOnly, limit);
+    const { limit, cursor } = parseCursorParams(req.query, { defaultLimit: 100, maxLimit: 200 });
+    const { notifications, pagination } = await listNotifications(userId, {
+      unreadOnly,
+      limit,
+      cursor,
+    });
 
     return res.json({
       success: true,
-      notifications: items,
+      notifications,
+      pagination,
     });
   } catch (error) {
     logger.error('List notifications error', { error });
@@ -1,10 +1,14 @@
 import { NotificationType, Prisma } from '@prisma/client';
 import { prisma } from '../index';
 import { logger } from '../utils/logger';
-import { getIO } from '../websocket/socket';
+import { publishUserEvent } from '../websocket/events';
 import { sendPushToUser } from './pushService';
-
-export const buildUserRoom = (userId: string) => `user:${userId}`;
+import {
+  buildCursorPage,
+  buildTimeCursorWhere,
+  decodeTimeCursor,
+  encodeTimeCursor,
+} from '../utils/cursor';
 
 type CreateNotificationInput = {
   userId: string;
@@ -176,13 +180,7 @@ export async function createNotification(input: CreateNotificationInput) {
   }
 }
 
-export function emitToUser(userId: string, event: string, payload: unknown) {
-  try {
-    getIO().to(buildUserRoom(userId)).emit(event, payload);
-  } catch (error) {
-    logger.warn('WebSocket emit skipped (socket not ready)', { userId, event, error });
-  }
-}
+export const emitToUser = publishUserEvent;
 
 export function emitNotificationCreated(notification: {
   id: string;
@@ -207,17 +205,26 @@ export function emitNotificationCreated(notification: {
   });
 }
 
-export async function listNotifications(userId: string, unreadOnly = false, limit = 100) {
+export async function listNotifications(
+  userId: string,
+  options: { unreadOnly?: boolean; limit?: number; cursor?: string | null } = {}
+) {
+  const limit = Math.min(Math.max(options.limit || 100, 1), 200);
   const items = await prisma.notification.findMany({
     where: {
       userId,
       type: { not: 'DAILY_ROL' },
-      ...(unreadOnly ? { readAt: null } : {}),
+      ...(options.unreadOnly ? { readAt: null } : {}),
+      ...buildTimeCursorWhere(decodeTimeCursor(options.cursor)),
     },
-    orderBy: { createdAt: 'desc' },
-    take: Math.min(Math.max(limit, 1), 200),
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
   });
-  return items.map((item) => normalizeNotificationForClient(item as NotificationRecord));
+  const page = buildCursorPage(items, limit, encodeTimeCursor);
+  return {
+    notifications: page.items.map((item) => normalizeNotificationForClient(item as NotificationRecord)),
+    pagination: page.pagination,
+  };
 }
 
 export async function markNotificationRead(userId: string, notificationId: string) {
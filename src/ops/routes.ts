@@ -6,6 +6,13 @@ import { AppError } from '../utils/errorHandler';
 import { syncMovementBalance, syncSolanaBalance } from '../wallet/balanceIndexer';
 import { createNotification } from '../notification/service';
 import { getRolleyServiceBaseUrl } from '../points/service';
+import { purgeArchivedPosts } from '../post/service';
+import { runPostExpirationSweep } from '../queue/postExpiration';
+import { runPcaClosing } from '../pca/results';
+import {
+  broadcastApprovedRolWithdrawals,
+  reconcileRolWithdrawals,
+} from '../wallet/rolWithdrawals';
 import { Connection, PublicKey } from '@solana/web3.js';
 
 const router = Router();
@@ -18,6 +25,8 @@ const OPS_WALLET_INDEXING_INCLUDE_TX = process.env.OPS_WALLET_INDEXING_INCLUDE_T
 const OPS_WALLET_INDEXING_INCLUDE_ROLLEY =
   process.env.OPS_WALLET_INDEXING_INCLUDE_ROLLEY === '1';
 let lastWalletIndexingRunAt = 0;
+let archivedPostPurgeRunning = false;
+let rolWithdrawalRunRunning = false;
 
 const MOVEMENT_INDEXER_URL =
   process.env.MOVEMENT_INDEXER_URL || 'https://indexer.testnet.movementnetwork.xyz/v1/graphql';
@@ -804,4 +813,140 @@ router.post('/cron/wallet-indexing', async (req: Request, res: Response): Promis
   }
 });
 
+router.post('/cron/expire-posts', async (req: Request, res: Response): Promise<Response> => {
+  try {
+    assertCronAuthorized(req);
+
+    const limit = Number.parseInt(String(req.query.limit || ''), 10);
+    const summary = await runPostExpirationSweep({
+      limit: Number.isFinite(limit) ? Math.min(limit, 1000) : undefined,
+    });
+    if (!summary) {
+      return res.json({
+        success: true,
+        skipped: true,
+        reason: 'in_progress',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    return res.json({
+      success: true,
+      ...summary,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Ops cron post expiration sweep error', { error });
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    return res.status(500).json({ success: false, message: 'Failed to sweep expired posts' });
+  }
+});
+
+router.post('/cron/purge-archived-posts', async (req: Request, res: Response): Promise<Response> => {
+  try {
+    assertCronAuthorized(req);
+
+    if (archivedPostPurgeRunning) {
+      return res.json({
+        success: true,
+        skipped: true,
+        reason: 'in_progress',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    archivedPostPurgeRunning = true;
+    try {
+      const limit = Number.parseInt(String(req.query.limit || ''), 10);
+      const summary = await purgeArchivedPosts({
+        limit: Number.isFinite(limit) ? Math.min(limit, 1000) : undefined,
+      });
+      return res.json({
+        success: true,
+        ...summary,
+        timestamp: new Date().toISOString(),
+      });
+    } finally {
+      archivedPostPurgeRunning = false;
+    }
+  } catch (error) {
+    logger.error('Ops cron archived post purge error', { error });
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    return res.status(500).json({ success: false, message: 'Failed to purge archived posts' });
+  }
+});
+
+/**
+ * Reconcile in-flight ROL withdrawals against the chain, then broadcast newly approved ones.
+ * Query params: limit
+ */
+router.post('/cron/rol-withdrawals', async (req: Request, res: Response): Promise<Response> => {
+  try {
+    assertCronAuthorized(req);
+
+    if (rolWithdrawalRunRunning) {
+      return res.json({
+        success: true,
+        skipped: true,
+        reason: 'in_progress',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    rolWithdrawalRunRunning = true;
+    try {
+      const parsedLimit = Number.parseInt(String(req.query.limit || ''), 10);
+      const limit = Number.isFinite(parsedLimit) ? parsedLimit : undefined;
+      const reconcile = await reconcileRolWithdrawals({ limit });
+      const broadcast = await broadcastApprovedRolWithdrawals({ limit });
+      return res.json({
+        success: true,
+        reconcile,
+        broadcast,
+        timestamp: new Date().toISOString(),
+      });
+    } finally {
+      rolWithdrawalRunRunning = false;
+    }
+  } catch (error) {
+    logger.error('Ops cron ROL withdrawals error', { error });
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    return res.status(500).json({ success: false, message: 'Failed to process ROL withdrawals' });
+  }
+});
+
+/**
+ * POST /api/ops/cron/pca-close
+ * Close PCA categories past their endsAt and announce winners. The worker role also runs
+ * this on an interval; use the route when no worker is deployed.
+ */
+router.post('/cron/pca-close', async (req: Request, res: Response): Promise<Response> => {
+  try {
+    assertCronAuthorized(req);
+
+    const summary = await runPcaClosing();
+    if (!summary) {
+      return res.json({
+        success: true,
+        skipped: true,
+        reason: 'in_progress',
+        timestamp: new Date().toISOString(),
+      });
+    }
+    return res.json({ success: true, ...summary, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logger.error('Ops cron PCA close error', { error });
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    return res.status(500).json({ success: false, message: 'Failed to close PCA categories' });
+  }
+});
+
 export default router;
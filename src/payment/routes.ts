@@ -12,6 +12,14 @@ import {
 } from './flutterwave';
 import { createNotification } from '../notification/service';
 import { awardFirstRolleyStakePoints, getRolleyServiceBaseUrl } from '../points/service';
+import { creditVotePurchase } from './voteCredits';
+import {
+  buildCursorPage,
+  buildTimeCursorWhere,
+  decodeTimeCursor,
+  encodeTimeCursor,
+  parseCursorParams,
+} from '../utils/cursor';
 
 const router = Router();
 
@@ -736,17 +744,7 @@ const finalizeFlutterwaveVotePayment = async (opts: {
       },
     });
 
-    const bundleVotes = Number((latest.metadata as any)?.votes || 0);
-    if (bundleVotes > 0) {
-      await tx.user.update({
-        where: { id: latest.userId },
-        data: {
-          voteBalance: {
-            increment: bundleVotes,
-          },
-        },
-      });
-    }
+    await creditVotePurchase(tx, latest);
 
     return updatedPayment;
   });
@@ -996,6 +994,54 @@ router.get('/votes/bundles', (_req: Request, res: Response): Response => {
   });
 });
 
+/**
+ * GET /api/payments/votes/history
+ * Current user's vote credit ledger (purchases, spends, refunds, grants), newest first.
+ * Query params: limit, cursor
+ */
+router.get('/votes/history', async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const { limit, cursor } = parseCursorParams(req.query, { defaultLimit: 30, maxLimit: 100 });
+    const [user, rows] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { voteBalance: true } }),
+      prisma.voteCreditLedger.findMany({
+        where: {
+          userId,
+          ...buildTimeCursorWhere(decodeTimeCursor(cursor)),
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+      }),
+    ]);
+    const { items, pagination } = buildCursorPage(rows, limit, encodeTimeCursor);
+
+    return res.json({
+      success: true,
+      voteBalance: user?.voteBalance ?? 0,
+      history: items.map((entry) => ({
+        id: entry.id,
+        type: entry.type,
+        credits: entry.credits,
+        balanceAfter: entry.balanceAfter,
+        metadata: entry.metadata,
+        createdAt: entry.createdAt,
+      })),
+      pagination,
+    });
+  } catch (error) {
+    logger.error('Get vote credit history error', { error });
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    return res.status(500).json({ success: false, message: 'Failed to get vote credit history' });
+  }
+});
+
 router.get('/presale/packages', (_req: Request, res: Response): Response => {
   return res.json({
     success: true,
@@ -1935,17 +1981,7 @@ router.post('/movement/votes/verify', async (req: Request, res: Response): Promi
         },
       });
 
-      const bundleVotes = Number((payment.metadata as any)?.votes || 0);
-      if (bundleVotes > 0) {
-        await txDb.user.update({
-          where: { id: userId },
-          data: {
-            voteBalance: {
-              increment: bundleVotes,
-            },
-          },
-        });
-      }
+      await creditVotePurchase(txDb, payment);
 
       const wallet = await txDb.wallet.findFirst({
         where: {
@@ -2142,17 +2178,7 @@ router.post('/solana/votes/verify', async (req: Request, res: Response): Promise
         },
       });
 
-      const bundleVotes = Number((payment.metadata as any)?.votes || 0);
-      if (bundleVotes > 0) {
-        await tx.user.update({
-          where: { id: userId },
-          data: {
-            voteBalance: {
-              increment: bundleVotes,
-            },
-          },
-        });
-      }
+      await creditVotePurchase(tx, payment);
 
       const wallet = await tx.wallet.findFirst({
         where: {
@@ -0,0 +1,136 @@
+import { Prisma, PrismaClient, VoteCreditLedgerType } from '@prisma/client';
+import { AppError } from '../utils/errorHandler';
+
+type TxClient = Prisma.TransactionClient | PrismaClient;
+
+type VoteCreditChangeResult = {
+  applied: boolean;
+  reference: string;
+  credits: number;
+  balance: number | null;
+  reason?: 'ALREADY_APPLIED';
+};
+
+/**
+ * The only writer of User.voteBalance. Credits are signed (+ grant / - spend) and each change
+ * is recorded once per reference, so replaying a payment finalizer or refund is a no-op.
+ * Spends never take the balance below zero.
+ */
+export const applyVoteCreditChange = async (
+  tx: TxClient,
+  input: {
+    userId: string;
+    type: VoteCreditLedgerType;
+    credits: number;
+    reference: string;
+    metadata?: Prisma.InputJsonValue;
+  }
+): Promise<VoteCreditChangeResult> => {
+  if (!Number.isInteger(input.credits) || input.credits === 0) {
+    throw new AppError('Vote credit change must be a non-zero integer', 400);
+  }
+
+  const existing = await tx.voteCreditLedger.findUnique({
+    where: { reference: input.reference },
+    select: { id: true },
+  });
+  if (existing) {
+    return {
+      applied: false,
+      reference: input.reference,
+      credits: input.credits,
+      balance: null,
+      reason: 'ALREADY_APPLIED',
+    };
+  }
+
+  if (input.credits < 0) {
+    const debited = await tx.user.updateMany({
+      where: { id: input.userId, voteBalance: { gte: -input.credits } },
+      data: { voteBalance: { increment: input.credits } },
+    });
+    if (debited.count === 0) {
+      throw new AppError('Insufficient vote credits. Please buy more votes.', 402);
+    }
+  } else {
+    await tx.user.update({
+      where: { id: input.userId },
+      data: { voteBalance: { increment: input.credits } },
+    });
+  }
+
+  const user = await tx.user.findUnique({
+    where: { id: input.userId },
+    select: { voteBalance: true },
+  });
+  const balance = user?.voteBalance ?? 0;
+
+  // A concurrent duplicate fails here on the unique reference and rolls back its balance change.
+  await tx.voteCreditLedger.create({
+    data: {
+      userId: input.userId,
+      type: input.type,
+      credits: input.credits,
+      balanceAfter: balance,
+      reference: input.reference,
+      metadata: input.metadata,
+    },
+  });
+
+  return {
+    applied: true,
+    reference: input.reference,
+    credits: input.credits,
+    balance,
+  };
+};
+
+const getPaymentMetadata = (metadata: Prisma.JsonValue | null | undefined): Prisma.JsonObject =>
+  metadata && typeof metadata === 'object' && !Array.isArray(metadata) ? metadata : {};
+
+/**
+ * Credit a completed vote bundle purchase. Keyed on the payment so every chain's
+ * finalizer can call it without double-crediting.
+ */
+export const creditVotePurchase = async (
+  tx: TxClient,
+  payment: { id: string; userId: string; metadata?: Prisma.JsonValue | null }
+) => {
+  const metadata = getPaymentMetadata(payment.metadata);
+  const bundleVotes = Number(metadata.votes || 0);
+  if (!Number.isInteger(bundleVotes) || bundleVotes <= 0) {
+    return null;
+  }
+
+  return applyVoteCreditChange(tx, {
+    userId: payment.userId,
+    type: 'PURCHASE',
+    credits: bundleVotes,
+    reference: `vote_purchase:${payment.id}`,
+    metadata: {
+      paymentId: payment.id,
+      bundleId: typeof metadata.bundleId === 'string' ? metadata.bundleId : null,
+    },
+  });
+};
+
+/**
+ * Compare a user's stored balance with the sum of their ledger entries.
+ */
+export const getVoteCreditDrift = async (tx: TxClient, userId: string) => {
+  const [user, ledger] = await Promise.all([
+    tx.user.findUnique({ where: { id: userId }, select: { voteBalance: true } }),
+    tx.voteCreditLedger.aggregate({
+      where: { userId },
+      _sum: { credits: true },
+    }),
+  ]);
+  const balance = user?.voteBalance ?? 0;
+  const ledgerSum = ledger._sum.credits ?? 0;
+  return {
+    balance,
+    ledgerSum,
+    drift: balance - ledgerSum,
+    mismatch: balance !== ledgerSum,
+  };
+};
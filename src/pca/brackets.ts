@@ -0,0 +1,469 @@
+import { PcaRoundStage, Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandler';
+import { StandingRow, rankPcaStandings } from './standings';
+import { arePcaCountsVisible } from './liveResults';
+
+type TxClient = Prisma.TransactionClient | PrismaClient;
+
+const PCA_MAX_ROUNDS = 10;
+const PCA_ROUND_CLOSE_BATCH_SIZE = 20;
+
+type PcaRoundInput = {
+  stage: PcaRoundStage;
+  label: string;
+  advanceCount: number;
+  startsAt: Date;
+  endsAt: Date;
+};
+
+type PcaBracketInput = {
+  rounds: PcaRoundInput[];
+  // Nominee ids per group of the first round, best seed first; null to seed by listing order.
+  groups: string[][] | null;
+};
+
+type RoundStandingRow = StandingRow & { groupIndex: number };
+
+const parseStage = (value: unknown, index: number): PcaRoundStage => {
+  const normalized = String(value || '')
+    .trim()
+    .toUpperCase();
+  if (!Object.values(PcaRoundStage).includes(normalized as PcaRoundStage)) {
+    throw new AppError(
+      `rounds[${index}].stage must be one of ${Object.values(PcaRoundStage).join(', ')}`,
+      400
+    );
+  }
+  return normalized as PcaRoundStage;
+};
+
+const parseDate = (value: unknown, field: string) => {
+  const date = new Date(value as string);
+  if (!value || Number.isNaN(date.getTime())) {
+    throw new AppError(`${field} must be a valid date`, 400);
+  }
+  return date;
+};
+
+/**
+ * Validate an admin bracket definition. Stages run group, then knockout, then a single final;
+ * only the first round may be a group stage, and knockout pairs always send one nominee on.
+ */
+export const parsePcaBracketInput = (input: unknown): PcaBracketInput => {
+  const body = (input || {}) as Record<string, unknown>;
+  if (!Array.isArray(body.rounds)) {
+    throw new AppError('rounds must be a list', 400);
+  }
+  if (body.rounds.length > PCA_MAX_ROUNDS) {
+    throw new AppError(`A bracket can have at most ${PCA_MAX_ROUNDS} rounds`, 400);
+  }
+
+  const rounds = body.rounds.map((raw, index): PcaRoundInput => {
+    const round = (raw || {}) as Record<string, unknown>;
+    const stage = parseStage(round.stage, index);
+    const label =
+      typeof round.label === 'string' && round.label.trim()
+        ? round.label.trim()
+        : `Round ${index + 1}`;
+    const startsAt = parseDate(round.startsAt, `rounds[${index}].startsAt`);
+    const endsAt = parseDate(round.endsAt, `rounds[${index}].endsAt`);
+    if (endsAt <= startsAt) {
+      throw new AppError(`rounds[${index}] must end after it starts`, 400);
+    }
+
+    let advanceCount = 1;
+    if (stage === 'FINAL') {
+      advanceCount = 0;
+    } else if (stage === 'GROUP' && round.advanceCount !== undefined) {
+      advanceCount = Number(round.advanceCount);
+      if (!Number.isInteger(advanceCount) || advanceCount < 1) {
+        throw new AppError(`rounds[${index}].advanceCount must be a positive integer`, 400);
+      }
+    }
+    return { stage, label, advanceCount, startsAt, endsAt };
+  });
+
+  rounds.forEach((round, index) => {
+    if (round.stage === 'GROUP' && index > 0) {
+      throw new AppError('Only the first round can be a group stage', 400);
+    }
+    if ((round.stage === 'FINAL') !== (index === rounds.length - 1)) {
+      throw new AppError('A bracket ends with exactly one FINAL round', 400);
+    }
+    if (index > 0 && round.startsAt < rounds[index - 1].endsAt) {
+      throw new AppError(`rounds[${index}] starts before the previous round ends`, 400);
+    }
+  });
+
+  let groups: string[][] | null = null;
+  if (body.groups !== undefined && body.groups !== null) {
+    if (
+      !Array.isArray(body.groups) ||
+      !body.groups.every(
+        (group) =>
+          Array.isArray(group) && group.length > 0 && group.every((id) => typeof id === 'string')
+      )
+    ) {
+      throw new AppError('groups must be a list of non-empty nominee id lists', 400);
+    }
+    groups = body.groups as string[][];
+  }
+
+  return { rounds, groups };
+};
+
+// Pair seeds 1 v n, 2 v n-1, ...; with an odd count the middle seed gets a bye.
+const getKnockoutPair = (seedIndex: number, count: number) =>
+  Math.min(seedIndex, count - 1 - seedIndex);
+
+const getGroupLabel = (stage: PcaRoundStage, groupIndex: number) => {
+  if (stage === 'GROUP') return `Group ${String.fromCharCode(65 + (groupIndex % 26))}`;
+  if (stage === 'KNOCKOUT') return `Match ${groupIndex + 1}`;
+  return 'Final';
+};
+
+// Entries of a round, given nominee ids in seed order.
+const buildRoundEntries = (stage: PcaRoundStage, nomineeIds: string[]) =>
+  nomineeIds.map((nomineeId, index) => ({
+    nomineeId,
+    seed: index + 1,
+    groupIndex: stage === 'KNOCKOUT' ? getKnockoutPair(index, nomineeIds.length) : 0,
+  }));
+
+/**
+ * Replace a category's bracket, or remove it with an empty `rounds` list. Only allowed before
+ * anyone has voted; the category's schedule and roundLabel follow the rounds from then on.
+ */
+export async function setPcaBracket(categoryId: string, input: PcaBracketInput) {
+  await prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT id FROM "PcaCategory" WHERE id = ${categoryId} FOR UPDATE`;
+    const category = await tx.pcaCategory.findUnique({
+      where: { id: categoryId },
+      include: { nominees: { orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }] } },
+    });
+    if (!category) {
+      throw new AppError('PCA category not found', 404);
+    }
+    if (category.closedAt) {
+      throw new AppError('Voting in this PCA category has closed and its results are final', 409);
+    }
+    if ((await tx.pcaVote.count({ where: { categoryId } })) > 0) {
+      throw new AppError('The bracket cannot change once voting has started', 409);
+    }
+
+    await tx.pcaRound.deleteMany({ where: { categoryId } });
+    if (input.rounds.length === 0) {
+      return;
+    }
+
+    const firstRound = input.rounds[0];
+    const nomineeIds = new Set(category.nominees.map((nominee) => nominee.id));
+    let entries: Array<{ nomineeId: string; seed: number; groupIndex: number }>;
+    if (input.groups && firstRound.stage === 'GROUP') {
+      const seen = new Set<string>();
+      for (const id of input.groups.flat()) {
+        if (!nomineeIds.has(id)) {
+          throw new AppError(`Nominee ${id} is not in this category`, 400);
+        }
+        if (seen.has(id)) {
+          throw new AppError(`Nominee ${id} is in more than one group`, 400);
+        }
+        seen.add(id);
+      }
+      entries = input.groups.flatMap((group, groupIndex) =>
+        group.map((nomineeId, index) => ({ nomineeId, seed: index + 1, groupIndex }))
+      );
+    } else if (input.groups) {
+      throw new AppError('groups can only be set when the first round is a group stage', 400);
+    } else {
+      entries = buildRoundEntries(firstRound.stage, [...nomineeIds]);
+    }
+
+    // Walk the bracket forward to make sure every later round has a contest to hold.
+    let groupSizes = entries.reduce<number[]>((sizes, entry) => {
+      sizes[entry.groupIndex] = (sizes[entry.groupIndex] || 0) + 1;
+      return sizes;
+    }, []);
+    for (let index = 0; index < input.rounds.length; index += 1) {
+      const count = groupSizes.reduce((sum, size) => sum + size, 0);
+      if (count < 2) {
+        throw new AppError(
+          `${input.rounds[index].label} would have ${count} nominee${count === 1 ? '' : 's'}; every round needs at least 2`,
+          400
+        );
+      }
+      const next = input.rounds[index + 1];
+      if (!next) break;
+      const advancing = groupSizes.reduce(
+        (sum, size) => sum + Math.min(size, input.rounds[index].advanceCount),
+        0
+      );
+      groupSizes =
+        next.stage === 'KNOCKOUT'
+          ? Array.from({ length: Math.ceil(advancing / 2) }, (_, pair) =>
+              pair === Math.floor(advancing / 2) ? 1 : 2
+            )
+          : [advancing];
+    }
+
+    const roundIds: string[] = [];
+    for (const [order, round] of input.rounds.entries()) {
+      roundIds.push((await tx.pcaRound.create({ data: { categoryId, order, ...round } })).id);
+    }
+    await tx.pcaRoundEntry.createMany({
+      data: entries.map((entry) => ({ ...entry, roundId: roundIds[0] })),
+    });
+    await tx.pcaCategory.update({
+      where: { id: categoryId },
+      data: {
+        roundLabel: firstRound.label,
+        startsAt: firstRound.startsAt,
+        endsAt: input.rounds[input.rounds.length - 1].endsAt,
+      },
+    });
+  });
+
+  return getPcaBracket(categoryId, { allowEmpty: true });
+}
+
+/**
+ * The round entry a vote for `nomineeId` counts toward, or null when the category is not a
+ * bracket. Throws when no round is open or the nominee is out of the current round.
+ */
+export async function getVotingRoundEntry(
+  tx: TxClient,
+  categoryId: string,
+  nomineeId: string,
+  now = new Date()
+) {
+  const round = await tx.pcaRound.findFirst({
+    where: { categoryId, closedAt: null },
+    orderBy: { order: 'asc' },
+  });
+  if (!round) {
+    if ((await tx.pcaRound.count({ where: { categoryId } })) > 0) {
+      throw new AppError('Voting in this bracket has finished', 400);
+    }
+    return null;
+  }
+  if (round.startsAt > now) {
+    throw new AppError(`${round.label} opens for voting at ${round.startsAt.toISOString()}`, 400);
+  }
+  if (round.endsAt <= now) {
+    throw new AppError(`${round.label} has ended; the next round opens once it is tallied`, 400);
+  }
+
+  const entry = await tx.pcaRoundEntry.findUnique({
+    where: { roundId_nomineeId: { roundId: round.id, nomineeId } },
+  });
+  if (!entry) {
+    throw new AppError(`This nominee is not in ${round.label}`, 400);
+  }
+  return entry;
+}
+
+/**
+ * Close a round whose voting window has ended: rank each group, mark the top advanceCount as
+ * advanced and seed them into the next round. Locking the category waits for in-flight votes.
+ */
+export async function closePcaRound(roundId: string, now = new Date()) {
+  return prisma.$transaction(async (tx) => {
+    const round = await tx.pcaRound.findUnique({ where: { id: roundId } });
+    if (!round) {
+      return null;
+    }
+    await tx.$executeRaw`SELECT id FROM "PcaCategory" WHERE id = ${round.categoryId} FOR UPDATE`;
+    const claimed = await tx.pcaRound.updateMany({
+      where: { id: roundId, closedAt: null, endsAt: { lte: now } },
+      data: { closedAt: now },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    // Seeds stand in for listing order as the last tie-break within a round.
+    const rows = await tx.$queryRaw<RoundStandingRow[]>`
+      SELECT
+        n."id" AS "nomineeId",
+        n."name",
+        n."team",
+        n."imageUrl",
+        e."seed" AS "sortOrder",
+        n."createdAt",
+        e."voteCount",
+        e."groupIndex",
+        COUNT(DISTINCT v."userId") AS "voterCount",
+        MAX(v."createdAt") AS "lastVoteAt"
+      FROM "PcaRoundEntry" e
+      JOIN "PcaNominee" n ON n."id" = e."nomineeId"
+      LEFT JOIN "PcaVote" v ON v."roundId" = e."roundId" AND v."nomineeId" = e."nomineeId"
+      WHERE e."roundId" = ${roundId}
+      GROUP BY n."id", e."seed", e."voteCount", e."groupIndex"
+    `;
+
+    const groups = new Map<number, RoundStandingRow[]>();
+    for (const row of rows) {
+      groups.set(row.groupIndex, [...(groups.get(row.groupIndex) || []), row]);
+    }
+
+    const advanced: Array<{
+      nomineeId: string;
+      rank: number;
+      voteCount: number;
+      groupIndex: number;
+    }> = [];
+    for (const [groupIndex, groupRows] of groups) {
+      for (const standing of rankPcaStandings(groupRows)) {
+        const advances = standing.rank <= round.advanceCount;
+        await tx.pcaRoundEntry.update({
+          where: { roundId_nomineeId: { roundId, nomineeId: standing.nomineeId } },
+          data: { rank: standing.rank, advanced: advances },
+        });
+        if (advances) {
+          advanced.push({ ...standing, groupIndex });
+        }
+      }
+    }
+
+    const next = await tx.pcaRound.findUnique({
+      where: { categoryId_order: { categoryId: round.categoryId, order: round.order + 1 } },
+    });
+    if (next) {
+      // Group winners seed ahead of runners-up; more votes seed higher within a placing.
+      advanced.sort(
+        (left, right) =>
+          left.rank - right.rank ||
+          right.voteCount - left.voteCount ||
+          left.groupIndex - right.groupIndex
+      );
+      await tx.pcaRoundEntry.createMany({
+        data: buildRoundEntries(
+          next.stage,
+          advanced.map((entry) => entry.nomineeId)
+        ).map((entry) => ({
+          ...entry,
+          roundId: next.id,
+        })),
+      });
+      await tx.pcaCategory.update({
+        where: { id: round.categoryId },
+        data: { roundLabel: next.label },
+      });
+    }
+
+    return {
+      categoryId: round.categoryId,
+      advanced: next ? advanced.length : 0,
+      nextRoundId: next?.id ?? null,
+    };
+  });
+}
+
+/**
+ * Close every bracket round past its endsAt, earliest first so a round always closes before
+ * the one after it.
+ */
+export async function closeDuePcaRounds(now = new Date()) {
+  const summary = { closed: 0, failed: 0 };
+  const due = await prisma.pcaRound.findMany({
+    where: { closedAt: null, endsAt: { lte: now } },
+    select: { id: true },
+    orderBy: [{ endsAt: 'asc' }, { order: 'asc' }],
+    take: PCA_ROUND_CLOSE_BATCH_SIZE,
+  });
+  for (const round of due) {
+    try {
+      const closed = await closePcaRound(round.id, now);
+      if (closed) {
+        summary.closed += 1;
+        logger.info('PCA round closed', { roundId: round.id, ...closed });
+      }
+    } catch (error) {
+      summary.failed += 1;
+      logger.warn(`Failed to close PCA round ${round.id}`, { error });
+    }
+  }
+  return summary;
+}
+
+/**
+ * A category's bracket: every round with its groups, entries, votes and who advanced.
+ */
+export async function getPcaBracket(categoryId: string, options: { allowEmpty?: boolean } = {}) {
+  const category = await prisma.pcaCategory.findUnique({
+    where: { id: categoryId },
+    include: {
+      rounds: {
+        orderBy: { order: 'asc' },
+        include: {
+          entries: {
+            include: { nominee: { select: { name: true, team: true, imageUrl: true } } },
+            orderBy: [{ groupIndex: 'asc' }, { seed: 'asc' }],
+          },
+        },
+      },
+    },
+  });
+  if (!category) {
+    throw new AppError('PCA category not found', 404);
+  }
+  if (category.rounds.length === 0 && !options.allowEmpty) {
+    throw new AppError('This PCA category has no bracket', 404);
+  }
+
+  const now = new Date();
+  const currentRound = category.rounds.find((round) => !round.closedAt) || null;
+  // Hidden counts stay hidden for rounds still being voted on; closed rounds are public.
+  const countsVisible = arePcaCountsVisible(category);
+  const rounds = category.rounds.map((round) => {
+    const groups = new Map<number, typeof round.entries>();
+    for (const entry of round.entries) {
+      groups.set(entry.groupIndex, [...(groups.get(entry.groupIndex) || []), entry]);
+    }
+    return {
+      id: round.id,
+      order: round.order,
+      stage: round.stage,
+      label: round.label,
+      advanceCount: round.advanceCount,
+      startsAt: round.startsAt,
+      endsAt: round.endsAt,
+      closedAt: round.closedAt,
+      isOpen: round.id === currentRound?.id && round.startsAt <= now && round.endsAt > now,
+      groups: [...groups.entries()].map(([index, entries]) => ({
+        index,
+        label: getGroupLabel(round.stage, index),
+        entries: entries
+          .sort((left, right) => {
+            if (round.closedAt) return (left.rank ?? 0) - (right.rank ?? 0);
+            if (!countsVisible) return left.seed - right.seed;
+            return right.voteCount - left.voteCount || left.seed - right.seed;
+          })
+          .map((entry) => ({
+            nomineeId: entry.nomineeId,
+            name: entry.nominee.name,
+            team: entry.nominee.team,
+            imageUrl: entry.nominee.imageUrl,
+            seed: entry.seed,
+            votes: round.closedAt || countsVisible ? entry.voteCount : null,
+            rank: entry.rank,
+            advanced: entry.advanced,
+          })),
+      })),
+    };
+  });
+
+  return {
+    category: {
+      id: category.id,
+      title: category.title,
+      roundLabel: category.roundLabel,
+      closedAt: category.closedAt,
+      countsVisible,
+    },
+    currentRoundId: currentRound?.id ?? null,
+    rounds,
+  };
+}
@@ -0,0 +1,123 @@
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import { publishRealtimeEvent } from '../websocket/events';
+
+const PCA_LIVE_UPDATE_INTERVAL_MS = Math.max(
+  100,
+  Number.parseInt(process.env.PCA_LIVE_UPDATE_INTERVAL_MS || '1000', 10)
+);
+
+type PendingUpdate = { timer: NodeJS.Timeout; votesAdded: number };
+
+const pendingUpdates = new Map<string, PendingUpdate>();
+
+// Vote counts are shown live unless the category hides them until it closes.
+export const arePcaCountsVisible = (category: { hideLiveCounts: boolean; closedAt: Date | null }) =>
+  !category.hideLiveCounts || Boolean(category.closedAt);
+
+const toSharePct = (votes: number, total: number) =>
+  total > 0 ? Math.round((votes * 1000) / total) / 10 : 0;
+
+/**
+ * Current standings frame for a category room: the open bracket round's entries when there is
+ * one, otherwise the whole category. Null when the category no longer exists.
+ */
+export async function buildPcaStandingsFrame(categoryId: string) {
+  const category = await prisma.pcaCategory.findUnique({
+    where: { id: categoryId },
+    select: {
+      id: true,
+      hideLiveCounts: true,
+      closedAt: true,
+      nominees: { select: { id: true, name: true, voteCount: true } },
+      rounds: {
+        where: { closedAt: null },
+        orderBy: { order: 'asc' },
+        take: 1,
+        select: {
+          id: true,
+          label: true,
+          entries: { select: { nomineeId: true, groupIndex: true, voteCount: true } },
+        },
+      },
+    },
+  });
+  if (!category) {
+    return null;
+  }
+
+  const at = new Date().toISOString();
+  const round = category.rounds[0] || null;
+  if (!arePcaCountsVisible(category)) {
+    return { categoryId, roundId: round?.id ?? null, countsHidden: true, at };
+  }
+
+  const names = new Map(category.nominees.map((nominee) => [nominee.id, nominee.name]));
+  const rows = round
+    ? round.entries.map((entry) => ({
+        nomineeId: entry.nomineeId,
+        groupIndex: entry.groupIndex,
+        votes: entry.voteCount,
+      }))
+    : category.nominees.map((nominee) => ({
+        nomineeId: nominee.id,
+        groupIndex: 0,
+        votes: nominee.voteCount,
+      }));
+  const totalVotes = rows.reduce((sum, row) => sum + row.votes, 0);
+
+  return {
+    categoryId,
+    roundId: round?.id ?? null,
+    roundLabel: round?.label ?? null,
+    countsHidden: false,
+    totalVotes,
+    standings: rows
+      .sort((left, right) => right.votes - left.votes)
+      .map((row) => ({
+        nomineeId: row.nomineeId,
+        name: names.get(row.nomineeId) ?? null,
+        groupIndex: row.groupIndex,
+        votes: row.votes,
+        sharePct: toSharePct(row.votes, totalVotes),
+      })),
+    at,
+  };
+}
+
+async function flushPcaLiveUpdate(categoryId: string) {
+  const pending = pendingUpdates.get(categoryId);
+  pendingUpdates.delete(categoryId);
+
+  const frame = await buildPcaStandingsFrame(categoryId);
+  if (!frame) return;
+  const votesAdded = frame.countsHidden ? undefined : (pending?.votesAdded ?? 0);
+  publishRealtimeEvent('pca.standings', { ...frame, votesAdded });
+}
+
+/**
+ * Note a vote for the category's live room. Votes are batched so each room gets at most one
+ * aggregate standings frame per PCA_LIVE_UPDATE_INTERVAL_MS however busy voting is.
+ */
+export const queuePcaLiveUpdate = (categoryId: string, votesAdded: number) => {
+  const pending = pendingUpdates.get(categoryId);
+  if (pending) {
+    pending.votesAdded += votesAdded;
+    return;
+  }
+
+  const timer = setTimeout(() => {
+    void flushPcaLiveUpdate(categoryId).catch((error) => {
+      logger.warn('Failed to send PCA live standings', { categoryId, error });
+    });
+  }, PCA_LIVE_UPDATE_INTERVAL_MS);
+  timer.unref();
+  pendingUpdates.set(categoryId, { timer, votesAdded });
+};
+
+export function stopPcaLiveUpdates() {
+  for (const pending of pendingUpdates.values()) {
+    clearTimeout(pending.timer);
+  }
+  pendingUpdates.clear();
+}
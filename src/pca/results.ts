@@ -0,0 +1,295 @@
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandler';
+import { createNotification } from '../notification/service';
+import { publishRealtimeEvent } from '../websocket/events';
+import { PCA_TIE_BREAK_RULES, StandingRow, rankPcaStandings } from './standings';
+import { closeDuePcaRounds } from './brackets';
+
+const PCA_CLOSE_INTERVAL_MS = Math.max(
+  0,
+  Number.parseInt(process.env.PCA_CLOSE_INTERVAL_MS || '60000', 10)
+);
+const PCA_CLOSE_BATCH_SIZE = 20;
+const PCA_ANNOUNCE_BATCH_SIZE = 500;
+
+let closingTimer: NodeJS.Timeout | null = null;
+let closingRunning = false;
+
+/**
+ * Close a category whose voting window has ended and freeze its standings. Claiming the
+ * category row waits for in-flight votes, which hold a share lock on it, so the frozen
+ * standings include every vote that was accepted.
+ */
+export async function closePcaCategory(categoryId: string, now = new Date()) {
+  return prisma.$transaction(async (tx) => {
+    // A bracket is decided by its final round, which must close first.
+    const finalRound = await tx.pcaRound.findFirst({
+      where: { categoryId, stage: 'FINAL' },
+      select: { id: true, closedAt: true },
+    });
+    if (finalRound && !finalRound.closedAt) {
+      return null;
+    }
+
+    const claimed = await tx.pcaCategory.updateMany({
+      where: { id: categoryId, closedAt: null, endsAt: { lte: now } },
+      data: { closedAt: now },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const rows = finalRound
+      ? await tx.$queryRaw<StandingRow[]>`
+          SELECT
+            n."id" AS "nomineeId",
+            n."name",
+            n."team",
+            n."imageUrl",
+            n."sortOrder",
+            n."createdAt",
+            e."voteCount",
+            COUNT(DISTINCT v."userId") AS "voterCount",
+            MAX(v."createdAt") AS "lastVoteAt"
+          FROM "PcaRoundEntry" e
+          JOIN "PcaNominee" n ON n."id" = e."nomineeId"
+          LEFT JOIN "PcaVote" v ON v."roundId" = e."roundId" AND v."nomineeId" = e."nomineeId"
+          WHERE e."roundId" = ${finalRound.id}
+          GROUP BY n."id", e."voteCount"
+        `
+      : await tx.$queryRaw<StandingRow[]>`
+          SELECT
+            n."id" AS "nomineeId",
+            n."name",
+            n."team",
+            n."imageUrl",
+            n."sortOrder",
+            n."createdAt",
+            n."voteCount",
+            COUNT(DISTINCT v."userId") AS "voterCount",
+            MAX(v."createdAt") AS "lastVoteAt"
+          FROM "PcaNominee" n
+          LEFT JOIN "PcaVote" v ON v."nomineeId" = n."id"
+          WHERE n."categoryId" = ${categoryId}
+          GROUP BY n."id"
+        `;
+    const standings = rankPcaStandings(rows);
+    const totalVotes = standings.reduce((sum, row) => sum + row.voteCount, 0);
+
+    await tx.pcaResult.createMany({
+      data: standings.map((row) => ({ ...row, categoryId })),
+    });
+    await tx.pcaCategory.update({ where: { id: categoryId }, data: { totalVotes } });
+
+    return { totalVotes, winner: standings.find((row) => row.isWinner) || null };
+  });
+}
+
+/**
+ * Tell everyone who voted in a closed category who won. Notifications are keyed per voter, so
+ * a run that stops halfway is resumed by the next one without duplicates.
+ */
+export async function announcePcaResults(categoryId: string) {
+  const category = await prisma.pcaCategory.findUnique({
+    where: { id: categoryId },
+    select: { id: true, title: true, closedAt: true, resultsAnnouncedAt: true },
+  });
+  if (!category?.closedAt || category.resultsAnnouncedAt) {
+    return 0;
+  }
+
+  const winner = await prisma.pcaResult.findFirst({
+    where: { categoryId, isWinner: true },
+  });
+
+  let notified = 0;
+  if (winner) {
+    const share = (winner.voteShareBps / 100).toFixed(1);
+    let afterUserId = '';
+    for (;;) {
+      const voters = await prisma.$queryRaw<Array<{ userId: string; backedWinner: boolean }>>`
+        SELECT v."userId", BOOL_OR(v."nomineeId" = ${winner.nomineeId}) AS "backedWinner"
+        FROM "PcaVote" v
+        WHERE v."categoryId" = ${categoryId} AND v."userId" > ${afterUserId}
+        GROUP BY v."userId"
+        ORDER BY v."userId" ASC
+        LIMIT ${PCA_ANNOUNCE_BATCH_SIZE}
+      `;
+      for (const voter of voters) {
+        await createNotification({
+          userId: voter.userId,
+          type: 'SYSTEM',
+          title: `PCA winner: ${category.title}`,
+          body: `${winner.nomineeName} won ${category.title} with ${share}% of the vote.${
+            voter.backedWinner ? ' Your pick came out on top!' : ''
+          }`,
+          data: {
+            categoryId,
+            winnerNomineeId: winner.nomineeId,
+            voteShareBps: winner.voteShareBps,
+          },
+          reference: `pca_result:${categoryId}:${voter.userId}`,
+        });
+        notified += 1;
+      }
+      if (voters.length < PCA_ANNOUNCE_BATCH_SIZE) break;
+      afterUserId = voters[voters.length - 1].userId;
+    }
+  }
+
+  await prisma.pcaCategory.update({
+    where: { id: categoryId },
+    data: { resultsAnnouncedAt: new Date() },
+  });
+
+  publishRealtimeEvent('pca.closed', {
+    categoryId,
+    winnerNomineeId: winner?.nomineeId ?? null,
+    winnerName: winner?.nomineeName ?? null,
+    at: new Date().toISOString(),
+  });
+  return notified;
+}
+
+/**
+ * Close due bracket rounds, then every category past its endsAt, then announce any closed
+ * category not yet announced.
+ */
+export async function closeDuePcaCategories(now = new Date()) {
+  const rounds = await closeDuePcaRounds(now);
+  const summary = {
+    roundsClosed: rounds.closed,
+    closed: 0,
+    announced: 0,
+    notified: 0,
+    failed: rounds.failed,
+  };
+
+  const due = await prisma.pcaCategory.findMany({
+    where: { closedAt: null, endsAt: { lte: now } },
+    select: { id: true },
+    orderBy: [{ endsAt: 'asc' }],
+    take: PCA_CLOSE_BATCH_SIZE,
+  });
+  for (const category of due) {
+    try {
+      const closed = await closePcaCategory(category.id, now);
+      if (closed) {
+        summary.closed += 1;
+        logger.info('PCA category closed', {
+          categoryId: category.id,
+          totalVotes: closed.totalVotes,
+          winnerNomineeId: closed.winner?.nomineeId ?? null,
+        });
+      }
+    } catch (error) {
+      summary.failed += 1;
+      logger.warn(`Failed to close PCA category ${category.id}`, { error });
+    }
+  }
+
+  const unannounced = await prisma.pcaCategory.findMany({
+    where: { closedAt: { not: null }, resultsAnnouncedAt: null },
+    select: { id: true },
+    orderBy: [{ closedAt: 'asc' }],
+    take: PCA_CLOSE_BATCH_SIZE,
+  });
+  for (const category of unannounced) {
+    try {
+      summary.notified += await announcePcaResults(category.id);
+      summary.announced += 1;
+    } catch (error) {
+      summary.failed += 1;
+      logger.warn(`Failed to announce PCA results for ${category.id}`, { error });
+    }
+  }
+
+  if (summary.roundsClosed || summary.closed || summary.announced || summary.failed) {
+    logger.info('PCA closing run completed', summary);
+  }
+  return summary;
+}
+
+/**
+ * Single-flight wrapper shared by the interval and the ops cron route.
+ */
+export async function runPcaClosing() {
+  if (closingRunning) {
+    return null;
+  }
+  closingRunning = true;
+  try {
+    return await closeDuePcaCategories();
+  } finally {
+    closingRunning = false;
+  }
+}
+
+export function startPcaClosingScheduler() {
+  if (closingTimer || PCA_CLOSE_INTERVAL_MS <= 0) {
+    return;
+  }
+
+  closingTimer = setInterval(() => {
+    void runPcaClosing().catch((error) => {
+      logger.warn('PCA closing run failed', { error });
+    });
+  }, PCA_CLOSE_INTERVAL_MS);
+  closingTimer.unref();
+  logger.info('PCA closing scheduler started', { intervalMs: PCA_CLOSE_INTERVAL_MS });
+}
+
+export function stopPcaClosingScheduler() {
+  if (closingTimer) {
+    clearInterval(closingTimer);
+    closingTimer = null;
+  }
+}
+
+/**
+ * Published results for a closed category, in final rank order.
+ */
+export async function getPcaResults(categoryId: string) {
+  const category = await prisma.pcaCategory.findUnique({
+    where: { id: categoryId },
+    include: { results: { orderBy: { rank: 'asc' } } },
+  });
+  if (!category) {
+    throw new AppError('PCA category not found', 404);
+  }
+  if (!category.closedAt) {
+    throw new AppError('Results are published once voting closes', 409);
+  }
+
+  const standings = category.results.map((result) => ({
+    rank: result.rank,
+    nomineeId: result.nomineeId,
+    name: result.nomineeName,
+    team: result.nomineeTeam,
+    imageUrl: result.nomineeImageUrl,
+    votes: result.voteCount,
+    voters: result.voterCount,
+    voteShare: result.voteShareBps / 100,
+    isWinner: result.isWinner,
+    tieBreak: result.tieBreak,
+  }));
+
+  return {
+    category: {
+      id: category.id,
+      sport: category.sport,
+      season: category.season,
+      categoryType: category.categoryType,
+      title: category.title,
+      subtitle: category.subtitle,
+      roundLabel: category.roundLabel,
+      endsAt: category.endsAt,
+      closedAt: category.closedAt,
+      totalVotes: category.totalVotes ?? 0,
+    },
+    winner: standings.find((standing) => standing.isWinner) || null,
+    standings,
+    tieBreakRules: PCA_TIE_BREAK_RULES,
+  };
+}
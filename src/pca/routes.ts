@@ -4,8 +4,18 @@ import { prisma } from '../index';
 import { AppError } from '../utils/errorHandler';
 import { logger } from '../utils/logger';
 import { createNotification } from '../notification/service';
-import { PCA_VOTE_POINTS_RAW, awardPcaVotePoints } from '../points/service';
-import { getIO } from '../websocket/socket';
+import {
+  PCA_VOTE_POINTS_RAW,
+  awardPcaVotePoints,
+  getLocalDayStart,
+  getUserTimeZone,
+} from '../points/service';
+import { queueBadgeCheck } from '../points/badges';
+import { applyVoteCreditChange } from '../payment/voteCredits';
+import { getPcaResults } from './results';
+import { getPcaBracket, getVotingRoundEntry } from './brackets';
+import { arePcaCountsVisible, queuePcaLiveUpdate } from './liveResults';
+import { getPcaVoteAllowance, getWeightedVotes, resolvePcaVotingRules } from './votingRules';
 
 const router = Router();
 
@@ -17,8 +27,13 @@ const parseSport = (value?: string): PcaSport | undefined => {
   return undefined;
 };
 
-const isCategoryOpen = (category: { isActive: boolean; startsAt: Date | null; endsAt: Date | null }) => {
-  if (!category.isActive) return false;
+const isCategoryOpen = (category: {
+  isActive: boolean;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  closedAt: Date | null;
+}) => {
+  if (!category.isActive || category.closedAt) return false;
   const now = Date.now();
   if (category.startsAt && category.startsAt.getTime() > now) return false;
   if (category.endsAt && category.endsAt.getTime() < now) return false;
@@ -52,29 +67,71 @@ router.get('/categories', async (req: Request, res: Response): Promise<void> =>
     });
 
     let spentByCategory: Record<string, number> = {};
+    let spentTodayByCategory: Record<string, number> = {};
+    let freeVoteUsedToday = new Set<string>();
     if (userId && categories.length > 0) {
       const categoryIds = categories.map((c) => c.id);
-      const votes = await prisma.pcaVote.groupBy({
-        by: ['categoryId'],
-        where: {
-          userId,
-          categoryId: { in: categoryIds },
-        },
-        _sum: { votes: true },
-      });
+      const dayStart = getLocalDayStart(new Date(), await getUserTimeZone(prisma, userId));
+      const [votes, votesToday, freeVotesToday] = await Promise.all([
+        prisma.pcaVote.groupBy({
+          by: ['categoryId'],
+          where: {
+            userId,
+            categoryId: { in: categoryIds },
+          },
+          _sum: { votes: true },
+        }),
+        prisma.pcaVote.groupBy({
+          by: ['categoryId'],
+          where: { userId, categoryId: { in: categoryIds }, createdAt: { gte: dayStart } },
+          _sum: { votes: true },
+        }),
+        prisma.pcaVote.findMany({
+          where: {
+            userId,
+            categoryId: { in: categoryIds },
+            isFree: true,
+            createdAt: { gte: dayStart },
+          },
+          select: { categoryId: true },
+        }),
+      ]);
       spentByCategory = votes.reduce<Record<string, number>>((acc, row) => {
         acc[row.categoryId] = row._sum.votes ?? 0;
         return acc;
       }, {});
+      spentTodayByCategory = votesToday.reduce<Record<string, number>>((acc, row) => {
+        acc[row.categoryId] = row._sum.votes ?? 0;
+        return acc;
+      }, {});
+      freeVoteUsedToday = new Set(freeVotesToday.map((row) => row.categoryId));
     }
 
     res.json({
       success: true,
-      categories: categories.map((category) => ({
-        ...category,
-        isOpen: isCategoryOpen(category),
-        userVotesSpent: spentByCategory[category.id] ?? 0,
-      })),
+      categories: categories.map((category) => {
+        const votingRules = resolvePcaVotingRules(category);
+        const countsVisible = arePcaCountsVisible(category);
+        return {
+          ...category,
+          nominees: countsVisible
+            ? category.nominees
+            : category.nominees
+                .map((nominee) => ({ ...nominee, voteCount: null }))
+                .sort((left, right) => left.sortOrder - right.sortOrder),
+          countsVisible,
+          votingRules,
+          isOpen: isCategoryOpen(category),
+          userVotesSpent: spentByCategory[category.id] ?? 0,
+          allowance: userId
+            ? getPcaVoteAllowance(votingRules, {
+                castTotal: spentByCategory[category.id] ?? 0,
+                castToday: spentTodayByCategory[category.id] ?? 0,
+                freeVoteUsedToday: freeVoteUsedToday.has(category.id),
+              })
+            : null,
+        };
+      }),
     });
     return;
   } catch (error) {
@@ -90,7 +147,8 @@ router.get('/categories', async (req: Request, res: Response): Promise<void> =>
 
 /**
  * POST /api/pca/vote
- * Body: { categoryId: string, nomineeId: string, votes?: number }
+ * Body: { categoryId: string, nomineeId: string, votes?: number, free?: boolean }
+ * `free` spends the category's free daily vote instead of a credit, when the category offers one.
  */
 router.post('/vote', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -101,6 +159,7 @@ router.post('/vote', async (req: Request, res: Response): Promise<void> => {
 
     const { categoryId, nomineeId } = req.body || {};
     const votes = Number(req.body?.votes ?? 1);
+    const isFree = req.body?.free === true;
 
     if (!categoryId || typeof categoryId !== 'string') {
       throw new AppError('categoryId is required', 400);
@@ -111,8 +170,13 @@ router.post('/vote', async (req: Request, res: Response): Promise<void> => {
     if (!Number.isInteger(votes) || votes <= 0 || votes > 1000) {
       throw new AppError('votes must be an integer between 1 and 1000', 400);
     }
+    if (isFree && votes !== 1) {
+      throw new AppError('The free daily vote is a single vote', 400);
+    }
 
     const result = await prisma.$transaction(async (tx) => {
+      // Held until commit so the closing job cannot freeze standings under an in-flight vote.
+      await tx.$executeRaw`SELECT id FROM "PcaCategory" WHERE id = ${categoryId} FOR SHARE`;
       const category = await tx.pcaCategory.findUnique({ where: { id: categoryId } });
       if (!category) {
         throw new AppError('PCA category not found', 404);
@@ -125,7 +189,10 @@ router.post('/vote', async (req: Request, res: Response): Promise<void> => {
       if (!nominee || nominee.categoryId !== categoryId) {
         throw new AppError('Nominee not found for this category', 404);
       }
+      const roundEntry = await getVotingRoundEntry(tx, categoryId, nomineeId);
 
+      // Serialises this user's votes so concurrent requests cannot both fit under a cap.
+      await tx.$executeRaw`SELECT id FROM "User" WHERE id = ${userId} FOR UPDATE`;
       const user = await tx.user.findUnique({
         where: { id: userId },
         select: { id: true, voteBalance: true },
@@ -133,42 +200,102 @@ router.post('/vote', async (req: Request, res: Response): Promise<void> => {
       if (!user) {
         throw new AppError('User not found', 404);
       }
-      if (user.voteBalance < votes) {
+
+      const rules = resolvePcaVotingRules(category);
+      const dayStart = getLocalDayStart(new Date(), await getUserTimeZone(tx, userId));
+      const [castTotal, castToday, freeVoteUsedToday] = await Promise.all([
+        tx.pcaVote.aggregate({ where: { userId, categoryId }, _sum: { votes: true } }),
+        tx.pcaVote.aggregate({
+          where: { userId, categoryId, createdAt: { gte: dayStart } },
+          _sum: { votes: true },
+        }),
+        tx.pcaVote.count({ where: { userId, categoryId, isFree: true, createdAt: { gte: dayStart } } }),
+      ]);
+      const usage = {
+        castTotal: castTotal._sum.votes ?? 0,
+        castToday: castToday._sum.votes ?? 0,
+        freeVoteUsedToday: freeVoteUsedToday > 0,
+      };
+      const allowance = getPcaVoteAllowance(rules, usage);
+
+      if (allowance.remainingInCategory !== null && votes > allowance.remainingInCategory) {
+        throw new AppError(
+          allowance.remainingInCategory === 0
+            ? `You have used all ${rules.maxVotesPerUser} votes allowed in this category`
+            : `This category allows ${rules.maxVotesPerUser} votes per user; you have ${allowance.remainingInCategory} left`,
+          429
+        );
+      }
+      if (allowance.remainingToday !== null && votes > allowance.remainingToday) {
+        throw new AppError(
+          allowance.remainingToday === 0
+            ? `You have used all ${rules.dailyVoteCap} votes allowed in this category today`
+            : `This category allows ${rules.dailyVoteCap} votes per day; you have ${allowance.remainingToday} left today`,
+          429
+        );
+      }
+      if (isFree) {
+        if (!rules.freeDailyVote) {
+          throw new AppError('This category does not offer a free daily vote', 400);
+        }
+        if (usage.freeVoteUsedToday) {
+          throw new AppError('You have already used your free vote in this category today', 409);
+        }
+      } else if (user.voteBalance < votes) {
         throw new AppError('Insufficient vote credits. Please buy more votes.', 402);
       }
 
-      const updatedUser = await tx.user.update({
-        where: { id: user.id },
-        data: {
-          voteBalance: { decrement: votes },
-        },
-        select: { voteBalance: true },
-      });
-
+      const weightedVotes = getWeightedVotes(usage.castTotal, votes, rules);
       const updatedNominee = await tx.pcaNominee.update({
         where: { id: nominee.id },
-        data: { voteCount: { increment: votes } },
+        data: { voteCount: { increment: weightedVotes } },
         select: {
           id: true,
           voteCount: true,
           name: true,
         },
       });
+      if (roundEntry) {
+        await tx.pcaRoundEntry.update({
+          where: { id: roundEntry.id },
+          data: { voteCount: { increment: weightedVotes } },
+        });
+      }
 
       const voteRecord = await tx.pcaVote.create({
         data: {
           userId,
           categoryId,
           nomineeId,
+          roundId: roundEntry?.roundId ?? null,
           votes,
+          weightedVotes,
+          isFree,
         },
       });
 
+      let remainingVotes = user.voteBalance;
+      if (!isFree) {
+        const spend = await applyVoteCreditChange(tx, {
+          userId,
+          type: 'PCA_VOTE',
+          credits: -votes,
+          reference: `pca_vote:${voteRecord.id}`,
+          metadata: { categoryId, nomineeId },
+        });
+        remainingVotes = spend.balance ?? 0;
+      }
+
       return {
         category,
         nominee: updatedNominee,
         voteRecord,
-        remainingVotes: updatedUser.voteBalance,
+        remainingVotes,
+        allowance: getPcaVoteAllowance(rules, {
+          castTotal: usage.castTotal + votes,
+          castToday: usage.castToday + votes,
+          freeVoteUsedToday: usage.freeVoteUsedToday || isFree,
+        }),
       };
     });
 
@@ -182,12 +309,15 @@ router.post('/vote', async (req: Request, res: Response): Promise<void> => {
         now: new Date(),
       })
     );
+    queueBadgeCheck(userId, ['FIRST_PCA_VOTE']);
 
     await createNotification({
       userId,
       type: 'SYSTEM',
       title: 'PCA vote submitted',
-      body: `You cast ${votes} vote${votes === 1 ? '' : 's'} for ${result.nominee.name}.`,
+      body: `You cast ${isFree ? 'your free daily vote' : `${votes} vote${votes === 1 ? '' : 's'}`} for ${
+        result.nominee.name
+      }.`,
       data: {
         categoryId,
         nomineeId,
@@ -213,19 +343,17 @@ router.post('/vote', async (req: Request, res: Response): Promise<void> => {
       });
     }
 
-    getIO().emit('pca.vote_update', {
-      categoryId,
-      nomineeId,
-      nomineeVoteCount: result.nominee.voteCount,
-      votesAdded: votes,
-      at: new Date().toISOString(),
-    });
+    queuePcaLiveUpdate(categoryId, result.voteRecord.weightedVotes);
 
     res.json({
       success: true,
       vote: result.voteRecord,
       remainingVoteBalance: result.remainingVotes,
-      nominee: result.nominee,
+      nominee: arePcaCountsVisible(result.category)
+        ? result.nominee
+        : { ...result.nominee, voteCount: null },
+      weightedVotes: result.voteRecord.weightedVotes,
+      allowance: result.allowance,
       pcaPointsAwarded: pcaPointsResult.awarded,
       pcaPointsRaw: PCA_VOTE_POINTS_RAW.toString(),
     });
@@ -241,6 +369,48 @@ router.post('/vote', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/**
+ * GET /api/pca/categories/:id/results
+ * Final standings with vote shares, available once the closing job has closed the category.
+ * Also served without auth at /api/public/pca.
+ */
+router.get('/categories/:id/results', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const results = await getPcaResults(req.params.id);
+    res.json({ success: true, ...results });
+    return;
+  } catch (error) {
+    logger.error('PCA results error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to load PCA results' });
+    return;
+  }
+});
+
+/**
+ * GET /api/pca/categories/:id/bracket
+ * Rounds of a bracketed category with each group's entries, votes and who advanced.
+ * Also served without auth at /api/public/pca.
+ */
+router.get('/categories/:id/bracket', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const bracket = await getPcaBracket(req.params.id);
+    res.json({ success: true, ...bracket });
+    return;
+  } catch (error) {
+    logger.error('PCA bracket error', { error });
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    res.status(500).json({ success: false, message: 'Failed to load PCA bracket' });
+    return;
+  }
+});
+
 /**
  * GET /api/pca/criteria/templates
  * Helps admin/frontend present criteria structure by category type.
@@ -0,0 +1,71 @@
+/**
+ * Order applied when nominees finish on the same vote count, first rule first.
+ */
+export const PCA_TIE_BREAK_RULES = [
+  { key: 'VOTERS', description: 'More distinct voters' },
+  { key: 'EARLIEST_TO_TOTAL', description: 'Reached the final vote count first' },
+  { key: 'SORT_ORDER', description: 'Listing order set by the organisers' },
+] as const;
+
+type PcaTieBreak = (typeof PCA_TIE_BREAK_RULES)[number]['key'];
+
+export type StandingRow = {
+  nomineeId: string;
+  name: string;
+  team: string | null;
+  imageUrl: string | null;
+  sortOrder: number;
+  createdAt: Date;
+  voteCount: number;
+  voterCount: bigint;
+  lastVoteAt: Date | null;
+};
+
+// Which rule separates two nominees with equal votes; null if they are identical on all of them.
+const compareTied = (left: StandingRow, right: StandingRow): [number, PcaTieBreak | null] => {
+  if (left.voterCount !== right.voterCount) {
+    return [left.voterCount > right.voterCount ? -1 : 1, 'VOTERS'];
+  }
+  const leftLast = left.lastVoteAt?.getTime() ?? Number.POSITIVE_INFINITY;
+  const rightLast = right.lastVoteAt?.getTime() ?? Number.POSITIVE_INFINITY;
+  if (leftLast !== rightLast) {
+    return [leftLast - rightLast, 'EARLIEST_TO_TOTAL'];
+  }
+  if (left.sortOrder !== right.sortOrder) {
+    return [left.sortOrder - right.sortOrder, 'SORT_ORDER'];
+  }
+  const byCreation = left.createdAt.getTime() - right.createdAt.getTime();
+  return [byCreation || left.nomineeId.localeCompare(right.nomineeId), null];
+};
+
+/**
+ * Rank nominees by votes, breaking ties with PCA_TIE_BREAK_RULES so every nominee gets a
+ * distinct rank and a category has at most one winner.
+ */
+export const rankPcaStandings = (rows: StandingRow[]) => {
+  const sorted = [...rows].sort(
+    (left, right) => right.voteCount - left.voteCount || compareTied(left, right)[0]
+  );
+  const totalVotes = sorted.reduce((sum, row) => sum + row.voteCount, 0);
+
+  return sorted.map((row, index) => {
+    const above = index > 0 ? sorted[index - 1] : null;
+    const tieBreak =
+      above && above.voteCount === row.voteCount
+        ? (compareTied(above, row)[1] ?? 'SORT_ORDER')
+        : null;
+    return {
+      nomineeId: row.nomineeId,
+      nomineeName: row.name,
+      nomineeTeam: row.team,
+      nomineeImageUrl: row.imageUrl,
+      rank: index + 1,
+      voteCount: row.voteCount,
+      voterCount: Number(row.voterCount),
+      voteShareBps: totalVotes > 0 ? Math.round((row.voteCount * 10_000) / totalVotes) : 0,
+      lastVoteAt: row.lastVoteAt,
+      isWinner: index === 0 && row.voteCount > 0,
+      tieBreak,
+    };
+  });
+};
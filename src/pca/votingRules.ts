@@ -0,0 +1,123 @@
+import { Prisma } from '@prisma/client';
+import { AppError } from '../utils/errorHandler';
+
+export type PcaVotingRules = {
+  // Votes one user may cast in the category over its whole run, 0 for no cap.
+  maxVotesPerUser: number;
+  // Votes one user may cast in the category per day in their timezone, 0 for no cap.
+  dailyVoteCap: number;
+  // One vote per user per day that costs no credits.
+  freeDailyVote: boolean;
+  // A user's votes beyond this many in the category count at bulkVoteWeightPct, 0 to disable.
+  fullWeightVotes: number;
+  bulkVoteWeightPct: number;
+};
+
+type PcaVotingRulesPatch = Partial<PcaVotingRules>;
+
+// Categories without stored rules have no caps, full weight and no free vote.
+export const DEFAULT_PCA_VOTING_RULES: PcaVotingRules = {
+  maxVotesPerUser: 0,
+  dailyVoteCap: 0,
+  freeDailyVote: false,
+  fullWeightVotes: 0,
+  bulkVoteWeightPct: 100,
+};
+
+const toNonNegativeInt = (value: unknown, field: string, max = Number.MAX_SAFE_INTEGER) => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > max) {
+    throw new AppError(`${field} must be a number between 0 and ${max}`, 400);
+  }
+  return Math.floor(parsed);
+};
+
+/**
+ * Validate a partial rules object from an admin request or a category's stored rules.
+ * Unknown keys are ignored; present keys must be valid.
+ */
+export const parsePcaVotingRulesPatch = (input: unknown): PcaVotingRulesPatch => {
+  if (input === null || input === undefined) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new AppError('votingRules must be an object', 400);
+  }
+  const body = input as Record<string, unknown>;
+  const patch: PcaVotingRulesPatch = {};
+
+  if (body.maxVotesPerUser !== undefined) {
+    patch.maxVotesPerUser = toNonNegativeInt(body.maxVotesPerUser, 'maxVotesPerUser');
+  }
+  if (body.dailyVoteCap !== undefined) {
+    patch.dailyVoteCap = toNonNegativeInt(body.dailyVoteCap, 'dailyVoteCap');
+  }
+  if (body.freeDailyVote !== undefined) {
+    if (typeof body.freeDailyVote !== 'boolean') {
+      throw new AppError('freeDailyVote must be a boolean', 400);
+    }
+    patch.freeDailyVote = body.freeDailyVote;
+  }
+  if (body.fullWeightVotes !== undefined) {
+    patch.fullWeightVotes = toNonNegativeInt(body.fullWeightVotes, 'fullWeightVotes');
+  }
+  if (body.bulkVoteWeightPct !== undefined) {
+    patch.bulkVoteWeightPct = toNonNegativeInt(body.bulkVoteWeightPct, 'bulkVoteWeightPct', 100);
+  }
+  return patch;
+};
+
+/**
+ * Effective rules for a category: the defaults with the category's stored overrides applied.
+ * Stored rules that no longer validate are ignored rather than blocking votes.
+ */
+export const resolvePcaVotingRules = (category: { votingRules: Prisma.JsonValue | null }) => {
+  try {
+    return { ...DEFAULT_PCA_VOTING_RULES, ...parsePcaVotingRulesPatch(category.votingRules) };
+  } catch {
+    return DEFAULT_PCA_VOTING_RULES;
+  }
+};
+
+// Counted weight of a user's first `votes` votes in a category.
+const cumulativeWeight = (votes: number, rules: PcaVotingRules) => {
+  if (rules.fullWeightVotes <= 0 || votes <= rules.fullWeightVotes) return votes;
+  const bulk = votes - rules.fullWeightVotes;
+  return rules.fullWeightVotes + Math.floor((bulk * rules.bulkVoteWeightPct) / 100);
+};
+
+/**
+ * How much `votes` new votes count for, given the user has already cast `alreadyCast` in the
+ * category. Weight depends on the running total, so splitting a bulk vote across requests
+ * counts the same as sending it at once.
+ */
+export const getWeightedVotes = (alreadyCast: number, votes: number, rules: PcaVotingRules) =>
+  cumulativeWeight(alreadyCast + votes, rules) - cumulativeWeight(alreadyCast, rules);
+
+/**
+ * What the user may still cast in a category. `remaining` is null when neither cap applies.
+ */
+export const getPcaVoteAllowance = (
+  rules: PcaVotingRules,
+  usage: { castTotal: number; castToday: number; freeVoteUsedToday: boolean }
+) => {
+  const remainingInCategory =
+    rules.maxVotesPerUser > 0 ? Math.max(rules.maxVotesPerUser - usage.castTotal, 0) : null;
+  const remainingToday =
+    rules.dailyVoteCap > 0 ? Math.max(rules.dailyVoteCap - usage.castToday, 0) : null;
+  const caps = [remainingInCategory, remainingToday].filter(
+    (value): value is number => value !== null
+  );
+  const remaining = caps.length ? Math.min(...caps) : null;
+
+  return {
+    votesCast: usage.castTotal,
+    votesCastToday: usage.castToday,
+    remainingInCategory,
+    remainingToday,
+    remaining,
+    freeVoteAvailable: rules.freeDailyVote && !usage.freeVoteUsedToday && remaining !== 0,
+    nextVoteWeightPct:
+      rules.fullWeightVotes > 0 && usage.castTotal >= rules.fullWeightVotes
+        ? rules.bulkVoteWeightPct
+        : 100,
+  };
+};
@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import { AirdropSnapshot, AirdropSnapshotEntry } from '@prisma/client';
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandler';
+
+const SNAPSHOT_INSERT_CHUNK_SIZE = 1000;
+const SNAPSHOT_CSV_HEADER = 'rank,userId,pointsRaw,movementAddress,solanaAddress';
+
+type SnapshotRow = Pick<
+  AirdropSnapshotEntry,
+  'userId' | 'rank' | 'pointsRaw' | 'movementAddress' | 'solanaAddress'
+>;
+
+const csvValue = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV handed to the distribution script. The snapshot's content hash is the SHA-256 of exactly
+ * this text, so the script can verify the file it received.
+ */
+export const buildAirdropSnapshotCsv = (entries: SnapshotRow[]) =>
+  [
+    SNAPSHOT_CSV_HEADER,
+    ...entries.map((entry) =>
+      [
+        entry.rank,
+        entry.userId,
+        entry.pointsRaw.toString(),
+        entry.movementAddress,
+        entry.solanaAddress,
+      ]
+        .map(csvValue)
+        .join(',')
+    ),
+  ].join('\n') + '\n';
+
+const hashCsv = (csv: string) => crypto.createHash('sha256').update(csv).digest('hex');
+
+export const serializeAirdropSnapshot = (snapshot: AirdropSnapshot) => ({
+  ...snapshot,
+  totalPointsRaw: snapshot.totalPointsRaw.toString(),
+});
+
+/**
+ * Freeze every user's Banter Points as of `asOf`, summed from PointLedger, together with
+ * their primary Movement and Solana addresses. Later ledger entries never change a snapshot.
+ */
+export async function takeAirdropSnapshot(input: {
+  asOf?: Date;
+  note?: string | null;
+  createdBy?: string | null;
+}) {
+  const asOf = input.asOf ?? new Date();
+  if (asOf.getTime() > Date.now()) {
+    throw new AppError('asOf cannot be in the future', 400);
+  }
+
+  const rows = await prisma.$queryRaw<
+    Array<{
+      userId: string;
+      pointsRaw: bigint;
+      rank: bigint;
+      movementAddress: string | null;
+      solanaAddress: string | null;
+    }>
+  >`
+    WITH totals AS (
+      SELECT l."userId", SUM(l."pointsRaw") AS "pointsRaw"
+      FROM "PointLedger" l
+      WHERE l."createdAt" <= ${asOf}
+      GROUP BY l."userId"
+      HAVING SUM(l."pointsRaw") > 0
+    )
+    SELECT
+      t."userId",
+      t."pointsRaw"::BIGINT AS "pointsRaw",
+      RANK() OVER (ORDER BY t."pointsRaw" DESC) AS "rank",
+      u."movementAddress",
+      u."solanaAddress"
+    FROM totals t
+    JOIN "User" u ON u."id" = t."userId"
+    ORDER BY t."pointsRaw" DESC, t."userId" ASC
+  `;
+
+  const entries: SnapshotRow[] = rows.map((row) => ({
+    userId: row.userId,
+    rank: Number(row.rank),
+    pointsRaw: row.pointsRaw,
+    movementAddress: row.movementAddress,
+    solanaAddress: row.solanaAddress,
+  }));
+  const totalPointsRaw = entries.reduce((sum, entry) => sum + entry.pointsRaw, BigInt(0));
+  const contentHash = hashCsv(buildAirdropSnapshotCsv(entries));
+
+  const snapshot = await prisma.$transaction(
+    async (tx) => {
+      const created = await tx.airdropSnapshot.create({
+        data: {
+          asOf,
+          userCount: entries.length,
+          totalPointsRaw,
+          contentHash,
+          note: input.note || null,
+          createdBy: input.createdBy || null,
+        },
+      });
+      for (let i = 0; i < entries.length; i += SNAPSHOT_INSERT_CHUNK_SIZE) {
+        await tx.airdropSnapshotEntry.createMany({
+          data: entries
+            .slice(i, i + SNAPSHOT_INSERT_CHUNK_SIZE)
+            .map((entry) => ({ ...entry, snapshotId: created.id })),
+        });
+      }
+      return created;
+    },
+    { timeout: 120_000 }
+  );
+
+  logger.info('Airdrop snapshot taken', {
+    snapshotId: snapshot.id,
+    asOf: asOf.toISOString(),
+    userCount: snapshot.userCount,
+    contentHash,
+  });
+  return snapshot;
+}
+
+/**
+ * Load a snapshot with its entries in rank order and re-check the stored content hash.
+ */
+export async function getAirdropSnapshotExport(snapshotId: string) {
+  const snapshot = await prisma.airdropSnapshot.findUnique({ where: { id: snapshotId } });
+  if (!snapshot) {
+    throw new AppError('Airdrop snapshot not found', 404);
+  }
+
+  const entries = await prisma.airdropSnapshotEntry.findMany({
+    where: { snapshotId },
+    orderBy: [{ rank: 'asc' }, { userId: 'asc' }],
+    select: {
+      userId: true,
+      rank: true,
+      pointsRaw: true,
+      movementAddress: true,
+      solanaAddress: true,
+    },
+  });
+  const csv = buildAirdropSnapshotCsv(entries);
+  const verified = hashCsv(csv) === snapshot.contentHash;
+  if (!verified) {
+    logger.error('Airdrop snapshot content hash mismatch', { snapshotId });
+  }
+
+  return { snapshot, entries, csv, verified };
+}
@@ -0,0 +1,244 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandler';
+import { createNotification } from '../notification/service';
+
+const STAY_VOTES_BADGE_COUNT = 100;
+
+type BadgeDefinition = {
+  title: string;
+  description: string;
+  // Whether the user has earned the badge, judged from data the app already records.
+  qualifies: (userId: string) => Promise<boolean>;
+  // Every user who has earned it; used to replay badges over historical data.
+  qualifyingUserIds: () => Promise<string[]>;
+};
+
+// Held by authors with at least one banter matching `where`.
+const survivalBadge = (
+  where: Prisma.PostWhereInput,
+  title: string,
+  description: string
+): BadgeDefinition => ({
+  title,
+  description,
+  qualifies: async (userId) => (await prisma.post.count({ where: { ...where, userId } })) > 0,
+  qualifyingUserIds: async () =>
+    (
+      await prisma.post.findMany({
+        where,
+        distinct: ['userId'],
+        select: { userId: true },
+      })
+    ).map((row) => row.userId),
+});
+
+const referralBadge = (count: number, title: string, description: string): BadgeDefinition => ({
+  title,
+  description,
+  qualifies: async (userId) =>
+    (await prisma.referral.count({ where: { referrerId: userId, status: 'REWARDED' } })) >= count,
+  qualifyingUserIds: async () =>
+    (
+      await prisma.referral.groupBy({
+        by: ['referrerId'],
+        where: { status: 'REWARDED' },
+        having: { referrerId: { _count: { gte: count } } },
+      })
+    ).map((row) => row.referrerId),
+});
+
+/**
+ * Badge catalog. Keys are stored on UserBadge, so rename with a data migration, never in place.
+ */
+export const BADGE_DEFINITIONS = {
+  FIRST_SURVIVAL: survivalBadge(
+    { survivalCycles: { gte: 1 } },
+    'Survivor',
+    'One of your banters survived its first vote.'
+  ),
+  // Earned at the first survival reward milestone, so it follows rewardEveryCycles of the
+  // lifecycle policy (and league override) each survived cycle ran under. The key predates that.
+  SEVEN_CYCLE_SURVIVOR: survivalBadge(
+    { rewardCyclesPaid: { gte: 1 } },
+    'Built to Last',
+    'One of your banters survived long enough to earn a survival reward.'
+  ),
+  STAY_VOTES_100: {
+    title: 'Crowd Favourite',
+    description: `Your banters have received ${STAY_VOTES_BADGE_COUNT} Stay votes.`,
+    qualifies: async (userId) => {
+      const rows = await prisma.$queryRaw<Array<{ count: bigint }>>`
+        SELECT COUNT(*) AS "count"
+        FROM "Vote" v
+        JOIN "Post" p ON p."id" = v."postId"
+        WHERE p."userId" = ${userId} AND v."voteType" = 'STAY' AND v."userId" <> p."userId"
+      `;
+      return Number(rows[0]?.count ?? 0) >= STAY_VOTES_BADGE_COUNT;
+    },
+    qualifyingUserIds: async () =>
+      (
+        await prisma.$queryRaw<Array<{ userId: string }>>`
+          SELECT p."userId"
+          FROM "Vote" v
+          JOIN "Post" p ON p."id" = v."postId"
+          WHERE v."voteType" = 'STAY' AND v."userId" <> p."userId"
+          GROUP BY p."userId"
+          HAVING COUNT(*) >= ${STAY_VOTES_BADGE_COUNT}
+        `
+      ).map((row) => row.userId),
+  },
+  FIRST_PCA_VOTE: {
+    title: 'Voice of the Fans',
+    description: 'You cast your first PCA vote.',
+    qualifies: async (userId) => (await prisma.pcaVote.count({ where: { userId } })) > 0,
+    qualifyingUserIds: async () =>
+      (await prisma.pcaVote.findMany({ distinct: ['userId'], select: { userId: true } })).map(
+        (row) => row.userId
+      ),
+  },
+  FIRST_ROLLEY_STAKE: {
+    title: 'Staked In',
+    description: 'You completed your first Rolley stake.',
+    qualifies: async (userId) =>
+      (await prisma.pointLedger.count({ where: { userId, type: 'FIRST_ROLLEY_STAKE' } })) > 0,
+    qualifyingUserIds: async () =>
+      (
+        await prisma.pointLedger.findMany({
+          where: { type: 'FIRST_ROLLEY_STAKE' },
+          distinct: ['userId'],
+          select: { userId: true },
+        })
+      ).map((row) => row.userId),
+  },
+  REFERRALS_1: referralBadge(1, 'Recruiter', 'A friend you invited became an active Banter user.'),
+  REFERRALS_5: referralBadge(5, 'Squad Builder', 'Five friends you invited became active.'),
+  REFERRALS_25: referralBadge(25, 'Club Captain', 'Twenty-five friends you invited became active.'),
+} satisfies Record<string, BadgeDefinition>;
+
+export type BadgeKey = keyof typeof BADGE_DEFINITIONS;
+
+export const BADGE_KEYS = Object.keys(BADGE_DEFINITIONS) as BadgeKey[];
+export const SURVIVAL_BADGES: BadgeKey[] = ['FIRST_SURVIVAL', 'SEVEN_CYCLE_SURVIVOR'];
+export const REFERRAL_BADGES: BadgeKey[] = ['REFERRALS_1', 'REFERRALS_5', 'REFERRALS_25'];
+
+const isBadgeKey = (value: unknown): value is BadgeKey =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(BADGE_DEFINITIONS, value);
+
+export const parseBadgeKeys = (value: unknown): BadgeKey[] => {
+  if (value === undefined || value === null) return BADGE_KEYS;
+  if (!Array.isArray(value) || !value.every(isBadgeKey)) {
+    throw new AppError(`badges must be a list of: ${BADGE_KEYS.join(', ')}`, 400);
+  }
+  return value;
+};
+
+const getBadgeReference = (badge: BadgeKey, userId: string) => `badge:${badge}:${userId}`;
+
+/**
+ * Give a user a badge once. Returns false when they already hold it.
+ */
+async function grantBadge(userId: string, badge: BadgeKey) {
+  const reference = getBadgeReference(badge, userId);
+  try {
+    await prisma.userBadge.create({
+      data: { userId, badge, reference, metadata: { source: 'event' } },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false;
+    }
+    throw error;
+  }
+
+  const definition = BADGE_DEFINITIONS[badge];
+  await createNotification({
+    userId,
+    type: 'SYSTEM',
+    title: `Badge unlocked: ${definition.title}`,
+    body: `${definition.description} The badge now shows on your profile.`,
+    data: { rewardType: 'BADGE', badge },
+    reference,
+  });
+  return true;
+}
+
+/**
+ * Award any of `badges` the user now qualifies for and does not hold yet.
+ */
+export async function checkBadges(userId: string, badges: BadgeKey[]) {
+  const held = await prisma.userBadge.findMany({
+    where: { userId, badge: { in: badges } },
+    select: { badge: true },
+  });
+  const heldKeys = new Set(held.map((row) => row.badge));
+
+  const awarded: BadgeKey[] = [];
+  for (const badge of badges) {
+    if (heldKeys.has(badge)) continue;
+    if (await BADGE_DEFINITIONS[badge].qualifies(userId)) {
+      if (await grantBadge(userId, badge)) awarded.push(badge);
+    }
+  }
+  return awarded;
+}
+
+/**
+ * Fire-and-forget wrapper for event sites; badges must never fail the action that earned them.
+ */
+export const queueBadgeCheck = (userId: string, badges: BadgeKey[]) => {
+  void checkBadges(userId, badges).catch((error) => {
+    logger.warn('Failed to check badges', { userId, badges, error });
+  });
+};
+
+export const queuePostAuthorBadgeCheck = (postId: string, badges: BadgeKey[]) => {
+  void prisma.post
+    .findUnique({ where: { id: postId }, select: { userId: true } })
+    .then((post) => (post ? checkBadges(post.userId, badges) : []))
+    .catch((error) => {
+      logger.warn('Failed to check badges', { postId, badges, error });
+    });
+};
+
+/**
+ * Award badges from historical data to everyone who qualifies and lacks them. Safe to re-run;
+ * replayed awards are not notified, since most describe things that happened long ago.
+ */
+export async function replayBadges(badges: BadgeKey[] = BADGE_KEYS) {
+  const awarded: Partial<Record<BadgeKey, number>> = {};
+  for (const badge of badges) {
+    const userIds = await BADGE_DEFINITIONS[badge].qualifyingUserIds();
+    const created = await prisma.userBadge.createMany({
+      data: userIds.map((userId) => ({
+        userId,
+        badge,
+        reference: getBadgeReference(badge, userId),
+        metadata: { source: 'replay' },
+      })),
+      skipDuplicates: true,
+    });
+    awarded[badge] = created.count;
+  }
+
+  logger.info('Badges replayed', { awarded });
+  return awarded;
+}
+
+/**
+ * A user's badges for profile display, oldest first.
+ */
+export async function getUserBadges(userId: string) {
+  const rows = await prisma.userBadge.findMany({
+    where: { userId },
+    orderBy: [{ awardedAt: 'asc' }, { id: 'asc' }],
+    select: { badge: true, awardedAt: true },
+  });
+  return rows.filter((row) => isBadgeKey(row.badge)).map((row) => ({
+    badge: row.badge,
+    title: BADGE_DEFINITIONS[row.badge as BadgeKey].title,
+    description: BADGE_DEFINITIONS[row.badge as BadgeKey].description,
+    awardedAt: row.awardedAt,
+  }));
+}
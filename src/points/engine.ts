@@ -0,0 +1,186 @@
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import { createNotification } from '../notification/service';
+import { awardPointsOnce, getLocalDayKey, getLocalDayStart, getUserTimeZone } from './service';
+
+const parseRawEnv = (value: string | undefined, fallback: string) => {
+  try {
+    const parsed = BigInt(value || fallback);
+    return parsed >= BigInt(0) ? parsed : BigInt(fallback);
+  } catch {
+    return BigInt(fallback);
+  }
+};
+
+const parseCapEnv = (value: string | undefined, fallback: string) =>
+  Math.max(0, Number.parseInt(value || fallback, 10));
+
+type PostPointsRule = {
+  // Reference prefix; also how the daily cap counts earlier awards of the same rule.
+  referencePrefix: string;
+  pointsRaw: bigint;
+  // Max awards per user per day in their timezone, 0 for no cap.
+  dailyCap: number;
+};
+
+/**
+ * Banter Points rules for post activity. All three share PointLedgerType.POST and are told
+ * apart by reference prefix.
+ */
+export const POST_POINTS_RULES = {
+  POST_CREATED: {
+    referencePrefix: 'post_created',
+    pointsRaw: parseRawEnv(process.env.BANTER_POINTS_POST_RAW, '5'),
+    dailyCap: parseCapEnv(process.env.BANTER_POINTS_POST_DAILY_CAP, '3'),
+  },
+  SURVIVAL_CYCLE: {
+    referencePrefix: 'post_survival',
+    pointsRaw: parseRawEnv(process.env.BANTER_POINTS_SURVIVAL_CYCLE_RAW, '10'),
+    dailyCap: 0,
+  },
+  STAY_VOTE_RECEIVED: {
+    referencePrefix: 'stay_vote_received',
+    pointsRaw: parseRawEnv(process.env.BANTER_POINTS_STAY_VOTE_RECEIVED_RAW, '1'),
+    dailyCap: parseCapEnv(process.env.BANTER_POINTS_STAY_VOTE_DAILY_CAP, '50'),
+  },
+} satisfies Record<string, PostPointsRule>;
+
+export type PostPointsRuleName = keyof typeof POST_POINTS_RULES;
+
+type RuleAwardResult = {
+  awarded: boolean;
+  reference: string;
+  pointsRaw: bigint;
+  reason?: 'DISABLED' | 'DAILY_CAP' | 'ALREADY_AWARDED' | 'NOT_ELIGIBLE';
+};
+
+/**
+ * Award one rule once per `referenceKey`, honouring the rule's daily cap. The user row is
+ * locked so concurrent awards cannot both slip under the cap.
+ */
+export async function applyPostPointsRule(input: {
+  rule: PostPointsRuleName;
+  userId: string;
+  referenceKey: string;
+  metadata?: Record<string, string | number | boolean | null>;
+  now?: Date;
+}): Promise<RuleAwardResult> {
+  const rule = POST_POINTS_RULES[input.rule];
+  const reference = `${rule.referencePrefix}:${input.referenceKey}`;
+  if (rule.pointsRaw <= BigInt(0)) {
+    return { awarded: false, reference, pointsRaw: rule.pointsRaw, reason: 'DISABLED' };
+  }
+
+  const now = input.now ?? new Date();
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT id FROM "User" WHERE id = ${input.userId} FOR UPDATE`;
+
+    if (rule.dailyCap > 0) {
+      const awardedToday = await tx.pointLedger.count({
+        where: {
+          userId: input.userId,
+          type: 'POST',
+          reference: { startsWith: `${rule.referencePrefix}:` },
+          createdAt: { gte: getLocalDayStart(now, await getUserTimeZone(tx, input.userId)) },
+        },
+      });
+      if (awardedToday >= rule.dailyCap) {
+        return { awarded: false, reference, pointsRaw: rule.pointsRaw, reason: 'DAILY_CAP' as const };
+      }
+    }
+
+    return awardPointsOnce(tx, {
+      userId: input.userId,
+      type: 'POST',
+      pointsRaw: rule.pointsRaw,
+      reference,
+      metadata: { rule: input.rule, ...(input.metadata || {}) },
+    });
+  });
+}
+
+export async function awardPostCreatedPoints(input: { userId: string; postId: string }) {
+  const result = await applyPostPointsRule({
+    rule: 'POST_CREATED',
+    userId: input.userId,
+    referenceKey: input.postId,
+    metadata: { postId: input.postId },
+  });
+  if (result.awarded) {
+    await createNotification({
+      userId: input.userId,
+      type: 'SYSTEM',
+      title: 'Banter Points added',
+      body: 'You earned Banter Points for posting a banter. Open Profile > Banter Points to see how your points count toward the future airdrop.',
+      data: {
+        pointsRaw: result.pointsRaw.toString(),
+        rewardType: 'POST_CREATED',
+        postId: input.postId,
+      },
+      reference: result.reference,
+    });
+  }
+  return result;
+}
+
+/**
+ * Points for one survived cycle. The caller folds them into its survival notification.
+ */
+export const awardSurvivalCyclePoints = (input: {
+  userId: string;
+  postId: string;
+  survivalCycles: number;
+}) =>
+  applyPostPointsRule({
+    rule: 'SURVIVAL_CYCLE',
+    userId: input.userId,
+    referenceKey: `${input.postId}:${input.survivalCycles}`,
+    metadata: { postId: input.postId, survivalCycles: input.survivalCycles },
+  });
+
+/**
+ * Points for the author when someone else votes Stay. Keyed on post and voter, so switching a
+ * vote back and forth pays once. Notifies at most once per post per day.
+ */
+export async function awardStayVoteReceivedPoints(input: { postId: string; voterId: string }) {
+  const post = await prisma.post.findUnique({
+    where: { id: input.postId },
+    select: { userId: true },
+  });
+  if (!post || post.userId === input.voterId) {
+    return null;
+  }
+
+  const result = await applyPostPointsRule({
+    rule: 'STAY_VOTE_RECEIVED',
+    userId: post.userId,
+    referenceKey: `${input.postId}:${input.voterId}`,
+    metadata: { postId: input.postId, voterId: input.voterId },
+  });
+  if (result.awarded) {
+    // The once-a-day notification follows the author's day, like their daily caps.
+    const timeZone = await getUserTimeZone(prisma, post.userId);
+    await createNotification({
+      userId: post.userId,
+      type: 'SYSTEM',
+      title: 'Your banter is earning points',
+      body: 'Stay votes on your banter earn you Banter Points. Open Profile > Banter Points to see how your points count toward the future airdrop.',
+      data: {
+        pointsRaw: result.pointsRaw.toString(),
+        rewardType: 'STAY_VOTE_RECEIVED',
+        postId: input.postId,
+      },
+      reference: `stay_vote_points:${input.postId}:${getLocalDayKey(new Date(), timeZone)}`,
+    });
+  }
+  return result;
+}
+
+/**
+ * Fire-and-forget wrapper for request handlers; points must never fail a post or a vote.
+ */
+export const queuePostPointsAward = (label: string, award: () => Promise<unknown>) => {
+  void award().catch((error) => {
+    logger.warn(`Failed to award ${label} points`, { error });
+  });
+};
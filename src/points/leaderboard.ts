@@ -0,0 +1,137 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError } from '../utils/errorHandler';
+import { DEFAULT_TIMEZONE, getZonedDayStart, getZonedWeekStart } from '../utils/timezone';
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'all';
+
+const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['daily', 'weekly', 'all'];
+const LEADERBOARD_CACHE_TTL_MS = Math.max(
+  0,
+  Number.parseInt(process.env.LEADERBOARD_CACHE_TTL_MS || '60000', 10)
+);
+const LEADERBOARD_CACHE_MAX_ENTRIES = 200;
+
+type LeaderboardRow = {
+  userId: string;
+  username: string | null;
+  displayName: string | null;
+  avatarUrl: string | null;
+  pointsRaw: bigint;
+  rank: bigint;
+};
+
+const leaderboardCache = new Map<
+  string,
+  { expiresAt: number; since: Date | null; entries: ReturnType<typeof serializeRow>[] }
+>();
+
+export const parseLeaderboardPeriod = (value: unknown): LeaderboardPeriod => {
+  const period = typeof value === 'string' && value ? value.toLowerCase() : 'weekly';
+  if (period === 'all-time' || period === 'alltime') return 'all';
+  if (!LEADERBOARD_PERIODS.includes(period as LeaderboardPeriod)) {
+    throw new AppError(`period must be one of ${LEADERBOARD_PERIODS.join(', ')}`, 400);
+  }
+  return period as LeaderboardPeriod;
+};
+
+/**
+ * Start of the leaderboard window. Leaderboards are shared, so they reset on the deployment
+ * default timezone rather than any one user's. Weeks start on Monday.
+ */
+export const getLeaderboardWindowStart = (period: LeaderboardPeriod, now = new Date()) => {
+  if (period === 'all') return null;
+  if (period === 'daily') return getZonedDayStart(now, DEFAULT_TIMEZONE);
+  return getZonedWeekStart(now, DEFAULT_TIMEZONE);
+};
+
+const buildTotalsQuery = (since: Date | null, club: string | null) => Prisma.sql`
+  SELECT l."userId", SUM(l."pointsRaw") AS "pointsRaw"
+  FROM "PointLedger" l
+  JOIN "User" u ON u."id" = l."userId"
+  WHERE TRUE
+    ${since ? Prisma.sql`AND l."createdAt" >= ${since}` : Prisma.empty}
+    ${
+      club
+        ? Prisma.sql`AND EXISTS (SELECT 1 FROM unnest(u."clubs") c WHERE LOWER(c) = LOWER(${club}))`
+        : Prisma.empty
+    }
+  GROUP BY l."userId"
+  HAVING SUM(l."pointsRaw") > 0
+`;
+
+const serializeRow = (row: LeaderboardRow) => ({
+  rank: Number(row.rank),
+  userId: row.userId,
+  username: row.username,
+  displayName: row.displayName,
+  avatarUrl: row.avatarUrl,
+  pointsRaw: row.pointsRaw.toString(),
+});
+
+/**
+ * Top users by Banter Points earned in the period, computed from PointLedger.
+ * Ties share a rank. Results are cached briefly because every profile view can request them.
+ */
+export async function getPointsLeaderboard(input: {
+  period: LeaderboardPeriod;
+  club?: string | null;
+  limit: number;
+}) {
+  const club = input.club?.trim() || null;
+  const cacheKey = `${input.period}:${club?.toLowerCase() || ''}:${input.limit}`;
+  const cached = leaderboardCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return { since: cached.since, entries: cached.entries };
+  }
+
+  const since = getLeaderboardWindowStart(input.period);
+  const rows = await prisma.$queryRaw<LeaderboardRow[]>`
+    WITH totals AS (${buildTotalsQuery(since, club)})
+    SELECT
+      t."userId",
+      u."username",
+      u."displayName",
+      u."avatarUrl",
+      t."pointsRaw"::BIGINT AS "pointsRaw",
+      RANK() OVER (ORDER BY t."pointsRaw" DESC) AS "rank"
+    FROM totals t
+    JOIN "User" u ON u."id" = t."userId"
+    ORDER BY t."pointsRaw" DESC, t."userId" ASC
+    LIMIT ${input.limit}
+  `;
+  const entries = rows.map(serializeRow);
+
+  if (leaderboardCache.size >= LEADERBOARD_CACHE_MAX_ENTRIES) {
+    leaderboardCache.clear();
+  }
+  leaderboardCache.set(cacheKey, {
+    expiresAt: Date.now() + LEADERBOARD_CACHE_TTL_MS,
+    since,
+    entries,
+  });
+  return { since, entries };
+}
+
+/**
+ * The user's own position on a leaderboard, or null when they have no points in the period.
+ */
+export async function getPointsLeaderboardRank(input: {
+  period: LeaderboardPeriod;
+  club?: string | null;
+  userId: string;
+}) {
+  const club = input.club?.trim() || null;
+  const since = getLeaderboardWindowStart(input.period);
+  const rows = await prisma.$queryRaw<Array<{ pointsRaw: bigint; rank: bigint }>>`
+    WITH totals AS (${buildTotalsQuery(since, club)})
+    SELECT
+      t."pointsRaw"::BIGINT AS "pointsRaw",
+      (SELECT COUNT(*) FROM totals o WHERE o."pointsRaw" > t."pointsRaw") + 1 AS "rank"
+    FROM totals t
+    WHERE t."userId" = ${input.userId}
+  `;
+  const row = rows[0];
+  if (!row) return null;
+  return { rank: Number(row.rank), pointsRaw: row.pointsRaw.toString() };
+}
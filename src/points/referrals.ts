@@ -0,0 +1,355 @@
+import crypto from 'crypto';
+import net from 'net';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import { createNotification } from '../notification/service';
+import {
+  REFERRAL_REFEREE_POINTS_RAW,
+  REFERRAL_REFERRER_POINTS_RAW,
+  awardReferralPoints,
+} from './service';
+import { REFERRAL_BADGES, queueBadgeCheck } from './badges';
+
+type TxClient = Prisma.TransactionClient | PrismaClient;
+
+const REFERRAL_QUALIFY_LOGIN_DAYS = Math.max(
+  1,
+  Number.parseInt(process.env.REFERRAL_QUALIFY_LOGIN_DAYS || '3', 10)
+);
+const REFERRAL_QUALIFY_ON_FIRST_POST = process.env.REFERRAL_QUALIFY_ON_FIRST_POST !== '0';
+const REFERRAL_QUALIFY_WINDOW_DAYS = Math.max(
+  1,
+  Number.parseInt(process.env.REFERRAL_QUALIFY_WINDOW_DAYS || '30', 10)
+);
+const REFERRAL_MAX_PER_IP_PREFIX = Math.max(
+  1,
+  Number.parseInt(process.env.REFERRAL_MAX_PER_IP_PREFIX || '2', 10)
+);
+const REFERRAL_MAX_REWARDED_PER_REFERRER = Math.max(
+  0,
+  Number.parseInt(process.env.REFERRAL_MAX_REWARDED_PER_REFERRER || '50', 10)
+);
+
+const REFERRAL_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const REFERRAL_CODE_LENGTH = 8;
+
+export type ReferralRejectReason =
+  | 'SELF_REFERRAL'
+  | 'SAME_NETWORK'
+  | 'SAME_DEVICE'
+  | 'REFERRER_LIMIT';
+
+export const getReferralProgramRules = () => ({
+  referrerPointsRaw: REFERRAL_REFERRER_POINTS_RAW.toString(),
+  refereePointsRaw: REFERRAL_REFEREE_POINTS_RAW.toString(),
+  qualifyLoginDays: REFERRAL_QUALIFY_LOGIN_DAYS,
+  qualifyOnFirstPost: REFERRAL_QUALIFY_ON_FIRST_POST,
+  qualifyWindowDays: REFERRAL_QUALIFY_WINDOW_DAYS,
+});
+
+export const normalizeReferralCode = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim().toUpperCase() : null;
+
+/**
+ * Coarse network of a client address: /24 for IPv4, /48 for IPv6. Sign-ups from the same
+ * household or office share a prefix, which is what the referral limits look at.
+ */
+export const getIpPrefix = (ip?: string | null) => {
+  if (!ip) return null;
+  const address = ip.trim().replace(/^::ffff:/i, '');
+  if (net.isIPv4(address)) {
+    return `${address.split('.').slice(0, 3).join('.')}.0/24`;
+  }
+  if (net.isIPv6(address)) {
+    const [head, tail = ''] = address.toLowerCase().split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const missing = 8 - headGroups.length - tailGroups.length;
+    const groups = [...headGroups, ...Array(Math.max(0, missing)).fill('0'), ...tailGroups];
+    return `${groups
+      .slice(0, 3)
+      .map((group) => group.replace(/^0+(?=.)/, ''))
+      .join(':')}::/48`;
+  }
+  return null;
+};
+
+const generateReferralCode = () => {
+  const bytes = crypto.randomBytes(REFERRAL_CODE_LENGTH);
+  return Array.from(bytes, (byte) => REFERRAL_CODE_ALPHABET[byte % REFERRAL_CODE_ALPHABET.length]).join('');
+};
+
+/**
+ * The user's referral code, created on first use.
+ */
+export async function getOrCreateReferralCode(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { referralCode: true },
+  });
+  if (user?.referralCode) return user.referralCode;
+
+  for (let attempt = 0; attempt < 5; attempt += 1) {
+    const code = generateReferralCode();
+    try {
+      const updated = await prisma.user.updateMany({
+        where: { id: userId, referralCode: null },
+        data: { referralCode: code },
+      });
+      if (updated.count > 0) return code;
+
+      const current = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { referralCode: true },
+      });
+      if (current?.referralCode) return current.referralCode;
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+    }
+  }
+  throw new Error(`Could not allocate a referral code for user ${userId}`);
+}
+
+const findFraudReason = async (
+  tx: TxClient,
+  input: {
+    referrer: { id: string; lastIpPrefix: string | null };
+    refereeId: string;
+    ipPrefix: string | null;
+    deviceToken: string | null;
+  }
+): Promise<ReferralRejectReason | null> => {
+  if (input.referrer.id === input.refereeId) {
+    return 'SELF_REFERRAL';
+  }
+
+  if (input.ipPrefix) {
+    if (input.referrer.lastIpPrefix === input.ipPrefix) {
+      return 'SAME_NETWORK';
+    }
+    const sameNetwork = await tx.referral.count({
+      where: { referrerId: input.referrer.id, refereeIpPrefix: input.ipPrefix },
+    });
+    if (sameNetwork >= REFERRAL_MAX_PER_IP_PREFIX) {
+      return 'SAME_NETWORK';
+    }
+  }
+
+  if (input.deviceToken) {
+    const [referrerDevice, reusedDevice] = await Promise.all([
+      tx.devicePushToken.findFirst({
+        where: { userId: input.referrer.id, token: input.deviceToken },
+        select: { id: true },
+      }),
+      tx.referral.findFirst({
+        where: { referrerId: input.referrer.id, refereeDeviceToken: input.deviceToken },
+        select: { id: true },
+      }),
+    ]);
+    if (referrerDevice || reusedDevice) {
+      return 'SAME_DEVICE';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Attribute a newly created account to the owner of `code`. Call inside the sign-up
+ * transaction. Unknown codes are ignored; suspicious sign-ups are recorded as REJECTED so they
+ * show up in the referrer's history without ever paying out.
+ */
+export async function attributeReferral(
+  tx: TxClient,
+  input: {
+    refereeId: string;
+    code: string | null;
+    ip?: string | null;
+    deviceToken?: string | null;
+  }
+) {
+  if (!input.code) return null;
+
+  const referrer = await tx.user.findUnique({
+    where: { referralCode: input.code },
+    select: { id: true, lastIpPrefix: true },
+  });
+  if (!referrer) {
+    logger.info('Ignoring unknown referral code', { code: input.code, refereeId: input.refereeId });
+    return null;
+  }
+
+  const existing = await tx.referral.findUnique({ where: { refereeId: input.refereeId } });
+  if (existing) return existing;
+
+  const ipPrefix = getIpPrefix(input.ip);
+  const deviceToken = input.deviceToken?.trim() || null;
+  const rejectReason = await findFraudReason(tx, {
+    referrer,
+    refereeId: input.refereeId,
+    ipPrefix,
+    deviceToken,
+  });
+
+  const referral = await tx.referral.create({
+    data: {
+      referrerId: referrer.id,
+      refereeId: input.refereeId,
+      code: input.code,
+      status: rejectReason ? 'REJECTED' : 'PENDING',
+      rejectReason,
+      refereeIpPrefix: ipPrefix,
+      refereeDeviceToken: deviceToken,
+    },
+  });
+  logger.info('Referral attributed', {
+    referralId: referral.id,
+    referrerId: referrer.id,
+    refereeId: input.refereeId,
+    status: referral.status,
+    rejectReason,
+  });
+  return referral;
+}
+
+const getQualification = async (referral: { refereeId: string; createdAt: Date }) => {
+  if (REFERRAL_QUALIFY_ON_FIRST_POST) {
+    const post = await prisma.post.findFirst({
+      where: { userId: referral.refereeId, createdAt: { gte: referral.createdAt } },
+      select: { id: true },
+    });
+    if (post) return 'FIRST_POST';
+  }
+
+  // Daily login points are written once per local day, so ledger rows count login days.
+  const loginDays = await prisma.pointLedger.count({
+    where: { userId: referral.refereeId, type: 'LOGIN', createdAt: { gte: referral.createdAt } },
+  });
+  if (loginDays >= REFERRAL_QUALIFY_LOGIN_DAYS) return 'LOGIN_DAYS';
+
+  return null;
+};
+
+/**
+ * Pay out a pending referral once the referee has logged in on enough days or posted.
+ * Cheap when there is nothing to do, so it runs after every daily login and post.
+ */
+export async function evaluateReferralQualification(refereeId: string) {
+  const referral = await prisma.referral.findUnique({ where: { refereeId } });
+  if (!referral || referral.status !== 'PENDING') return null;
+
+  const windowEnd = referral.createdAt.getTime() + REFERRAL_QUALIFY_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  if (Date.now() > windowEnd) {
+    await prisma.referral.updateMany({
+      where: { id: referral.id, status: 'PENDING' },
+      data: { status: 'EXPIRED' },
+    });
+    return 'EXPIRED' as const;
+  }
+
+  const qualifiedBy = await getQualification(referral);
+  if (!qualifiedBy) return null;
+
+  const outcome = await prisma.$transaction(async (tx) => {
+    // Serialize payouts per referrer so the reward cap cannot be overshot.
+    await tx.$executeRaw`SELECT id FROM "User" WHERE id = ${referral.referrerId} FOR UPDATE`;
+
+    const [refereeDevices, rewardedCount] = await Promise.all([
+      tx.devicePushToken.findMany({
+        where: { userId: refereeId },
+        select: { token: true },
+      }),
+      tx.referral.count({ where: { referrerId: referral.referrerId, status: 'REWARDED' } }),
+    ]);
+
+    // Devices registered after sign-up get the same check the sign-up token did.
+    const sharedDevice = refereeDevices.length
+      ? await tx.referral.findFirst({
+          where: {
+            referrerId: referral.referrerId,
+            id: { not: referral.id },
+            refereeDeviceToken: { in: refereeDevices.map((device) => device.token) },
+          },
+          select: { id: true },
+        })
+      : null;
+
+    const rejectReason: ReferralRejectReason | null = sharedDevice
+      ? 'SAME_DEVICE'
+      : rewardedCount >= REFERRAL_MAX_REWARDED_PER_REFERRER
+        ? 'REFERRER_LIMIT'
+        : null;
+
+    if (rejectReason) {
+      await tx.referral.updateMany({
+        where: { id: referral.id, status: 'PENDING' },
+        data: { status: 'REJECTED', rejectReason },
+      });
+      return { status: 'REJECTED' as const, rejectReason };
+    }
+
+    const claimed = await tx.referral.updateMany({
+      where: { id: referral.id, status: 'PENDING' },
+      data: { status: 'REWARDED', qualifiedBy, rewardedAt: new Date() },
+    });
+    if (claimed.count === 0) return null;
+
+    await awardReferralPoints(tx, {
+      referralId: referral.id,
+      referrerId: referral.referrerId,
+      refereeId,
+      qualifiedBy,
+    });
+    return { status: 'REWARDED' as const, rejectReason: null };
+  });
+
+  if (!outcome) return null;
+  if (outcome.status === 'REJECTED') {
+    logger.warn('Referral rejected at qualification', {
+      referralId: referral.id,
+      reason: outcome.rejectReason,
+    });
+    return outcome.status;
+  }
+
+  queueBadgeCheck(referral.referrerId, REFERRAL_BADGES);
+  await createNotification({
+    userId: referral.referrerId,
+    type: 'SYSTEM',
+    title: 'Referral bonus added',
+    body: 'A friend you invited is now active. Open Profile > Banter Points to see how your points count toward the future airdrop.',
+    data: {
+      pointsRaw: REFERRAL_REFERRER_POINTS_RAW.toString(),
+      rewardType: 'REFERRAL',
+      referralId: referral.id,
+    },
+    reference: `referral:${referral.id}:referrer`,
+  });
+  if (REFERRAL_REFEREE_POINTS_RAW > BigInt(0)) {
+    await createNotification({
+      userId: refereeId,
+      type: 'SYSTEM',
+      title: 'Referral bonus added',
+      body: 'You received Banter Points for joining through an invite. Open Profile > Banter Points to see how your points count toward the future airdrop.',
+      data: {
+        pointsRaw: REFERRAL_REFEREE_POINTS_RAW.toString(),
+        rewardType: 'REFERRAL',
+        referralId: referral.id,
+      },
+      reference: `referral:${referral.id}:referee`,
+    });
+  }
+  return outcome.status;
+}
+
+/**
+ * Fire-and-forget wrapper for request handlers; a referral problem must never fail a login or post.
+ */
+export const queueReferralQualificationCheck = (refereeId: string) => {
+  void evaluateReferralQualification(refereeId).catch((error) => {
+    logger.warn('Referral qualification check failed', { refereeId, error });
+  });
+};
@@ -8,6 +8,21 @@ import {
   awardFirstRolleyStakePoints,
   getRolleyServiceBaseUrl,
 } from './service';
+import {
+  getPointsLeaderboard,
+  getPointsLeaderboardRank,
+  parseLeaderboardPeriod,
+} from './leaderboard';
+import { getOrCreateReferralCode, getReferralProgramRules } from './referrals';
+import { getLoginStreakStatus } from './streaks';
+import { BADGE_DEFINITIONS, BADGE_KEYS, getUserBadges, queueBadgeCheck } from './badges';
+import {
+  buildCursorPage,
+  buildTimeCursorWhere,
+  decodeTimeCursor,
+  encodeTimeCursor,
+  parseCursorParams,
+} from '../utils/cursor';
 
 const router = Router();
 
@@ -70,6 +85,7 @@ router.post('/rolley/first-stake', async (req: Request, res: Response): Promise<
         reference: rewardResult.reference,
       });
     }
+    queueBadgeCheck(userId, ['FIRST_ROLLEY_STAKE']);
 
     const refreshedUser = await prisma.user.findUnique({
       where: { id: userId },
@@ -97,4 +113,173 @@ router.post('/rolley/first-stake', async (req: Request, res: Response): Promise<
   }
 });
 
+/**
+ * GET /api/rewards/leaderboard
+ * Banter Points leaderboard from PointLedger, with the caller's own rank.
+ * Query params: period=daily|weekly|all (default weekly), club, limit (max 100)
+ */
+router.get('/leaderboard', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const period = parseLeaderboardPeriod(req.query.period);
+    const club = typeof req.query.club === 'string' ? req.query.club.trim() || null : null;
+    const parsedLimit = Number.parseInt(String(req.query.limit || '50'), 10);
+    const limit = Math.min(100, Math.max(1, Number.isFinite(parsedLimit) ? parsedLimit : 50));
+
+    const [leaderboard, me] = await Promise.all([
+      getPointsLeaderboard({ period, club, limit }),
+      getPointsLeaderboardRank({ period, club, userId }),
+    ]);
+
+    res.json({
+      success: true,
+      period,
+      club,
+      since: leaderboard.since,
+      entries: leaderboard.entries,
+      me,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to load leaderboard' });
+  }
+});
+
+/**
+ * GET /api/rewards/referrals
+ * The caller's referral code, invite history and points earned from referrals.
+ * Query params: limit, cursor
+ */
+router.get('/referrals', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const { limit, cursor } = parseCursorParams(req.query, { defaultLimit: 20, maxLimit: 100 });
+    const [code, statusCounts, earned, rows] = await Promise.all([
+      getOrCreateReferralCode(userId),
+      prisma.referral.groupBy({
+        by: ['status'],
+        where: { referrerId: userId },
+        _count: { _all: true },
+      }),
+      prisma.pointLedger.aggregate({
+        where: { userId, type: 'REFERRAL', reference: { endsWith: ':referrer' } },
+        _sum: { pointsRaw: true },
+      }),
+      prisma.referral.findMany({
+        where: {
+          referrerId: userId,
+          ...buildTimeCursorWhere(decodeTimeCursor(cursor)),
+        },
+        include: {
+          referee: {
+            select: { id: true, username: true, displayName: true, avatarUrl: true },
+          },
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+      }),
+    ]);
+    const { items, pagination } = buildCursorPage(rows, limit, encodeTimeCursor);
+
+    const counts = { PENDING: 0, REWARDED: 0, REJECTED: 0, EXPIRED: 0 };
+    for (const row of statusCounts) {
+      counts[row.status] = row._count._all;
+    }
+
+    res.json({
+      success: true,
+      code,
+      rules: getReferralProgramRules(),
+      stats: {
+        invited: counts.PENDING + counts.REWARDED + counts.REJECTED + counts.EXPIRED,
+        pending: counts.PENDING,
+        rewarded: counts.REWARDED,
+        rejected: counts.REJECTED,
+        expired: counts.EXPIRED,
+        earnedPointsRaw: (earned._sum.pointsRaw ?? BigInt(0)).toString(),
+      },
+      invites: items.map((referral) => ({
+        id: referral.id,
+        referee: referral.referee,
+        status: referral.status,
+        rejectReason: referral.rejectReason,
+        qualifiedBy: referral.qualifiedBy,
+        rewardedAt: referral.rewardedAt,
+        createdAt: referral.createdAt,
+      })),
+      pagination,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to load referrals' });
+  }
+});
+
+/**
+ * GET /api/rewards/streak
+ * The caller's daily login streak, held streak freezes and the reward schedule.
+ */
+router.get('/streak', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const streak = await getLoginStreakStatus(userId);
+    res.json({ success: true, ...streak });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to load streak' });
+  }
+});
+
+/**
+ * GET /api/rewards/badges
+ * Every badge with whether the caller has earned it.
+ */
+router.get('/badges', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const earned = new Map((await getUserBadges(userId)).map((badge) => [badge.badge, badge.awardedAt]));
+    res.json({
+      success: true,
+      badges: BADGE_KEYS.map((badge) => ({
+        badge,
+        title: BADGE_DEFINITIONS[badge].title,
+        description: BADGE_DEFINITIONS[badge].description,
+        earned: earned.has(badge),
+        awardedAt: earned.get(badge) ?? null,
+      })),
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to load badges' });
+  }
+});
+
 export default router;
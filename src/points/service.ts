@@ -1,4 +1,10 @@
 import { Prisma, PrismaClient, PointLedgerType } from '@prisma/client';
+import {
+  DEFAULT_TIMEZONE,
+  getZonedDayKey,
+  getZonedDayStart,
+  resolveUserTimeZone,
+} from '../utils/timezone';
 
 type TxClient = Prisma.TransactionClient | PrismaClient;
 
@@ -25,18 +31,124 @@ export const FIRST_ROLLEY_STAKE_POINTS_RAW = parseBigIntEnv(
   BigInt(75)
 );
 export const PCA_VOTE_POINTS_RAW = parseBigIntEnv(process.env.BANTER_POINTS_PCA_VOTE_RAW, BigInt(5));
+export const REFERRAL_REFERRER_POINTS_RAW = parseBigIntEnv(
+  process.env.BANTER_POINTS_REFERRAL_REFERRER_RAW,
+  BigInt(100)
+);
+export const REFERRAL_REFEREE_POINTS_RAW = parseBigIntEnv(
+  process.env.BANTER_POINTS_REFERRAL_REFEREE_RAW,
+  BigInt(50)
+);
+
+type StreakTier = { minStreak: number; pointsRaw: bigint };
+
+// `days:pointsRaw` pairs; day 1 always pays DAILY_BANTER_POINTS_RAW.
+const parseStreakSchedule = (value: string | undefined): StreakTier[] => {
+  const tiers = (value || '3:15,7:25,14:40,30:60').split(',').flatMap((entry) => {
+    const [days, points] = entry.split(':').map((part) => part.trim());
+    const minStreak = Number.parseInt(days, 10);
+    if (!Number.isFinite(minStreak) || minStreak <= 1 || !points) return [];
+    try {
+      const pointsRaw = BigInt(points);
+      return pointsRaw >= BigInt(0) ? [{ minStreak, pointsRaw }] : [];
+    } catch {
+      return [];
+    }
+  });
+  return [{ minStreak: 1, pointsRaw: DAILY_BANTER_POINTS_RAW }, ...tiers].sort(
+    (left, right) => left.minStreak - right.minStreak
+  );
+};
+
+export const LOGIN_STREAK_SCHEDULE = parseStreakSchedule(process.env.BANTER_POINTS_STREAK_SCHEDULE);
+export const STREAK_FREEZE_EARN_EVERY_DAYS = Math.max(
+  0,
+  Number.parseInt(process.env.STREAK_FREEZE_EARN_EVERY_DAYS || '7', 10)
+);
+export const STREAK_FREEZE_MAX = Math.max(0, Number.parseInt(process.env.STREAK_FREEZE_MAX || '2', 10));
+
+export const getStreakRewardRaw = (streak: number) => {
+  let pointsRaw = LOGIN_STREAK_SCHEDULE[0].pointsRaw;
+  for (const tier of LOGIN_STREAK_SCHEDULE) {
+    if (streak >= tier.minStreak) pointsRaw = tier.pointsRaw;
+  }
+  return pointsRaw;
+};
+
+/**
+ * Whole days from one `YYYY-MM-DD` key to another.
+ */
+export const getDayKeyGap = (from: string, to: string) => {
+  const toUtcDays = (dayKey: string) => {
+    const [year, month, day] = dayKey.split('-').map(Number);
+    return Date.UTC(year, month - 1, day) / (24 * 60 * 60 * 1000);
+  };
+  return Math.round(toUtcDays(to) - toUtcDays(from));
+};
+
+export type LoginStreakState = {
+  streak: number;
+  longest: number;
+  freezes: number;
+  lastDayKey: string | null;
+};
+
+/**
+ * Advance a streak to a claim on `dayKey`. Missed days are bridged by spending that many
+ * freezes when the user holds enough; otherwise the streak restarts at 1. Every
+ * STREAK_FREEZE_EARN_EVERY_DAYS consecutive days earns a freeze, up to STREAK_FREEZE_MAX held.
+ * Rebuilding from the ledger replays the same function, so both always agree.
+ */
+export const advanceLoginStreak = (state: LoginStreakState, dayKey: string) => {
+  let streak = 1;
+  let freezes = state.freezes;
+  let freezesUsed = 0;
+  if (state.lastDayKey && state.streak > 0) {
+    const missed = getDayKeyGap(state.lastDayKey, dayKey) - 1;
+    if (missed <= 0) {
+      streak = state.streak + 1;
+    } else if (missed <= freezes) {
+      streak = state.streak + 1;
+      freezes -= missed;
+      freezesUsed = missed;
+    }
+  }
+
+  const freezeEarned =
+    STREAK_FREEZE_EARN_EVERY_DAYS > 0 &&
+    streak % STREAK_FREEZE_EARN_EVERY_DAYS === 0 &&
+    freezes < STREAK_FREEZE_MAX;
+  if (freezeEarned) freezes += 1;
+
+  return {
+    streak,
+    longest: Math.max(state.longest, streak),
+    freezes,
+    lastDayKey: dayKey,
+    freezesUsed,
+    freezeEarned,
+  };
+};
 
-export const getLocalDayStart = (date: Date) =>
-  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+/**
+ * Day boundaries in `timeZone`; without one, the deployment default rather than wherever the
+ * server happens to run.
+ */
+export const getLocalDayStart = (date: Date, timeZone = DEFAULT_TIMEZONE) =>
+  getZonedDayStart(date, timeZone);
 
-export const getLocalDayKey = (date: Date) => {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
+export const getLocalDayKey = (date: Date, timeZone = DEFAULT_TIMEZONE) =>
+  getZonedDayKey(date, timeZone);
+
+export const getUserTimeZone = async (tx: TxClient, userId: string) => {
+  const user = await tx.user.findUnique({
+    where: { id: userId },
+    select: { timezone: true, country: true },
+  });
+  return resolveUserTimeZone(user || {});
 };
 
-const awardPointsOnce = async (
+export const awardPointsOnce = async (
   tx: TxClient,
   input: {
     userId: string;
@@ -98,39 +210,81 @@ const awardPointsOnce = async (
   };
 };
 
+/**
+ * Daily login points, one claim per day in the user's timezone. A user without a stored
+ * timezone gets the one derived from their country pinned on first claim, so editing country
+ * later cannot move their day. Every new local day is claimable however soon it follows the last
+ * claim; TIMEZONE_CHANGE_COOLDOWN_DAYS bounds how often a timezone change can shorten a day. The
+ * amount follows LOGIN_STREAK_SCHEDULE for the streak the claim extends.
+ */
 export const awardDailyLoginPoints = async (
   tx: TxClient,
   userId: string,
   now: Date
 ) => {
-  const localDayStart = getLocalDayStart(now);
-  const dayKey = getLocalDayKey(now);
-  const reference = `daily_points:${userId}:${dayKey}`;
-
-  const rewardUpdate = await tx.user.updateMany({
-    where: {
-      id: userId,
-      OR: [{ lastDailyPointsAt: null }, { lastDailyPointsAt: { lt: localDayStart } }],
-    },
-    data: {
-      lastDailyPointsAt: now,
-      banterPointsRaw: {
-        increment: DAILY_BANTER_POINTS_RAW,
-      },
+  const user = await tx.user.findUnique({
+    where: { id: userId },
+    select: {
+      timezone: true,
+      country: true,
+      lastDailyPointsDayKey: true,
+      loginStreak: true,
+      longestLoginStreak: true,
+      streakFreezes: true,
     },
   });
+  const timeZone = resolveUserTimeZone(user || {});
+  const localDayStart = getLocalDayStart(now, timeZone);
+  const dayKey = getLocalDayKey(now, timeZone);
+  const reference = `daily_points:${userId}:${dayKey}`;
+  const lastDayKey = user?.lastDailyPointsDayKey ?? null;
+  const next = advanceLoginStreak(
+    {
+      streak: user?.loginStreak ?? 0,
+      longest: user?.longestLoginStreak ?? 0,
+      freezes: user?.streakFreezes ?? 0,
+      lastDayKey,
+    },
+    dayKey
+  );
+  const pointsRaw = getStreakRewardRaw(next.streak);
+
+  // Matching on the day key read above makes the claim a compare-and-swap, so the streak written
+  // is always the one computed from the state it replaces.
+  const claimable = Boolean(user) && (!lastDayKey || lastDayKey < dayKey);
+  const rewardUpdate = claimable
+    ? await tx.user.updateMany({
+        where: { id: userId, lastDailyPointsDayKey: lastDayKey },
+        data: {
+          lastDailyPointsAt: now,
+          lastDailyPointsDayKey: dayKey,
+          timezone: user?.timezone ? undefined : timeZone,
+          loginStreak: next.streak,
+          longestLoginStreak: next.longest,
+          streakFreezes: next.freezes,
+          banterPointsRaw: {
+            increment: pointsRaw,
+          },
+        },
+      })
+    : { count: 0 };
+  const awarded = rewardUpdate.count > 0;
 
-  if (rewardUpdate.count > 0) {
+  if (awarded) {
     try {
       await tx.pointLedger.create({
         data: {
           userId,
           type: 'LOGIN',
-          pointsRaw: DAILY_BANTER_POINTS_RAW,
+          pointsRaw,
           reference,
           metadata: {
             source: 'auth',
             dayKey,
+            timeZone,
+            streak: next.streak,
+            freezesUsed: next.freezesUsed,
+            freezeEarned: next.freezeEarned,
           },
         },
       });
@@ -142,11 +296,16 @@ export const awardDailyLoginPoints = async (
   }
 
   return {
-    awarded: rewardUpdate.count > 0,
+    awarded,
     localDayStart,
     dayKey,
+    timeZone,
     reference,
-    pointsRaw: DAILY_BANTER_POINTS_RAW,
+    pointsRaw,
+    streak: awarded ? next.streak : user?.loginStreak ?? 0,
+    longestStreak: awarded ? next.longest : user?.longestLoginStreak ?? 0,
+    streakFreezes: awarded ? next.freezes : user?.streakFreezes ?? 0,
+    freezesUsed: awarded ? next.freezesUsed : 0,
   };
 };
 
@@ -210,7 +369,7 @@ export const awardPcaVotePoints = async (
     now: Date;
   }
 ): Promise<AwardResult> => {
-  const dayKey = getLocalDayKey(input.now);
+  const dayKey = getLocalDayKey(input.now, await getUserTimeZone(tx, input.userId));
   return awardPointsOnce(tx, {
     userId: input.userId,
     type: 'PCA',
@@ -227,5 +386,34 @@ export const awardPcaVotePoints = async (
   });
 };
 
+export const awardReferralPoints = async (
+  tx: TxClient,
+  input: { referralId: string; referrerId: string; refereeId: string; qualifiedBy: string }
+) => {
+  const metadata = {
+    rewardType: 'REFERRAL',
+    referralId: input.referralId,
+    qualifiedBy: input.qualifiedBy,
+  };
+  const referrer = await awardPointsOnce(tx, {
+    userId: input.referrerId,
+    type: 'REFERRAL',
+    pointsRaw: REFERRAL_REFERRER_POINTS_RAW,
+    reference: `referral:${input.referralId}:referrer`,
+    metadata: { ...metadata, role: 'REFERRER', refereeId: input.refereeId },
+  });
+  const referee =
+    REFERRAL_REFEREE_POINTS_RAW > BigInt(0)
+      ? await awardPointsOnce(tx, {
+          userId: input.refereeId,
+          type: 'REFERRAL',
+          pointsRaw: REFERRAL_REFEREE_POINTS_RAW,
+          reference: `referral:${input.referralId}:referee`,
+          metadata: { ...metadata, role: 'REFEREE', referrerId: input.referrerId },
+        })
+      : null;
+  return { referrer, referee };
+};
+
 export const getRolleyServiceBaseUrl = () =>
   (process.env.ROLLEY_SERVICE_URL || 'https://sportbanter.online/rolley').replace(/\/+$/, '');
@@ -0,0 +1,175 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandler';
+import { resolveUserTimeZone } from '../utils/timezone';
+import {
+  LOGIN_STREAK_SCHEDULE,
+  LoginStreakState,
+  STREAK_FREEZE_EARN_EVERY_DAYS,
+  STREAK_FREEZE_MAX,
+  advanceLoginStreak,
+  getDayKeyGap,
+  getLocalDayKey,
+  getStreakRewardRaw,
+} from './service';
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type LoginLedgerRow = { reference: string; metadata: Prisma.JsonValue };
+
+const getLoginRowDay = (row: LoginLedgerRow) => {
+  const metadata = (row.metadata || {}) as Record<string, unknown>;
+  const dayKey = typeof metadata.dayKey === 'string' ? metadata.dayKey : row.reference.split(':')[2];
+  return { dayKey, legacy: typeof metadata.streak !== 'number' };
+};
+
+/**
+ * Replay LOGIN ledger rows into streak state. Rows written before streaks existed carry no
+ * `streak` metadata and count as plain consecutive days, as the streak migration seeded them.
+ */
+export const deriveLoginStreak = (rows: LoginLedgerRow[]): LoginStreakState => {
+  const days = rows
+    .map(getLoginRowDay)
+    .filter((day) => DAY_KEY_PATTERN.test(day.dayKey))
+    .sort((left, right) => left.dayKey.localeCompare(right.dayKey));
+
+  let state: LoginStreakState = { streak: 0, longest: 0, freezes: 0, lastDayKey: null };
+  for (const day of days) {
+    if (day.dayKey === state.lastDayKey) continue;
+    if (day.legacy) {
+      const streak =
+        state.lastDayKey && getDayKeyGap(state.lastDayKey, day.dayKey) === 1 ? state.streak + 1 : 1;
+      state = { ...state, streak, longest: Math.max(state.longest, streak), lastDayKey: day.dayKey };
+    } else {
+      const next = advanceLoginStreak(state, day.dayKey);
+      state = {
+        streak: next.streak,
+        longest: next.longest,
+        freezes: next.freezes,
+        lastDayKey: next.lastDayKey,
+      };
+    }
+  }
+  return state;
+};
+
+const loadLoginRows = (tx: Prisma.TransactionClient | typeof prisma, userId: string) =>
+  tx.pointLedger.findMany({
+    where: { userId, type: 'LOGIN', reference: { startsWith: 'daily_points:' } },
+    select: { reference: true, metadata: true },
+  });
+
+/**
+ * Compare the streak columns on User with the streak replayed from PointLedger.
+ */
+export async function getLoginStreakDrift(userId: string) {
+  const [user, rows] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { loginStreak: true, longestLoginStreak: true, streakFreezes: true },
+    }),
+    loadLoginRows(prisma, userId),
+  ]);
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  const derived = deriveLoginStreak(rows);
+  return {
+    stored: {
+      streak: user.loginStreak,
+      longest: user.longestLoginStreak,
+      freezes: user.streakFreezes,
+    },
+    derived: { streak: derived.streak, longest: derived.longest, freezes: derived.freezes },
+    mismatch:
+      user.loginStreak !== derived.streak ||
+      user.longestLoginStreak !== derived.longest ||
+      user.streakFreezes !== derived.freezes,
+  };
+}
+
+/**
+ * Overwrite the streak columns with the state replayed from PointLedger. The user row is
+ * locked so a concurrent daily claim cannot interleave with the rebuild.
+ */
+export async function rebuildLoginStreak(userId: string) {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT id FROM "User" WHERE id = ${userId} FOR UPDATE`;
+    const before = await tx.user.findUnique({
+      where: { id: userId },
+      select: { loginStreak: true, longestLoginStreak: true, streakFreezes: true },
+    });
+    if (!before) {
+      throw new AppError('User not found', 404);
+    }
+
+    const derived = deriveLoginStreak(await loadLoginRows(tx, userId));
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        loginStreak: derived.streak,
+        longestLoginStreak: derived.longest,
+        streakFreezes: derived.freezes,
+      },
+    });
+
+    const changed =
+      before.loginStreak !== derived.streak ||
+      before.longestLoginStreak !== derived.longest ||
+      before.streakFreezes !== derived.freezes;
+    if (changed) {
+      logger.warn('Login streak rebuilt from ledger', { userId, before, derived });
+    }
+    return { derived, changed };
+  });
+}
+
+/**
+ * The streak as the user should see it today. A streak whose missed days exceed the held
+ * freezes is shown as 0, since the next claim will restart it.
+ */
+export async function getLoginStreakStatus(userId: string, now = new Date()) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      timezone: true,
+      country: true,
+      lastDailyPointsDayKey: true,
+      loginStreak: true,
+      longestLoginStreak: true,
+      streakFreezes: true,
+    },
+  });
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  const timeZone = resolveUserTimeZone(user);
+  const todayKey = getLocalDayKey(now, timeZone);
+  const lastDayKey = user.lastDailyPointsDayKey;
+  const claimedToday = Boolean(lastDayKey && lastDayKey >= todayKey);
+  const missedDays = lastDayKey && !claimedToday ? getDayKeyGap(lastDayKey, todayKey) - 1 : 0;
+  const alive = user.loginStreak > 0 && Boolean(lastDayKey) && missedDays <= user.streakFreezes;
+  const currentStreak = alive ? user.loginStreak : 0;
+
+  return {
+    currentStreak,
+    longestStreak: user.longestLoginStreak,
+    streakFreezes: user.streakFreezes,
+    claimedToday,
+    missedDays: alive ? missedDays : 0,
+    lastClaimDayKey: lastDayKey,
+    timeZone,
+    nextRewardRaw: getStreakRewardRaw(currentStreak + 1).toString(),
+    rules: {
+      schedule: LOGIN_STREAK_SCHEDULE.map((tier) => ({
+        minStreak: tier.minStreak,
+        pointsRaw: tier.pointsRaw.toString(),
+      })),
+      freezeEarnEveryDays: STREAK_FREEZE_EARN_EVERY_DAYS,
+      freezeMax: STREAK_FREEZE_MAX,
+    },
+  };
+}
@@ -0,0 +1,134 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+
+// Accounts with more followers than this are pulled at read time instead of pushed on write.
+export const FOLLOWING_FEED_FANOUT_MAX_FOLLOWERS = Math.max(
+  0,
+  Number.parseInt(process.env.FOLLOWING_FEED_FANOUT_MAX_FOLLOWERS || '5000', 10)
+);
+const FOLLOWING_FEED_FANOUT_BATCH_SIZE = 1000;
+const FOLLOWING_FEED_BACKFILL_LIMIT = 200;
+
+const isHighFanoutAccount = (followerCount: number) =>
+  followerCount > FOLLOWING_FEED_FANOUT_MAX_FOLLOWERS;
+
+/**
+ * Push a newly created banter or repost into the following feed of every follower.
+ * Skipped for high-follower accounts, whose posts are merged in at read time instead.
+ */
+export async function fanOutPostToFollowers(post: { id: string; userId: string; createdAt: Date }) {
+  const author = await prisma.user.findUnique({
+    where: { id: post.userId },
+    select: { followerCount: true },
+  });
+  if (!author || isHighFanoutAccount(author.followerCount)) {
+    return { fannedOut: 0, skipped: true };
+  }
+
+  let fannedOut = 0;
+  let cursorId: string | undefined;
+  do {
+    const followers = await prisma.follow.findMany({
+      where: { followingId: post.userId },
+      select: { id: true, followerId: true },
+      orderBy: { id: 'asc' },
+      take: FOLLOWING_FEED_FANOUT_BATCH_SIZE,
+      ...(cursorId ? { cursor: { id: cursorId }, skip: 1 } : {}),
+    });
+    if (!followers.length) break;
+
+    const created = await prisma.feedEntry.createMany({
+      data: followers.map((follow) => ({
+        userId: follow.followerId,
+        postId: post.id,
+        authorId: post.userId,
+        createdAt: post.createdAt,
+      })),
+      skipDuplicates: true,
+    });
+    fannedOut += created.count;
+
+    cursorId =
+      followers.length === FOLLOWING_FEED_FANOUT_BATCH_SIZE
+        ? followers[followers.length - 1].id
+        : undefined;
+  } while (cursorId);
+
+  return { fannedOut, skipped: false };
+}
+
+/**
+ * Fire-and-forget variant used by request handlers; fan-out never fails post creation.
+ */
+export function scheduleFanOut(post: { id: string; userId: string; createdAt: Date }) {
+  void fanOutPostToFollowers(post).catch((error) => {
+    logger.warn('Following feed fan-out failed', { postId: post.id, userId: post.userId, error });
+  });
+}
+
+/**
+ * Seed a new follower's feed with the followed account's currently live banters.
+ */
+export async function backfillFollowingFeed(followerId: string, followingId: string) {
+  const target = await prisma.user.findUnique({
+    where: { id: followingId },
+    select: { followerCount: true },
+  });
+  if (!target || isHighFanoutAccount(target.followerCount)) {
+    return 0;
+  }
+
+  const posts = await prisma.post.findMany({
+    where: {
+      userId: followingId,
+      status: 'ACTIVE',
+      isRoast: true,
+      expiresAt: { gt: new Date() },
+    },
+    select: { id: true, createdAt: true },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: FOLLOWING_FEED_BACKFILL_LIMIT,
+  });
+  if (!posts.length) return 0;
+
+  const created = await prisma.feedEntry.createMany({
+    data: posts.map((post) => ({
+      userId: followerId,
+      postId: post.id,
+      authorId: followingId,
+      createdAt: post.createdAt,
+    })),
+    skipDuplicates: true,
+  });
+  return created.count;
+}
+
+export async function removeFromFollowingFeed(followerId: string, followingId: string) {
+  const removed = await prisma.feedEntry.deleteMany({
+    where: { userId: followerId, authorId: followingId },
+  });
+  return removed.count;
+}
+
+/**
+ * Post filter for the viewer's following feed: fanned-out entries plus a direct
+ * read of posts by any followed high-follower accounts.
+ */
+export async function buildFollowingFeedWhere(viewerId: string): Promise<Prisma.PostWhereInput> {
+  const highFanoutFollows = await prisma.follow.findMany({
+    where: {
+      followerId: viewerId,
+      following: { followerCount: { gt: FOLLOWING_FEED_FANOUT_MAX_FOLLOWERS } },
+    },
+    select: { followingId: true },
+  });
+  const pulledAuthorIds = highFanoutFollows.map((follow) => follow.followingId);
+
+  return {
+    OR: [
+      { feedEntries: { some: { userId: viewerId } } },
+      ...(pulledAuthorIds.length ? [{ userId: { in: pulledAuthorIds } }] : []),
+    ],
+  };
+}
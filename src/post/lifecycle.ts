@@ -0,0 +1,268 @@
+import { LifecyclePolicy, Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError } from '../utils/errorHandler';
+
+export type LifecycleRules = {
+  cycleHours: number;
+  minTotalVotes: number;
+  survivalMarginPct: number;
+  rewardRaw: bigint;
+  rewardEveryCycles: number;
+};
+
+type LifecycleRulesPatch = Partial<LifecycleRules>;
+
+// Mirrors the constants the worker used before policies were persisted.
+export const DEFAULT_LIFECYCLE_RULES: LifecycleRules = {
+  cycleHours: 24,
+  minTotalVotes: 0,
+  survivalMarginPct: 0,
+  rewardRaw: BigInt(10000), // 0.0001 ROL with 8 decimals
+  rewardEveryCycles: 7,
+};
+
+const ROL_DECIMALS = 8;
+const MAX_CYCLE_HOURS = 24 * 30;
+const ACTIVE_POLICY_CACHE_TTL_MS = 30_000;
+
+let activePolicyCache: { policy: LifecyclePolicy; expiresAt: number } | null = null;
+
+const toNonNegativeInt = (value: unknown, field: string, max = Number.MAX_SAFE_INTEGER) => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > max) {
+    throw new AppError(`${field} must be a number between 0 and ${max}`, 400);
+  }
+  return Math.floor(parsed);
+};
+
+const toRewardRaw = (value: unknown) => {
+  try {
+    const parsed = BigInt(String(value));
+    if (parsed < BigInt(0)) throw new Error('negative');
+    return parsed;
+  } catch {
+    throw new AppError('rewardRaw must be a non-negative integer string', 400);
+  }
+};
+
+/**
+ * Validate a partial rules object from an admin request or a stored league override.
+ * Unknown keys are ignored; present keys must be valid.
+ */
+export const parseLifecycleRulesPatch = (input: unknown): LifecycleRulesPatch => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return {};
+  const body = input as Record<string, unknown>;
+  const patch: LifecycleRulesPatch = {};
+
+  if (body.cycleHours !== undefined) {
+    patch.cycleHours = toNonNegativeInt(body.cycleHours, 'cycleHours', MAX_CYCLE_HOURS);
+    if (patch.cycleHours < 1) {
+      throw new AppError('cycleHours must be at least 1', 400);
+    }
+  }
+  if (body.minTotalVotes !== undefined) {
+    patch.minTotalVotes = toNonNegativeInt(body.minTotalVotes, 'minTotalVotes');
+  }
+  if (body.survivalMarginPct !== undefined) {
+    const margin = Number(body.survivalMarginPct);
+    if (!Number.isFinite(margin) || margin < 0 || margin >= 100) {
+      throw new AppError('survivalMarginPct must be between 0 and 100', 400);
+    }
+    patch.survivalMarginPct = margin;
+  }
+  if (body.rewardRaw !== undefined) {
+    patch.rewardRaw = toRewardRaw(body.rewardRaw);
+  }
+  if (body.rewardEveryCycles !== undefined) {
+    patch.rewardEveryCycles = toNonNegativeInt(body.rewardEveryCycles, 'rewardEveryCycles');
+  }
+  return patch;
+};
+
+/**
+ * Validate `{ [league]: partial rules }` and return it in its stored JSON shape.
+ */
+export const parseLeagueOverrides = (input: unknown): Prisma.InputJsonObject => {
+  if (input === null || input === undefined) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new AppError('leagueOverrides must be an object keyed by league name', 400);
+  }
+
+  const overrides: Record<string, Prisma.InputJsonObject> = {};
+  for (const [league, rules] of Object.entries(input as Record<string, unknown>)) {
+    const name = league.trim();
+    if (!name) continue;
+    const patch = parseLifecycleRulesPatch(rules);
+    overrides[name] = serializeRulesPatch(patch);
+  }
+  return overrides;
+};
+
+const serializeRulesPatch = (patch: LifecycleRulesPatch): Prisma.InputJsonObject => ({
+  ...(patch.cycleHours !== undefined ? { cycleHours: patch.cycleHours } : {}),
+  ...(patch.minTotalVotes !== undefined ? { minTotalVotes: patch.minTotalVotes } : {}),
+  ...(patch.survivalMarginPct !== undefined ? { survivalMarginPct: patch.survivalMarginPct } : {}),
+  ...(patch.rewardRaw !== undefined ? { rewardRaw: patch.rewardRaw.toString() } : {}),
+  ...(patch.rewardEveryCycles !== undefined ? { rewardEveryCycles: patch.rewardEveryCycles } : {}),
+});
+
+const getLeagueOverride = (policy: LifecyclePolicy, league?: string | null): LifecycleRulesPatch => {
+  if (!league) return {};
+  const overrides = policy.leagueOverrides as Record<string, unknown> | null;
+  if (!overrides || typeof overrides !== 'object') return {};
+  try {
+    return parseLifecycleRulesPatch(overrides[league]);
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Effective rules for a post: the policy's base rules with the post's league override applied.
+ * Posts without a pinned policy fall back to the defaults.
+ */
+export const resolveLifecycleRules = (
+  policy: LifecyclePolicy | null,
+  league?: string | null
+): LifecycleRules => {
+  if (!policy) return DEFAULT_LIFECYCLE_RULES;
+  return {
+    cycleHours: policy.cycleHours,
+    minTotalVotes: policy.minTotalVotes,
+    survivalMarginPct: policy.survivalMarginPct,
+    rewardRaw: policy.rewardRaw,
+    rewardEveryCycles: policy.rewardEveryCycles,
+    ...getLeagueOverride(policy, league),
+  };
+};
+
+export const getCycleEnd = (from: Date, rules: LifecycleRules) =>
+  new Date(from.getTime() + rules.cycleHours * 60 * 60 * 1000);
+
+/**
+ * A banter survives a cycle when turnout reaches `minTotalVotes` and the stay share beats
+ * the drop share by more than `survivalMarginPct` points. With the default rules this is
+ * exactly `stayVotes > dropVotes`.
+ */
+export const evaluateSurvival = (
+  rules: LifecycleRules,
+  votes: { stayVotes: number; dropVotes: number }
+) => {
+  const totalVotes = votes.stayVotes + votes.dropVotes;
+  if (totalVotes === 0 || totalVotes < rules.minTotalVotes) {
+    return { survives: false, reason: 'insufficient_turnout' as const, totalVotes };
+  }
+  const marginPct = ((votes.stayVotes - votes.dropVotes) / totalVotes) * 100;
+  if (marginPct <= rules.survivalMarginPct) {
+    return { survives: false, reason: 'drop_votes_deleted' as const, totalVotes };
+  }
+  return { survives: true, reason: 'stay_votes_exceeded' as const, totalVotes };
+};
+
+export const formatRolAmount = (raw: bigint) =>
+  (Number(raw) / 10 ** ROL_DECIMALS).toLocaleString(undefined, {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: ROL_DECIMALS,
+  });
+
+export const serializeLifecyclePolicy = (policy: LifecyclePolicy) => ({
+  ...policy,
+  rewardRaw: policy.rewardRaw.toString(),
+});
+
+/**
+ * Currently active policy, created from the defaults on first use.
+ * Cached briefly because every banter creation reads it.
+ */
+export async function getActiveLifecyclePolicy() {
+  if (activePolicyCache && activePolicyCache.expiresAt > Date.now()) {
+    return activePolicyCache.policy;
+  }
+
+  let policy = await prisma.lifecyclePolicy.findFirst({
+    where: { isActive: true },
+    orderBy: { version: 'desc' },
+  });
+  if (!policy) {
+    try {
+      policy = await createLifecyclePolicyVersion({ note: 'Default policy' });
+    } catch (error) {
+      // A concurrent first caller created v1 already; use theirs.
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+      policy = await prisma.lifecyclePolicy.findFirstOrThrow({
+        where: { isActive: true },
+        orderBy: { version: 'desc' },
+      });
+    }
+  }
+
+  activePolicyCache = { policy, expiresAt: Date.now() + ACTIVE_POLICY_CACHE_TTL_MS };
+  return policy;
+}
+
+/**
+ * Create and activate a new policy version. Unspecified fields are carried over from the
+ * currently active version so admins can change one rule at a time.
+ */
+export async function createLifecyclePolicyVersion(input: {
+  rules?: LifecycleRulesPatch;
+  leagueOverrides?: Prisma.InputJsonObject;
+  note?: string | null;
+  createdBy?: string | null;
+}) {
+  const created = await prisma.$transaction(async (tx) => {
+    const [current, latest] = await Promise.all([
+      tx.lifecyclePolicy.findFirst({ where: { isActive: true }, orderBy: { version: 'desc' } }),
+      tx.lifecyclePolicy.findFirst({ orderBy: { version: 'desc' }, select: { version: true } }),
+    ]);
+    const base = current ? resolveLifecycleRules(current) : DEFAULT_LIFECYCLE_RULES;
+    const rules = { ...base, ...(input.rules || {}) };
+
+    await tx.lifecyclePolicy.updateMany({
+      where: { isActive: true },
+      data: { isActive: false },
+    });
+
+    return tx.lifecyclePolicy.create({
+      data: {
+        version: (latest?.version || 0) + 1,
+        cycleHours: rules.cycleHours,
+        minTotalVotes: rules.minTotalVotes,
+        survivalMarginPct: rules.survivalMarginPct,
+        rewardRaw: rules.rewardRaw,
+        rewardEveryCycles: rules.rewardEveryCycles,
+        leagueOverrides:
+          input.leagueOverrides ?? ((current?.leagueOverrides as Prisma.InputJsonObject | null) || {}),
+        isActive: true,
+        note: input.note || null,
+        createdBy: input.createdBy || null,
+      },
+    });
+  });
+  activePolicyCache = null;
+  return created;
+}
+
+/**
+ * Re-activate an earlier version (rollback). Posts keep the version they were created under.
+ */
+export async function activateLifecyclePolicyVersion(version: number) {
+  const policy = await prisma.$transaction(async (tx) => {
+    const target = await tx.lifecyclePolicy.findUnique({ where: { version } });
+    if (!target) {
+      throw new AppError('Lifecycle policy version not found', 404);
+    }
+    await tx.lifecyclePolicy.updateMany({
+      where: { isActive: true, NOT: { id: target.id } },
+      data: { isActive: false },
+    });
+    return tx.lifecyclePolicy.update({
+      where: { id: target.id },
+      data: { isActive: true },
+    });
+  });
+  activePolicyCache = null;
+  return policy;
+}
@@ -0,0 +1,109 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+
+type TxClient = Prisma.TransactionClient | PrismaClient;
+
+type HotScoreInput = {
+  stayVotes: number;
+  dropVotes: number;
+  reactionCount: number;
+  commentCount: number;
+  repostCount: number;
+  shareCount: number;
+  expiresAt: Date;
+};
+
+const parseFloatEnv = (value: string | undefined, fallback: number, min: number) => {
+  const parsed = Number.parseFloat((value || '').trim());
+  if (!Number.isFinite(parsed)) return fallback;
+  return Math.max(min, parsed);
+};
+
+// Every HOT_FEED_DECAY_SECONDS of expiresAt is worth one order of magnitude of engagement.
+export const HOT_FEED_DECAY_SECONDS = parseFloatEnv(process.env.HOT_FEED_DECAY_SECONDS, 45_000, 60);
+const HOT_FEED_EPOCH_SECONDS = Date.UTC(2026, 0, 1) / 1000;
+
+const HOT_FEED_WEIGHTS = {
+  stayVote: parseFloatEnv(process.env.HOT_FEED_WEIGHT_STAY, 1, 0),
+  dropVote: parseFloatEnv(process.env.HOT_FEED_WEIGHT_DROP, 0.5, 0),
+  reaction: parseFloatEnv(process.env.HOT_FEED_WEIGHT_REACTION, 1, 0),
+  comment: parseFloatEnv(process.env.HOT_FEED_WEIGHT_COMMENT, 2, 0),
+  repost: parseFloatEnv(process.env.HOT_FEED_WEIGHT_REPOST, 3, 0),
+  share: parseFloatEnv(process.env.HOT_FEED_WEIGHT_SHARE, 1.5, 0),
+};
+
+/**
+ * Reddit-style hot score: log-scaled engagement plus a time term anchored on expiresAt.
+ * Because decay is expressed as a bonus for later expiry rather than a penalty for age,
+ * the score never needs recomputing as time passes, only when engagement changes.
+ * Surviving a cycle pushes expiresAt forward, which lifts the banter back up the feed.
+ */
+export const computeHotScore = (input: HotScoreInput) => {
+  const engagement =
+    input.stayVotes * HOT_FEED_WEIGHTS.stayVote +
+    input.dropVotes * HOT_FEED_WEIGHTS.dropVote +
+    input.reactionCount * HOT_FEED_WEIGHTS.reaction +
+    input.commentCount * HOT_FEED_WEIGHTS.comment +
+    input.repostCount * HOT_FEED_WEIGHTS.repost +
+    input.shareCount * HOT_FEED_WEIGHTS.share;
+  const magnitude = Math.log10(Math.max(engagement, 1));
+  const timeTerm = (input.expiresAt.getTime() / 1000 - HOT_FEED_EPOCH_SECONDS) / HOT_FEED_DECAY_SECONDS;
+  return magnitude + timeTerm;
+};
+
+export const computeInitialHotScore = (expiresAt: Date) =>
+  computeHotScore({
+    stayVotes: 0,
+    dropVotes: 0,
+    reactionCount: 0,
+    commentCount: 0,
+    repostCount: 0,
+    shareCount: 0,
+    expiresAt,
+  });
+
+/**
+ * Recompute and persist the hot score for a post from its current counters.
+ * Ranking is best-effort: failures are logged and never fail the calling request.
+ */
+export async function refreshPostHotScore(postId: string, tx: TxClient = prisma) {
+  try {
+    const post = await tx.post.findUnique({
+      where: { id: postId },
+      select: {
+        stayVotes: true,
+        dropVotes: true,
+        shareCount: true,
+        repostCount: true,
+        expiresAt: true,
+        _count: {
+          select: {
+            comments: true,
+            reactions: true,
+          },
+        },
+      },
+    });
+    if (!post) return null;
+
+    const hotScore = computeHotScore({
+      stayVotes: post.stayVotes,
+      dropVotes: post.dropVotes,
+      reactionCount: post._count.reactions,
+      commentCount: post._count.comments,
+      repostCount: post.repostCount,
+      shareCount: post.shareCount,
+      expiresAt: post.expiresAt,
+    });
+
+    await tx.post.update({
+      where: { id: postId },
+      data: { hotScore },
+    });
+    return hotScore;
+  } catch (error) {
+    logger.warn('Failed to refresh post hot score', { postId, error });
+    return null;
+  }
+}
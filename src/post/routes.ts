@@ -1,10 +1,27 @@
 import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../index';
 import { logger } from '../utils/logger';
+import { publishRealtimeEvent } from '../websocket/events';
 import { AppError } from '../utils/errorHandler';
 import { addPostExpirationJob } from '../queue/postQueue';
 import { jwtAuthMiddleware } from '../auth/jwtMiddleware';
 import { hardDeletePost } from './service';
+import { computeInitialHotScore, refreshPostHotScore } from './ranking';
+import { buildFollowingFeedWhere, scheduleFanOut } from './feed';
+import { getActiveLifecyclePolicy, getCycleEnd, resolveLifecycleRules } from './lifecycle';
+import { queueReferralQualificationCheck } from '../points/referrals';
+import { awardPostCreatedPoints, queuePostPointsAward } from '../points/engine';
+import {
+  buildCursorPage,
+  buildScoreCursorWhere,
+  buildTimeCursorWhere,
+  decodeScoreCursor,
+  decodeTimeCursor,
+  encodeScoreCursor,
+  encodeTimeCursor,
+  parseCursorParams,
+} from '../utils/cursor';
 import { HeadObjectCommand, S3Client } from '@aws-sdk/client-s3';
 
 const router = Router();
@@ -180,9 +197,9 @@ router.post('/', async (req: Request, res: Response): Promise<Response | void> =
       throw new AppError('User not found', 404);
     }
 
-    // Banter-only mode: all created posts are banter and expire in 24 hours.
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 24);
+    // Banter-only mode: all created posts are banter and expire after one lifecycle cycle.
+    const lifecyclePolicy = await getActiveLifecyclePolicy();
+    const expiresAt = getCycleEnd(new Date(), resolveLifecycleRules(lifecyclePolicy, league || null));
 
     // Process tags - create or link tags
     const tagArray = Array.isArray(tags) ? tags : [];
@@ -225,6 +242,8 @@ router.post('/', async (req: Request, res: Response): Promise<Response | void> =
         league: league || null,
         expiresAt,
         status: 'ACTIVE',
+        hotScore: computeInitialHotScore(expiresAt),
+        lifecyclePolicyId: lifecyclePolicy.id,
         postTags: {
           create: tagIds.map(tagId => ({
             tagId,
@@ -253,6 +272,11 @@ router.post('/', async (req: Request, res: Response): Promise<Response | void> =
     if (post.isRoast) {
       await addPostExpirationJob(post.id, expiresAt);
     }
+    scheduleFanOut(post);
+    queueReferralQualificationCheck(user.id);
+    queuePostPointsAward('post created', () =>
+      awardPostCreatedPoints({ userId: user.id, postId: post.id })
+    );
 
     logger.info(`Created post ${post.id} by user ${user.id}`);
 
@@ -269,6 +293,8 @@ router.post('/', async (req: Request, res: Response): Promise<Response | void> =
         league: post.league,
         stayVotes: post.stayVotes,
         dropVotes: post.dropVotes,
+        stayBoost: post.stayBoost,
+        dropBoost: post.dropBoost,
         shareCount: post.shareCount,
         repostCount: post.repostCount,
         status: post.status,
@@ -290,49 +316,40 @@ router.post('/', async (req: Request, res: Response): Promise<Response | void> =
 /**
  * GET /api/posts
  * Get posts with feed filtering (forYou, following, hot)
- * Query params: feed=forYou|following|hot, page, limit
+ * Query params: feed=forYou|following|hot, limit, cursor (nextCursor from the previous page)
  */
 router.get('/', async (req: Request, res: Response): Promise<Response | void> => {
   try {
     const userId = req.user?.userId;
     const requestedFeed = (req.query.feed as string) || 'hot';
     const feed = requestedFeed === 'forYou' ? 'hot' : requestedFeed;
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const skip = (page - 1) * limit;
+    const { limit, cursor } = parseCursorParams(req.query, { defaultLimit: 20, maxLimit: 50 });
+    const isHotFeed = feed === 'hot';
 
     // Banter-only mode: always return active, unexpired banter posts.
-    let whereClause: any = {
+    const whereClause: Prisma.PostWhereInput = {
       status: 'ACTIVE',
       isRoast: true,
       expiresAt: { gt: new Date() },
+      AND: [
+        isHotFeed
+          ? buildScoreCursorWhere(decodeScoreCursor(cursor), 'hotScore')
+          : buildTimeCursorWhere(decodeTimeCursor(cursor)),
+      ],
     };
 
+    // Following feed: banters authored or reposted by accounts the viewer follows.
     if (feed === 'following' && userId) {
-      whereClause.AND = [
-        {
-          OR: [
-            { votes: { some: { userId } } },
-            { comments: { some: { userId } } },
-            { reactions: { some: { userId } } },
-          ],
-        },
-      ];
+      (whereClause.AND as Prisma.PostWhereInput[]).push(await buildFollowingFeedWhere(userId));
     }
 
-    // Order by logic
-    let orderBy: any = { createdAt: 'desc' };
-    if (feed === 'hot') {
-      // Order by engagement (votes + reactions + comments)
-      // For now, use vote count as engagement metric
-      orderBy = [
-        { stayVotes: 'desc' },
-        { dropVotes: 'desc' },
-        { createdAt: 'desc' },
-      ];
-    }
+    // Order by logic. The id tie-breaker makes (sort key, id) a unique cursor position.
+    const orderBy: Prisma.PostOrderByWithRelationInput[] = isHotFeed
+      ? // hotScore is maintained on every vote/reaction/comment/repost/share, see ./ranking
+        [{ hotScore: 'desc' }, { id: 'desc' }]
+      : [{ createdAt: 'desc' }, { id: 'desc' }];
 
-    const posts = await prisma.post.findMany({
+    const pagePosts = await prisma.post.findMany({
       where: whereClause,
       include: {
         user: {
@@ -372,10 +389,15 @@ router.get('/', async (req: Request, res: Response): Promise<Response | void> =>
         },
       },
       orderBy,
-      skip,
-      take: limit,
+      take: limit + 1,
     });
 
+    const { items: posts, pagination } = buildCursorPage(pagePosts, limit, (post) =>
+      isHotFeed
+        ? encodeScoreCursor({ score: post.hotScore, id: post.id })
+        : encodeTimeCursor(post)
+    );
+
     const postIds = posts.map((p) => p.id);
     const userVotes = userId && postIds.length
       ? await prisma.vote.findMany({
@@ -417,10 +439,6 @@ router.get('/', async (req: Request, res: Response): Promise<Response | void> =>
       }
     }
 
-    const total = await prisma.post.count({
-      where: whereClause,
-    });
-
     res.json({
       success: true,
       posts: posts.map((post) => {
@@ -435,6 +453,8 @@ router.get('/', async (req: Request, res: Response): Promise<Response | void> =>
           league: post.league,
           stayVotes: post.stayVotes,
           dropVotes: post.dropVotes,
+          stayBoost: post.stayBoost,
+          dropBoost: post.dropBoost,
           shareCount: post.shareCount,
           repostCount: post.repostCount,
           status: post.status,
@@ -450,12 +470,7 @@ router.get('/', async (req: Request, res: Response): Promise<Response | void> =>
           repostOf: post.repostOf,
         };
       }),
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
+      pagination,
     });
   } catch (error) {
     logger.error('Get posts error', { error });
@@ -579,6 +594,8 @@ router.get('/:id', async (req: Request, res: Response): Promise<Response | void>
         league: post.league,
         stayVotes: post.stayVotes,
         dropVotes: post.dropVotes,
+        stayBoost: post.stayBoost,
+        dropBoost: post.dropBoost,
         shareCount: post.shareCount,
         repostCount: post.repostCount,
         status: post.status,
@@ -698,6 +715,8 @@ router.patch('/:id', jwtAuthMiddleware, async (req: Request, res: Response): Pro
         league: updated.league,
         stayVotes: updated.stayVotes,
         dropVotes: updated.dropVotes,
+        stayBoost: updated.stayBoost,
+        dropBoost: updated.dropBoost,
         shareCount: updated.shareCount,
         repostCount: updated.repostCount,
         status: updated.status,
@@ -756,19 +775,14 @@ router.delete('/:id', jwtAuthMiddleware, async (req: Request, res: Response): Pr
       return res.json({ success: true });
     }
 
-    const updated = await hardDeletePost(postId);
+    const updated = await hardDeletePost(postId, { refundBoostsReason: 'author_deleted' });
 
-    try {
-      const { getIO } = await import('../websocket/socket');
-      getIO().emit('post-hidden', { postId });
-      if (post.repostOfId && typeof updated.repostCount === 'number') {
-        getIO().emit('repost-update', {
-          postId: post.repostOfId,
-          repostCount: updated.repostCount,
-        });
-      }
-    } catch (error) {
-      logger.warn('WebSocket not available for post-hidden event', { error });
+    publishRealtimeEvent('post-hidden', { postId, league: post.league });
+    if (post.repostOfId && typeof updated.repostCount === 'number') {
+      publishRealtimeEvent('repost-update', {
+        postId: post.repostOfId,
+        repostCount: updated.repostCount,
+      });
     }
 
     return res.json({ success: true });
@@ -806,16 +820,12 @@ router.post('/:id/share', async (req: Request, res: Response): Promise<Response
         shareCount: { increment: 1 },
       },
     });
+    await refreshPostHotScore(postId);
 
-    try {
-      const { getIO } = await import('../websocket/socket');
-      getIO().emit('share-update', {
-        postId,
-        shareCount: updated.shareCount,
-      });
-    } catch (error) {
-      logger.warn('WebSocket not available for share-update event', { error });
-    }
+    publishRealtimeEvent('share-update', {
+      postId,
+      shareCount: updated.shareCount,
+    });
 
     res.json({
       success: true,
@@ -852,10 +862,12 @@ router.post('/:id/repost', jwtAuthMiddleware, async (req: Request, res: Response
       throw new AppError('Post not found', 404);
     }
 
+    // Dropped reposts stay archived until purged and do not count; anything else does.
     const existing = await prisma.post.findFirst({
       where: {
         userId,
         repostOfId: postId,
+        archiveReason: null,
       },
     });
 
@@ -875,8 +887,8 @@ router.post('/:id/repost', jwtAuthMiddleware, async (req: Request, res: Response
       throw new AppError('Only active banter posts can be reposted', 400);
     }
 
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 24);
+    const lifecyclePolicy = await getActiveLifecyclePolicy();
+    const expiresAt = getCycleEnd(new Date(), resolveLifecycleRules(lifecyclePolicy, original.league));
 
     const created = await prisma.$transaction(async (tx) => {
       const repost = await tx.post.create({
@@ -891,6 +903,8 @@ router.post('/:id/repost', jwtAuthMiddleware, async (req: Request, res: Response
           expiresAt,
           status: 'ACTIVE',
           repostOfId: original.id,
+          hotScore: computeInitialHotScore(expiresAt),
+          lifecyclePolicyId: lifecyclePolicy.id,
         },
       });
 
@@ -903,16 +917,13 @@ router.post('/:id/repost', jwtAuthMiddleware, async (req: Request, res: Response
 
       return { repost, updated };
     });
+    await refreshPostHotScore(original.id);
+    scheduleFanOut(created.repost);
 
-    try {
-      const { getIO } = await import('../websocket/socket');
-      getIO().emit('repost-update', {
-        postId,
-        repostCount: created.updated.repostCount,
-      });
-    } catch (error) {
-      logger.warn('WebSocket not available for repost-update event', { error });
-    }
+    publishRealtimeEvent('repost-update', {
+      postId,
+      repostCount: created.updated.repostCount,
+    });
 
     return res.json({
       success: true,
@@ -1,6 +1,8 @@
 import { DeleteObjectsCommand, ListObjectsV2Command, S3Client } from '@aws-sdk/client-s3';
 import { prisma } from '../index';
 import { logger } from '../utils/logger';
+import { refundPostBoosts } from '../vote/service';
+import { refreshPostHotScore } from './ranking';
 
 const s3Client = new S3Client({
   region: process.env.AWS_REGION || 'eu-north-1',
@@ -12,6 +14,11 @@ const s3Client = new S3Client({
 } as any);
 
 const BUCKET_NAME = process.env.S3_BUCKET_NAME || process.env.AWS_S3_BUCKET_NAME || '';
+export const POST_ARCHIVE_RETENTION_DAYS = Math.max(
+  0,
+  Number.parseInt(process.env.POST_ARCHIVE_RETENTION_DAYS || '30', 10)
+);
+const POST_PURGE_BATCH_SIZE = Math.max(1, Number.parseInt(process.env.POST_PURGE_BATCH_SIZE || '100', 10));
 
 type MediaCollectionInput = {
   mediaUrl?: string | null;
@@ -124,7 +131,23 @@ export async function deletePostMediaCollection(input: MediaCollectionInput) {
   );
 }
 
-export async function hardDeletePost(postId: string) {
+/**
+ * Unlike deletePostMediaCollection, failures propagate so the purge job can retry the post.
+ */
+async function purgePostMediaCollection(input: MediaCollectionInput) {
+  const urls = collectMediaUrls(input);
+  await Promise.all(urls.map((url) => deletePostMedia(url)));
+}
+
+/**
+ * Delete a post and everything hanging off it. With refundBoostsReason, active boosts are refunded
+ * in the same transaction under the post row lock, so a boost racing the delete is either
+ * refunded or rejected because the post is gone.
+ */
+export async function hardDeletePost(
+  postId: string,
+  options: { refundBoostsReason?: string } = {}
+) {
   const post = await prisma.post.findUnique({
     where: { id: postId },
     select: {
@@ -136,10 +159,20 @@ export async function hardDeletePost(postId: string) {
   });
 
   if (!post) {
-    return { deleted: false, repostOfId: null as string | null, repostCount: null as number | null };
+    return {
+      deleted: false,
+      repostOfId: null as string | null,
+      repostCount: null as number | null,
+      refunds: { refunded: 0, refundedCredits: 0 },
+    };
   }
 
   const result = await prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT id FROM "Post" WHERE id = ${postId} FOR UPDATE`;
+    const refunds = options.refundBoostsReason
+      ? await refundPostBoosts(tx, postId, options.refundBoostsReason)
+      : { refunded: 0, refundedCredits: 0 };
+
     await tx.comment.deleteMany({ where: { postId } });
     await tx.reaction.deleteMany({ where: { postId } });
     await tx.vote.deleteMany({ where: { postId } });
@@ -148,7 +181,8 @@ export async function hardDeletePost(postId: string) {
     const deleted = await tx.post.delete({ where: { id: postId } });
 
     let repostCount: number | null = null;
-    if (deleted.repostOfId) {
+    // Archived reposts already released their count in archivePost.
+    if (deleted.repostOfId && deleted.status === 'ACTIVE') {
       const original = await tx.post.update({
         where: { id: deleted.repostOfId },
         data: {
@@ -162,15 +196,130 @@ export async function hardDeletePost(postId: string) {
       deleted: true,
       repostOfId: deleted.repostOfId,
       repostCount,
+      refunds,
       mediaUrl: deleted.mediaUrl,
       mediaItems: deleted.mediaItems,
+      mediaPurgedAt: deleted.mediaPurgedAt,
     };
   });
 
-  await deletePostMediaCollection({
-    mediaUrl: result.mediaUrl,
-    mediaItems: result.mediaItems,
+  if (result.repostOfId && typeof result.repostCount === 'number') {
+    await refreshPostHotScore(result.repostOfId);
+  }
+
+  if (!result.mediaPurgedAt) {
+    await deletePostMediaCollection({
+      mediaUrl: result.mediaUrl,
+      mediaItems: result.mediaItems,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Move a dropped banter to the archived (HIDDEN) state. Comments, votes, reactions and media
+ * are kept so the author can still see the final tally; purgeArchivedPosts removes them
+ * once the retention window has passed.
+ */
+export async function archivePost(postId: string, reason: string) {
+  const hiddenAt = new Date();
+  const purgeAfter = new Date(hiddenAt.getTime() + POST_ARCHIVE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const updated = await tx.post.updateMany({
+      where: { id: postId, status: 'ACTIVE' },
+      data: {
+        status: 'HIDDEN',
+        hiddenAt,
+        archiveReason: reason,
+        purgeAfter,
+      },
+    });
+    if (updated.count === 0) {
+      return { archived: false, repostOfId: null as string | null, repostCount: null as number | null };
+    }
+
+    await tx.feedEntry.deleteMany({ where: { postId } });
+
+    const post = await tx.post.findUnique({
+      where: { id: postId },
+      select: { repostOfId: true },
+    });
+
+    let repostCount: number | null = null;
+    if (post?.repostOfId) {
+      const original = await tx.post.update({
+        where: { id: post.repostOfId },
+        data: {
+          repostCount: { decrement: 1 },
+        },
+      });
+      repostCount = original.repostCount;
+    }
+
+    return { archived: true, repostOfId: post?.repostOfId ?? null, repostCount };
   });
 
+  if (result.repostOfId) {
+    await refreshPostHotScore(result.repostOfId);
+  }
+
   return result;
 }
+
+/**
+ * Hard-delete archived banters whose retention window has ended.
+ * Each post is handled in two idempotent steps (media, then rows) and progress lives in the
+ * database, so an interrupted run is simply resumed by the next one.
+ */
+export async function purgeArchivedPosts(options: { limit?: number } = {}) {
+  const limit = Math.max(1, options.limit ?? POST_PURGE_BATCH_SIZE);
+  const due = await prisma.post.findMany({
+    where: {
+      status: 'HIDDEN',
+      purgeAfter: { lte: new Date() },
+    },
+    select: {
+      id: true,
+      mediaUrl: true,
+      mediaItems: true,
+      mediaPurgedAt: true,
+    },
+    orderBy: [{ purgeAfter: 'asc' }, { id: 'asc' }],
+    take: limit,
+  });
+
+  let mediaPurged = 0;
+  let purged = 0;
+  let failed = 0;
+
+  for (const post of due) {
+    try {
+      if (!post.mediaPurgedAt) {
+        await purgePostMediaCollection(post);
+        await prisma.post.update({
+          where: { id: post.id },
+          data: { mediaPurgedAt: new Date() },
+        });
+        mediaPurged += 1;
+      }
+
+      const result = await hardDeletePost(post.id);
+      if (result.deleted) {
+        purged += 1;
+      }
+    } catch (error) {
+      failed += 1;
+      logger.warn('Failed purging archived post', { postId: post.id, error });
+    }
+  }
+
+  return {
+    scanned: due.length,
+    mediaPurged,
+    purged,
+    failed,
+    hasMore: due.length === limit,
+  };
+}
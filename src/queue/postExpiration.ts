@@ -0,0 +1,336 @@
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import {
+  addPostExpirationJob,
+  getPostExpirationJobState,
+  getPostExpirationQueue,
+} from './postQueue';
+import { publishRealtimeEvent } from '../websocket/events';
+import { createNotification } from '../notification/service';
+import { archivePost } from '../post/service';
+import { refreshPostHotScore } from '../post/ranking';
+import { getWeightedTally } from '../vote/service';
+import {
+  evaluateSurvival,
+  formatRolAmount,
+  getCycleEnd,
+  resolveLifecycleRules,
+} from '../post/lifecycle';
+import { applyRolChange } from '../wallet/rolLedger';
+import { awardSurvivalCyclePoints } from '../points/engine';
+import { SURVIVAL_BADGES, queueBadgeCheck } from '../points/badges';
+
+const POST_EXPIRATION_SWEEP_BATCH_SIZE = Math.max(
+  1,
+  Number.parseInt(process.env.POST_EXPIRATION_SWEEP_BATCH_SIZE || '100', 10)
+);
+// Overdue posts younger than this are left to the queue so the sweeper does not race on-time jobs.
+const POST_EXPIRATION_SWEEP_GRACE_MS = Math.max(
+  0,
+  Number.parseInt(process.env.POST_EXPIRATION_SWEEP_GRACE_MS || '120000', 10)
+);
+// A queued job this far past its due time is treated as stuck (e.g. no worker is consuming).
+const POST_EXPIRATION_SWEEP_STALE_MS = Math.max(
+  POST_EXPIRATION_SWEEP_GRACE_MS,
+  Number.parseInt(process.env.POST_EXPIRATION_SWEEP_STALE_MS || '900000', 10)
+);
+const POST_EXPIRATION_SWEEP_INTERVAL_MS = Math.max(
+  0,
+  Number.parseInt(process.env.POST_EXPIRATION_SWEEP_INTERVAL_MS || '300000', 10)
+);
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweepRunning = false;
+
+export type PostExpirationOutcome = 'missing' | 'skipped' | 'rescheduled' | 'archived' | 'survived';
+
+const formatSurvivalDuration = (hours: number) =>
+  hours % 24 === 0 ? `${hours / 24} days` : `${hours} hours`;
+
+/**
+ * Evaluate one banter at the end of its cycle: archive it if it lost the Stay/Drop vote,
+ * otherwise extend it by a cycle and pay any reward milestone.
+ * Shared by the queue worker and the reconciliation sweeper; every write is conditional on
+ * the state that was read, so concurrent runs for the same post resolve to a single outcome.
+ */
+export async function processPostExpiration(postId: string): Promise<PostExpirationOutcome> {
+  logger.info(`Processing expiration check for post ${postId}`);
+
+  const post = await prisma.post.findUnique({
+    where: { id: postId },
+    include: { lifecyclePolicy: true },
+  });
+
+  if (!post) {
+    logger.warn(`Post ${postId} not found, skipping expiration check`);
+    return 'missing';
+  }
+
+  if (!post.isRoast) {
+    logger.info(`Post ${postId} is not a roast, skipping expiration`);
+    return 'skipped';
+  }
+
+  if (post.status !== 'ACTIVE') {
+    logger.info(`Post ${postId} is already ${post.status}, skipping`);
+    return 'skipped';
+  }
+
+  const now = new Date();
+  if (post.expiresAt > now) {
+    logger.warn(`Post ${postId} has not expired yet, rescheduling...`);
+    if (!getPostExpirationQueue()) {
+      logger.warn(`Skipping reschedule for post ${postId} because background queue is unavailable`);
+      return 'skipped';
+    }
+    await addPostExpirationJob(postId, post.expiresAt, `recheck-${now.getTime()}`);
+    return 'rescheduled';
+  }
+
+  // Rules come from the policy version pinned at creation, not the currently active one.
+  const rules = resolveLifecycleRules(post.lifecyclePolicy, post.league);
+  const tally = getWeightedTally(post);
+  const survival = evaluateSurvival(rules, tally);
+
+  if (!survival.survives) {
+    const archived = await archivePost(postId, survival.reason);
+    if (!archived.archived) {
+      logger.info(`Post ${postId} was already archived, skipping`);
+      return 'skipped';
+    }
+
+    logger.info(
+      `Post ${postId} archived (${survival.reason}): weighted Stay (${tally.stayVotes}), Drop (${tally.dropVotes}), policy v${post.lifecyclePolicy?.version ?? 'default'}`
+    );
+
+    publishRealtimeEvent('post-hidden', {
+      postId,
+      reason: survival.reason,
+      stayVotes: post.stayVotes,
+      dropVotes: post.dropVotes,
+      stayBoost: post.stayBoost,
+      dropBoost: post.dropBoost,
+      league: post.league,
+    });
+    if (archived.repostOfId && typeof archived.repostCount === 'number') {
+      publishRealtimeEvent('repost-update', {
+        postId: archived.repostOfId,
+        repostCount: archived.repostCount,
+      });
+    }
+    return 'archived';
+  } else {
+    const nextSurvivalCycles = post.survivalCycles + 1;
+    const nextRewardCyclesPaid =
+      rules.rewardEveryCycles > 0
+        ? Math.floor(nextSurvivalCycles / rules.rewardEveryCycles)
+        : post.rewardCyclesPaid;
+    const rewardMilestonesEarned = Math.max(nextRewardCyclesPaid - post.rewardCyclesPaid, 0);
+    const nextExpiresAt = getCycleEnd(post.expiresAt, rules);
+
+    const updateResult = await prisma.post.updateMany({
+      where: {
+        id: postId,
+        expiresAt: post.expiresAt,
+        survivalCycles: post.survivalCycles,
+        rewardCyclesPaid: post.rewardCyclesPaid,
+      },
+      data: {
+        status: 'ACTIVE',
+        hiddenAt: null,
+        expiresAt: nextExpiresAt,
+        survivalCycles: { increment: 1 },
+        rewardCyclesPaid: nextRewardCyclesPaid,
+      },
+    });
+
+    if (updateResult.count === 0) {
+      logger.warn(`Post ${postId} survival update was skipped because the post changed concurrently`);
+      return 'skipped';
+    }
+    await refreshPostHotScore(postId);
+
+    let survivalPointsRaw = BigInt(0);
+    try {
+      const pointsResult = await awardSurvivalCyclePoints({
+        userId: post.userId,
+        postId,
+        survivalCycles: nextSurvivalCycles,
+      });
+      if (pointsResult.awarded) survivalPointsRaw = pointsResult.pointsRaw;
+    } catch (error) {
+      logger.warn(`Failed to award survival points for post ${postId}`, { error });
+    }
+    queueBadgeCheck(post.userId, SURVIVAL_BADGES);
+
+    if (rewardMilestonesEarned > 0 && rules.rewardRaw > BigInt(0)) {
+      const rewardRaw = rules.rewardRaw * BigInt(rewardMilestonesEarned);
+      const rewardReference = `banter_survival_reward:${postId}:${nextRewardCyclesPaid}`;
+      await prisma.$transaction((tx) =>
+        applyRolChange(tx, {
+          userId: post.userId,
+          type: 'SURVIVAL_REWARD',
+          amountRaw: rewardRaw,
+          reference: rewardReference,
+          metadata: {
+            postId,
+            rewardCyclesPaid: nextRewardCyclesPaid,
+            survivalCycles: nextSurvivalCycles,
+          },
+        })
+      );
+
+      await createNotification({
+        userId: post.userId,
+        type: 'SYSTEM',
+        title: 'Banter survival reward',
+        body: `Your banter post survived ${formatSurvivalDuration(
+          nextRewardCyclesPaid * rules.rewardEveryCycles * rules.cycleHours
+        )} and earned ${formatRolAmount(rewardRaw)} ROL${
+          survivalPointsRaw > BigInt(0) ? ` and ${survivalPointsRaw.toString()} Banter Points` : ''
+        }.`,
+        data: {
+          postId,
+          rewardRaw: rewardRaw.toString(),
+          pointsRaw: survivalPointsRaw.toString(),
+          rewardCyclesPaid: nextRewardCyclesPaid,
+          survivalCycles: nextSurvivalCycles,
+        },
+        reference: rewardReference,
+      });
+    } else if (survivalPointsRaw > BigInt(0)) {
+      await createNotification({
+        userId: post.userId,
+        type: 'SYSTEM',
+        title: 'Banter survived',
+        body: `Your banter post survived ${formatSurvivalDuration(
+          nextSurvivalCycles * rules.cycleHours
+        )} and earned ${survivalPointsRaw.toString()} Banter Points.`,
+        data: {
+          postId,
+          pointsRaw: survivalPointsRaw.toString(),
+          survivalCycles: nextSurvivalCycles,
+        },
+        reference: `post_survival:${postId}:${nextSurvivalCycles}`,
+      });
+    }
+
+    await addPostExpirationJob(postId, nextExpiresAt);
+
+    logger.info(`Post ${postId} stays active: weighted Stay (${tally.stayVotes}) vs Drop (${tally.dropVotes})`);
+
+    publishRealtimeEvent('post-stays', {
+      postId,
+      reason: 'stay_votes_exceeded',
+      stayVotes: post.stayVotes,
+      dropVotes: post.dropVotes,
+      stayBoost: post.stayBoost,
+      dropBoost: post.dropBoost,
+      survivalCycles: nextSurvivalCycles,
+      rewardCyclesPaid: nextRewardCyclesPaid,
+      nextExpiresAt: nextExpiresAt.toISOString(),
+    });
+    return 'survived';
+  }
+}
+
+const isPendingJobState = (state: string | null, expiresAt: Date, now: number) => {
+  if (state === 'active') return true;
+  if (state !== 'waiting' && state !== 'delayed' && state !== 'prioritized') return false;
+  return now - expiresAt.getTime() < POST_EXPIRATION_SWEEP_STALE_MS;
+};
+
+/**
+ * Process active banters whose cycle ended without being evaluated, typically because
+ * Redis was unreachable when their expiration job should have been scheduled.
+ * Posts with a live job for the current cycle are left to the worker.
+ */
+export async function sweepMissedPostExpirations(options: { limit?: number } = {}) {
+  const limit = Math.max(1, options.limit ?? POST_EXPIRATION_SWEEP_BATCH_SIZE);
+  const now = Date.now();
+  const overdue = await prisma.post.findMany({
+    where: {
+      isRoast: true,
+      status: 'ACTIVE',
+      expiresAt: { lte: new Date(now - POST_EXPIRATION_SWEEP_GRACE_MS) },
+    },
+    select: { id: true, expiresAt: true },
+    orderBy: [{ expiresAt: 'asc' }, { id: 'asc' }],
+    take: limit,
+  });
+
+  const summary = {
+    scanned: overdue.length,
+    pending: 0,
+    archived: 0,
+    survived: 0,
+    skipped: 0,
+    failed: 0,
+    hasMore: overdue.length === limit,
+  };
+
+  for (const post of overdue) {
+    const state = await getPostExpirationJobState(post.id, post.expiresAt);
+    if (isPendingJobState(state, post.expiresAt, now)) {
+      summary.pending += 1;
+      continue;
+    }
+
+    try {
+      const outcome = await processPostExpiration(post.id);
+      if (outcome === 'archived' || outcome === 'survived') {
+        summary[outcome] += 1;
+      } else {
+        summary.skipped += 1;
+      }
+    } catch (error) {
+      summary.failed += 1;
+      logger.warn(`Expiration sweep failed for post ${post.id}`, { error });
+    }
+  }
+
+  if (summary.archived || summary.survived || summary.failed) {
+    logger.info('Post expiration sweep completed', summary);
+  }
+  return summary;
+}
+
+/**
+ * Single-flight wrapper shared by the worker interval and the ops cron route.
+ */
+export async function runPostExpirationSweep(options: { limit?: number } = {}) {
+  if (sweepRunning) {
+    return null;
+  }
+  sweepRunning = true;
+  try {
+    return await sweepMissedPostExpirations(options);
+  } finally {
+    sweepRunning = false;
+  }
+}
+
+/**
+ * Run the sweeper on an interval in the worker role. Works without Redis, which is exactly
+ * when jobs go missing.
+ */
+export function startPostExpirationSweeper() {
+  if (sweepTimer || POST_EXPIRATION_SWEEP_INTERVAL_MS <= 0) {
+    return;
+  }
+
+  sweepTimer = setInterval(() => {
+    void runPostExpirationSweep().catch((error) => {
+      logger.warn('Post expiration sweep failed', { error });
+    });
+  }, POST_EXPIRATION_SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+  logger.info('Post expiration sweeper started', { intervalMs: POST_EXPIRATION_SWEEP_INTERVAL_MS });
+}
+
+export function stopPostExpirationSweeper() {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+}
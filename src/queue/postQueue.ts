@@ -70,11 +70,21 @@ export function getPostExpirationQueue(): Queue | null {
   return postExpirationQueue;
 }
 
+// One job per post per cycle; re-adding the same cycle is a no-op in BullMQ.
+export const getPostExpirationJobId = (postId: string, expiresAt: Date) =>
+  `expire-${postId}-${expiresAt.getTime()}`;
+
 /**
- * Add a job to check post expiration after 24 hours.
- * If Redis is unavailable, the API still succeeds and the job is skipped.
+ * Add a job to check post expiration at the end of its current cycle.
+ * If Redis is unavailable, the API still succeeds and the job is skipped;
+ * the expiration sweeper picks such posts up later. A job that ran early passes a jobIdSuffix so
+ * its re-check is not deduplicated against its own, still running, job id.
  */
-export async function addPostExpirationJob(postId: string, expiresAt: Date): Promise<void> {
+export async function addPostExpirationJob(
+  postId: string,
+  expiresAt: Date,
+  jobIdSuffix?: string
+): Promise<void> {
   try {
     const queue = getPostExpirationQueue();
     if (!queue) {
@@ -83,10 +93,12 @@ export async function addPostExpirationJob(postId: string, expiresAt: Date): Pro
     }
 
     const delay = expiresAt.getTime() - Date.now();
+    const baseJobId = getPostExpirationJobId(postId, expiresAt);
+    const jobId = jobIdSuffix ? `${baseJobId}-${jobIdSuffix}` : baseJobId;
 
     if (delay <= 0) {
       logger.warn(`Post ${postId} expiration time is in the past, processing immediately`);
-      await queue.add('check-expiration', { postId }, { delay: 0 });
+      await queue.add('check-expiration', { postId }, { delay: 0, jobId });
       return;
     }
 
@@ -94,6 +106,7 @@ export async function addPostExpirationJob(postId: string, expiresAt: Date): Pro
       'check-expiration',
       { postId },
       {
+        jobId,
         delay,
         attempts: QUEUE_JOB_ATTEMPTS,
         backoff:
@@ -115,3 +128,21 @@ export async function addPostExpirationJob(postId: string, expiresAt: Date): Pro
     );
   }
 }
+
+/**
+ * State of the expiration job for a post's current cycle, or null when there is none
+ * (never scheduled, already removed) or the queue is unavailable.
+ */
+export async function getPostExpirationJobState(postId: string, expiresAt: Date) {
+  const queue = getPostExpirationQueue();
+  if (!queue) return null;
+
+  try {
+    const job = await queue.getJob(getPostExpirationJobId(postId, expiresAt));
+    if (!job) return null;
+    return await job.getState();
+  } catch (error) {
+    logger.warn(`Failed reading expiration job state for post ${postId}`, { error });
+    return null;
+  }
+}
@@ -1,21 +1,14 @@
 import { lookup } from 'node:dns/promises';
 import { Worker, WorkerOptions } from 'bullmq';
-import { prisma } from '../index';
 import { logger } from '../utils/logger';
 import {
   disablePostExpirationQueue,
   getPostExpirationQueue,
 } from './postQueue';
-import { addPostExpirationJob } from './postQueue';
 import { getRedisConfig } from './redisConfig';
-import { getIO } from '../websocket/socket';
-import { createNotification } from '../notification/service';
-import { hardDeletePost } from '../post/service';
+import { processPostExpiration } from './postExpiration';
 
 const redisConfig = getRedisConfig();
-const ROAST_SURVIVAL_REWARD_RAW = BigInt(10000); // 0.0001 ROL with 8 decimals
-const ROAST_SURVIVAL_CYCLE_HOURS = 24;
-const ROAST_REWARD_EVERY_CYCLES = 7;
 const QUEUE_WORKER_CONCURRENCY = Math.max(
   1,
   Number.parseInt(process.env.QUEUE_WORKER_CONCURRENCY || '5', 10)
@@ -98,132 +91,7 @@ export async function setupQueueWorkers(): Promise<void> {
       const { postId } = job.data;
 
       try {
-        logger.info(`Processing expiration check for post ${postId}`);
-
-        const post = await prisma.post.findUnique({
-          where: { id: postId },
-        });
-
-        if (!post) {
-          logger.warn(`Post ${postId} not found, skipping expiration check`);
-          return;
-        }
-
-        if (!post.isRoast) {
-          logger.info(`Post ${postId} is not a roast, skipping expiration`);
-          return;
-        }
-
-        if (post.status !== 'ACTIVE') {
-          logger.info(`Post ${postId} is already ${post.status}, skipping`);
-          return;
-        }
-
-        const now = new Date();
-        if (post.expiresAt > now) {
-          logger.warn(`Post ${postId} has not expired yet, rescheduling...`);
-          const delay = post.expiresAt.getTime() - now.getTime();
-          const activeQueue = getPostExpirationQueue();
-          if (!activeQueue) {
-            logger.warn(`Skipping reschedule for post ${postId} because background queue is unavailable`);
-            return;
-          }
-          await activeQueue.add('check-expiration', { postId }, { delay });
-          return;
-        }
-
-        if (post.dropVotes >= post.stayVotes) {
-          const deleted = await hardDeletePost(postId);
-
-          logger.info(`Post ${postId} deleted: Drop votes (${post.dropVotes}) >= Stay votes (${post.stayVotes})`);
-
-          try {
-            getIO().emit('post-hidden', {
-              postId,
-              reason: 'drop_votes_deleted',
-              stayVotes: post.stayVotes,
-              dropVotes: post.dropVotes,
-            });
-            if (deleted.repostOfId && typeof deleted.repostCount === 'number') {
-              getIO().emit('repost-update', {
-                postId: deleted.repostOfId,
-                repostCount: deleted.repostCount,
-              });
-            }
-          } catch (error) {
-            logger.warn('WebSocket not available for post-hidden event', { error });
-          }
-        } else {
-          const nextSurvivalCycles = post.survivalCycles + 1;
-          const nextRewardCyclesPaid = Math.floor(nextSurvivalCycles / ROAST_REWARD_EVERY_CYCLES);
-          const rewardMilestonesEarned = Math.max(nextRewardCyclesPaid - post.rewardCyclesPaid, 0);
-          const nextExpiresAt = new Date(
-            post.expiresAt.getTime() + ROAST_SURVIVAL_CYCLE_HOURS * 60 * 60 * 1000
-          );
-
-          const updateResult = await prisma.post.updateMany({
-            where: {
-              id: postId,
-              expiresAt: post.expiresAt,
-              survivalCycles: post.survivalCycles,
-              rewardCyclesPaid: post.rewardCyclesPaid,
-            },
-            data: {
-              status: 'ACTIVE',
-              hiddenAt: null,
-              expiresAt: nextExpiresAt,
-              survivalCycles: { increment: 1 },
-              rewardCyclesPaid: nextRewardCyclesPaid,
-            },
-          });
-
-          if (updateResult.count === 0) {
-            logger.warn(`Post ${postId} survival update was skipped because the post changed concurrently`);
-            return;
-          }
-
-          if (rewardMilestonesEarned > 0) {
-            const rewardRaw = ROAST_SURVIVAL_REWARD_RAW * BigInt(rewardMilestonesEarned);
-            await prisma.user.update({
-              where: { id: post.userId },
-              data: {
-                rolBalanceRaw: { increment: rewardRaw },
-              },
-            });
-
-            await createNotification({
-              userId: post.userId,
-              type: 'SYSTEM',
-              title: 'Banter survival reward',
-              body: `Your banter post survived ${nextRewardCyclesPaid * ROAST_REWARD_EVERY_CYCLES} days and earned 0.0001 ROL.`,
-              data: {
-                postId,
-                rewardRaw: rewardRaw.toString(),
-                rewardCyclesPaid: nextRewardCyclesPaid,
-                survivalCycles: nextSurvivalCycles,
-              },
-              reference: `banter_survival_reward:${postId}:${nextRewardCyclesPaid}`,
-            });
-          }
-
-          await addPostExpirationJob(postId, nextExpiresAt);
-
-          logger.info(`Post ${postId} stays active: Stay votes (${post.stayVotes}) > Drop votes (${post.dropVotes})`);
-
-          try {
-            getIO().emit('post-stays', {
-              postId,
-              reason: 'stay_votes_exceeded',
-              stayVotes: post.stayVotes,
-              dropVotes: post.dropVotes,
-              survivalCycles: nextSurvivalCycles,
-              rewardCyclesPaid: nextRewardCyclesPaid,
-              nextExpiresAt: nextExpiresAt.toISOString(),
-            });
-          } catch (error) {
-            logger.warn('WebSocket not available for post-stays event', { error });
-          }
-        }
+        await processPostExpiration(postId);
       } catch (error) {
         logger.error(`Failed to process expiration for post ${postId}`, { error });
         throw error;
@@ -2,7 +2,8 @@ import { Router, Request, Response } from 'express';
 import { prisma } from '../index';
 import { logger } from '../utils/logger';
 import { AppError } from '../utils/errorHandler';
-import { getIO } from '../websocket/socket';
+import { publishRealtimeEvent } from '../websocket/events';
+import { refreshPostHotScore } from '../post/ranking';
 
 const router = Router();
 
@@ -93,19 +94,16 @@ router.post('/', async (req: Request, res: Response) => {
         }
         logger.info(`Removed reaction ${type} on post ${postId} by user ${user.id}`);
         action = 'removed';
+        await refreshPostHotScore(postId);
         const { reactionCount, reactionBreakdown } = await getReactionMetrics(postId);
-        try {
-          getIO().emit('reaction-update', {
-            postId,
-            reactionCount,
-            reactionBreakdown,
-            action,
-            type,
-            userId: user.id,
-          });
-        } catch (error) {
-          logger.warn('WebSocket not available for reaction-update event', { error });
-        }
+        publishRealtimeEvent('reaction-update', {
+          postId,
+          reactionCount,
+          reactionBreakdown,
+          action,
+          type,
+          userId: user.id,
+        });
         return res.json({
           success: true,
           reaction: null,
@@ -164,19 +162,16 @@ router.post('/', async (req: Request, res: Response) => {
       action = 'created';
     }
 
+    await refreshPostHotScore(postId);
     const { reactionCount, reactionBreakdown } = await getReactionMetrics(postId);
-    try {
-      getIO().emit('reaction-update', {
-        postId,
-        reactionCount,
-        reactionBreakdown,
-        action,
-        type,
-        userId: user.id,
-      });
-    } catch (error) {
-      logger.warn('WebSocket not available for reaction-update event', { error });
-    }
+    publishRealtimeEvent('reaction-update', {
+      postId,
+      reactionCount,
+      reactionBreakdown,
+      action,
+      type,
+      userId: user.id,
+    });
 
     return res.json({
       success: true,
@@ -2,6 +2,15 @@ import { Router, Request, Response } from 'express';
 import { prisma } from '../index';
 import { logger } from '../utils/logger';
 import { AppError } from '../utils/errorHandler';
+import { backfillFollowingFeed, removeFromFollowingFeed } from '../post/feed';
+import { getUserBadges } from '../points/badges';
+import {
+  buildCursorPage,
+  buildTimeCursorWhere,
+  decodeTimeCursor,
+  encodeTimeCursor,
+  parseCursorParams,
+} from '../utils/cursor';
 
 const router = Router();
 
@@ -46,14 +55,23 @@ const serializeMediaItems = (
 /**
  * GET /api/users/:id/posts
  * Get all posts by a specific user (for Profile page)
+ * Query params: limit, cursor, archived (own profile only: dropped banters with final tally)
  */
 router.get('/:id/posts', async (req: Request, res: Response) => {
   try {
     const userId = req.params.id;
     const viewerId = req.user?.userId;
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const skip = (page - 1) * limit;
+    const archived = req.query.archived === '1' || req.query.archived === 'true';
+    const { limit, cursor } = parseCursorParams(req.query, { defaultLimit: 20, maxLimit: 50 });
+    const cursorWhere = buildTimeCursorWhere(decodeTimeCursor(cursor));
+
+    if (archived && viewerId !== userId) {
+      res.status(403).json({
+        success: false,
+        message: 'Archived posts are only visible to their author',
+      });
+      return;
+    }
 
     const user = await prisma.user.findUnique({
       where: { id: userId },
@@ -68,21 +86,22 @@ router.get('/:id/posts', async (req: Request, res: Response) => {
         success: true,
         posts: [],
         pagination: {
-          page,
           limit,
-          total: 0,
-          totalPages: 0,
+          nextCursor: null,
+          hasMore: false,
         },
       });
       return;
     }
 
-    const posts = await prisma.post.findMany({
+    const rows = await prisma.post.findMany({
       where: {
         userId,
-        status: 'ACTIVE',
         isRoast: true,
-        expiresAt: { gt: new Date() },
+        ...(archived
+          ? { status: 'HIDDEN' as const }
+          : { status: 'ACTIVE' as const, expiresAt: { gt: new Date() } }),
+        ...cursorWhere,
       },
       include: {
         user: {
@@ -100,21 +119,11 @@ router.get('/:id/posts', async (req: Request, res: Response) => {
           },
         },
       },
-      orderBy: {
-        createdAt: 'desc',
-      },
-      skip,
-      take: limit,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
     });
 
-    const total = await prisma.post.count({
-      where: {
-        userId,
-        status: 'ACTIVE',
-        isRoast: true,
-        expiresAt: { gt: new Date() },
-      },
-    });
+    const { items: posts, pagination } = buildCursorPage(rows, limit, encodeTimeCursor);
 
     res.json({
       success: true,
@@ -129,26 +138,32 @@ router.get('/:id/posts', async (req: Request, res: Response) => {
         league: post.league,
         stayVotes: post.stayVotes,
         dropVotes: post.dropVotes,
+        stayBoost: post.stayBoost,
+        dropBoost: post.dropBoost,
         status: post.status,
         expiresAt: post.expiresAt,
         createdAt: post.createdAt,
+        ...(archived
+          ? {
+              survivalCycles: post.survivalCycles,
+              archivedAt: post.hiddenAt,
+              archiveReason: post.archiveReason,
+              purgeAfter: post.purgeAfter,
+            }
+          : {}),
         user: post.user,
         commentCount: post._count.comments,
         reactionCount: post._count.reactions,
       })),
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
+      pagination,
     });
   } catch (error) {
     logger.error('Get user posts error', { error });
     if (error instanceof AppError) {
-      throw error;
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
     }
-    throw new AppError('Failed to get user posts', 500);
+    res.status(500).json({ success: false, message: 'Failed to get user posts' });
   }
 });
 
@@ -179,7 +194,7 @@ router.get('/:id', async (req: Request, res: Response) => {
       throw new AppError('User not found', 404);
     }
 
-    const [followersCount, followingCount, isFollowing] = await Promise.all([
+    const [followersCount, followingCount, isFollowing, badges] = await Promise.all([
       prisma.follow.count({ where: { followingId: userId } }),
       prisma.follow.count({ where: { followerId: userId } }),
       viewerId
@@ -192,6 +207,7 @@ router.get('/:id', async (req: Request, res: Response) => {
             },
           })
         : Promise.resolve(null),
+      getUserBadges(userId),
     ]);
 
     res.json({
@@ -201,6 +217,7 @@ router.get('/:id', async (req: Request, res: Response) => {
         profileLocked: user.profileLocked,
         followersCount,
         followingCount,
+        badges,
       },
       isFollowing: !!isFollowing,
     });
@@ -233,20 +250,40 @@ router.post('/:id/follow', async (req: Request, res: Response) => {
       throw new AppError('User not found', 404);
     }
 
-    await prisma.follow.upsert({
-      where: {
-        followerId_followingId: {
+    const created = await prisma.$transaction(async (tx) => {
+      const existing = await tx.follow.findUnique({
+        where: {
+          followerId_followingId: {
+            followerId: viewerId,
+            followingId: targetId,
+          },
+        },
+        select: { id: true },
+      });
+      if (existing) return false;
+
+      await tx.follow.create({
+        data: {
           followerId: viewerId,
           followingId: targetId,
         },
-      },
-      update: {},
-      create: {
-        followerId: viewerId,
-        followingId: targetId,
-      },
+      });
+      await tx.user.update({
+        where: { id: targetId },
+        data: { followerCount: { increment: 1 } },
+      });
+      return true;
+    }).catch((error: any) => {
+      if (error?.code === 'P2002') return false;
+      throw error;
     });
 
+    if (created) {
+      await backfillFollowingFeed(viewerId, targetId).catch((error) => {
+        logger.warn('Following feed backfill failed', { viewerId, targetId, error });
+      });
+    }
+
     res.json({ success: true, following: true });
   } catch (error) {
     logger.error('Follow user error', { error });
@@ -272,11 +309,23 @@ router.delete('/:id/follow', async (req: Request, res: Response) => {
       throw new AppError('Cannot unfollow yourself', 400);
     }
 
-    await prisma.follow.deleteMany({
-      where: {
-        followerId: viewerId,
-        followingId: targetId,
-      },
+    await prisma.$transaction(async (tx) => {
+      const removed = await tx.follow.deleteMany({
+        where: {
+          followerId: viewerId,
+          followingId: targetId,
+        },
+      });
+      if (removed.count > 0) {
+        await tx.user.updateMany({
+          where: { id: targetId, followerCount: { gt: 0 } },
+          data: { followerCount: { decrement: removed.count } },
+        });
+      }
+    });
+
+    await removeFromFollowingFeed(viewerId, targetId).catch((error) => {
+      logger.warn('Following feed cleanup failed', { viewerId, targetId, error });
     });
 
     res.json({ success: true, following: false });
@@ -0,0 +1,138 @@
+import { AppError } from './errorHandler';
+
+/**
+ * Keyset ("cursor") pagination shared by every list route.
+ * Cursors are opaque base64url tokens over the sort key plus the row id, so pages stay
+ * stable while rows are inserted or expire. Responses carry `nextCursor` instead of totals.
+ */
+
+export type TimeCursor = {
+  createdAt: Date;
+  id: string;
+};
+
+export type ScoreCursor = {
+  score: number;
+  id: string;
+};
+
+export type CursorPagination = {
+  limit: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+};
+
+type SortDirection = 'asc' | 'desc';
+
+const encodeCursorPayload = (payload: Record<string, string | number>) =>
+  Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+const decodeCursorPayload = (value: string) => {
+  const parsed = JSON.parse(Buffer.from(value.trim(), 'base64url').toString('utf8'));
+  if (!parsed || typeof parsed !== 'object' || typeof parsed.id !== 'string' || !parsed.id) {
+    throw new Error('Malformed cursor');
+  }
+  return parsed as Record<string, unknown> & { id: string };
+};
+
+/**
+ * Read `limit` and `cursor` query params, clamping limit to [1, maxLimit].
+ */
+export const parseCursorParams = (
+  query: Record<string, unknown>,
+  options: { defaultLimit: number; maxLimit: number }
+) => {
+  const parsedLimit = Number.parseInt(String(query.limit ?? ''), 10);
+  const limit = Number.isFinite(parsedLimit)
+    ? Math.min(Math.max(parsedLimit, 1), options.maxLimit)
+    : options.defaultLimit;
+  const cursor = typeof query.cursor === 'string' && query.cursor.trim() ? query.cursor.trim() : null;
+  return { limit, cursor };
+};
+
+export const encodeTimeCursor = (cursor: TimeCursor) =>
+  encodeCursorPayload({ t: cursor.createdAt.toISOString(), id: cursor.id });
+
+export const decodeTimeCursor = (value: unknown): TimeCursor | null => {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  try {
+    const parsed = decodeCursorPayload(value);
+    const createdAt = new Date(String(parsed.t));
+    if (Number.isNaN(createdAt.getTime())) {
+      throw new Error('Malformed cursor');
+    }
+    return { createdAt, id: parsed.id };
+  } catch {
+    throw new AppError('Invalid cursor', 400);
+  }
+};
+
+export const encodeScoreCursor = (cursor: ScoreCursor) =>
+  encodeCursorPayload({ s: cursor.score, id: cursor.id });
+
+export const decodeScoreCursor = (value: unknown): ScoreCursor | null => {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  try {
+    const parsed = decodeCursorPayload(value);
+    const score = Number(parsed.s);
+    if (typeof parsed.s !== 'number' || !Number.isFinite(score)) {
+      throw new Error('Malformed cursor');
+    }
+    return { score, id: parsed.id };
+  } catch {
+    throw new AppError('Invalid cursor', 400);
+  }
+};
+
+/**
+ * Prisma where fragment selecting rows strictly after the cursor when sorting by
+ * (field, id) in the given direction. `field` defaults to createdAt.
+ */
+export const buildTimeCursorWhere = (
+  cursor: TimeCursor | null,
+  options: { field?: string; direction?: SortDirection } = {}
+) => {
+  if (!cursor) return {};
+  const field = options.field || 'createdAt';
+  const op = options.direction === 'asc' ? 'gt' : 'lt';
+  return {
+    OR: [
+      { [field]: { [op]: cursor.createdAt } },
+      { [field]: cursor.createdAt, id: { [op]: cursor.id } },
+    ],
+  };
+};
+
+/**
+ * Prisma where fragment for (field desc, id desc) score-ranked lists.
+ */
+export const buildScoreCursorWhere = (cursor: ScoreCursor | null, field: string) => {
+  if (!cursor) return {};
+  return {
+    OR: [
+      { [field]: { lt: cursor.score } },
+      { [field]: cursor.score, id: { lt: cursor.id } },
+    ],
+  };
+};
+
+/**
+ * Trim a `take: limit + 1` result to `limit` rows and derive the next cursor from the last row.
+ */
+export const buildCursorPage = <T>(
+  rows: T[],
+  limit: number,
+  toCursor: (row: T) => string
+): { items: T[]; pagination: CursorPagination } => {
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  const last = items[items.length - 1];
+  return {
+    items,
+    pagination: {
+      limit,
+      nextCursor: hasMore && last ? toCursor(last) : null,
+      hasMore,
+    },
+  };
+};
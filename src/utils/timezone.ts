@@ -0,0 +1,170 @@
+/**
+ * Calendar-day helpers for IANA timezones, built on Intl so they work the same wherever the
+ * server runs.
+ */
+
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_USER_TIMEZONE || 'UTC';
+
+// Keys are upper-cased ISO 3166 alpha-2 codes and the country names users tend to type.
+const COUNTRY_TIMEZONES: Record<string, string> = {
+  NG: 'Africa/Lagos',
+  NIGERIA: 'Africa/Lagos',
+  GB: 'Europe/London',
+  UK: 'Europe/London',
+  'UNITED KINGDOM': 'Europe/London',
+  ENGLAND: 'Europe/London',
+  SCOTLAND: 'Europe/London',
+  WALES: 'Europe/London',
+  IE: 'Europe/Dublin',
+  IRELAND: 'Europe/Dublin',
+  GH: 'Africa/Accra',
+  GHANA: 'Africa/Accra',
+  KE: 'Africa/Nairobi',
+  KENYA: 'Africa/Nairobi',
+  UG: 'Africa/Kampala',
+  UGANDA: 'Africa/Kampala',
+  TZ: 'Africa/Dar_es_Salaam',
+  TANZANIA: 'Africa/Dar_es_Salaam',
+  RW: 'Africa/Kigali',
+  RWANDA: 'Africa/Kigali',
+  ZA: 'Africa/Johannesburg',
+  'SOUTH AFRICA': 'Africa/Johannesburg',
+  ZM: 'Africa/Lusaka',
+  ZAMBIA: 'Africa/Lusaka',
+  ZW: 'Africa/Harare',
+  ZIMBABWE: 'Africa/Harare',
+  CM: 'Africa/Douala',
+  CAMEROON: 'Africa/Douala',
+  SN: 'Africa/Dakar',
+  SENEGAL: 'Africa/Dakar',
+  CI: 'Africa/Abidjan',
+  "COTE D'IVOIRE": 'Africa/Abidjan',
+  'IVORY COAST': 'Africa/Abidjan',
+  EG: 'Africa/Cairo',
+  EGYPT: 'Africa/Cairo',
+  MA: 'Africa/Casablanca',
+  MOROCCO: 'Africa/Casablanca',
+  FR: 'Europe/Paris',
+  FRANCE: 'Europe/Paris',
+  DE: 'Europe/Berlin',
+  GERMANY: 'Europe/Berlin',
+  ES: 'Europe/Madrid',
+  SPAIN: 'Europe/Madrid',
+  IT: 'Europe/Rome',
+  ITALY: 'Europe/Rome',
+  PT: 'Europe/Lisbon',
+  PORTUGAL: 'Europe/Lisbon',
+  NL: 'Europe/Amsterdam',
+  NETHERLANDS: 'Europe/Amsterdam',
+  AE: 'Asia/Dubai',
+  'UNITED ARAB EMIRATES': 'Asia/Dubai',
+  IN: 'Asia/Kolkata',
+  INDIA: 'Asia/Kolkata',
+  US: 'America/New_York',
+  USA: 'America/New_York',
+  'UNITED STATES': 'America/New_York',
+  CA: 'America/Toronto',
+  CANADA: 'America/Toronto',
+  BR: 'America/Sao_Paulo',
+  BRAZIL: 'America/Sao_Paulo',
+  AU: 'Australia/Sydney',
+  AUSTRALIA: 'Australia/Sydney',
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !value.trim()) return false;
+  try {
+    getFormatter(value.trim());
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getCountryTimeZone = (country?: string | null) => {
+  if (!country) return null;
+  return COUNTRY_TIMEZONES[country.trim().toUpperCase()] || null;
+};
+
+/**
+ * The timezone a user's daily windows are computed in: their own setting, else their
+ * country's, else the deployment default.
+ */
+export const resolveUserTimeZone = (user: { timezone?: string | null; country?: string | null }) => {
+  if (user.timezone && isValidTimeZone(user.timezone)) return user.timezone;
+  return getCountryTimeZone(user.country) || DEFAULT_TIMEZONE;
+};
+
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+// Milliseconds the zone is ahead of UTC at `date`.
+const getZoneOffsetMs = (date: Date, timeZone: string) => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * `YYYY-MM-DD` of `date` in `timeZone`. Keys sort chronologically as strings.
+ */
+export const getZonedDayKey = (date: Date, timeZone: string) => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * The instant local midnight began for `date` in `timeZone`.
+ */
+export const getZonedDayStart = (date: Date, timeZone: string) => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  const midnightAsUtc = Date.UTC(year, month - 1, day);
+  let start = midnightAsUtc - getZoneOffsetMs(new Date(midnightAsUtc), timeZone);
+  // Re-read the offset at the candidate instant in case a DST change happened in between.
+  start = midnightAsUtc - getZoneOffsetMs(new Date(start), timeZone);
+  return new Date(start);
+};
+
+/**
+ * The instant the local week (Monday to Sunday) containing `date` began in `timeZone`.
+ */
+export const getZonedWeekStart = (date: Date, timeZone: string) => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const daysSinceMonday = (weekday + 6) % 7;
+  // Midday of the Monday, so a DST shift cannot push the lookup into the wrong date.
+  const mondayNoon = new Date(Date.UTC(year, month - 1, day - daysSinceMonday, 12));
+  return getZonedDayStart(new Date(mondayNoon.getTime() - getZoneOffsetMs(mondayNoon, timeZone)), timeZone);
+};
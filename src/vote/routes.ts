@@ -1,8 +1,13 @@
 import { Router, Request, Response } from 'express';
+import { VoteType } from '@prisma/client';
 import { prisma } from '../index';
 import { logger } from '../utils/logger';
 import { AppError } from '../utils/errorHandler';
-import { getIO } from '../websocket/socket';
+import { publishRealtimeEvent } from '../websocket/events';
+import { refreshPostHotScore } from '../post/ranking';
+import { boostVote, setVote } from './service';
+import { awardStayVoteReceivedPoints, queuePostPointsAward } from '../points/engine';
+import { queuePostAuthorBadgeCheck } from '../points/badges';
 
 const router = Router();
 
@@ -46,110 +51,46 @@ router.post('/', async (req: Request, res: Response) => {
 
     const user = await prisma.user.findUnique({
       where: { id: userId },
+      select: { id: true },
     });
 
     if (!user) {
       throw new AppError('User not found', 404);
     }
 
-    // Check if post exists and is active
-    const post = await prisma.post.findUnique({
-      where: { id: postId },
-    });
-
-    if (!post) {
-      throw new AppError('Post not found', 404);
-    }
-
-    if (post.status !== 'ACTIVE') {
-      throw new AppError('Post is no longer active', 400);
-    }
-    if (!post.isRoast || !post.expiresAt || post.expiresAt <= new Date()) {
-      throw new AppError('Post not found', 404);
-    }
-
-    if (post.userId === user.id) {
-      throw new AppError("You can't vote on your own post.", 400);
-    }
-
-    // Check if user already voted
-    const existingVote = await prisma.vote.findUnique({
-      where: {
-        postId_userId: {
-          postId,
-          userId: user.id,
-        },
-      },
-    });
-
-    let vote: VoteRecord;
-    let voteCountChange = { stay: 0, drop: 0 };
-
-    if (existingVote) {
-      // Update existing vote
-      if (existingVote.voteType === voteType) {
-        // Same vote, no change
-        return res.json({
-          success: true,
-          message: 'Vote already cast',
-          vote: existingVote,
-        });
-      }
-
-      // Change vote
-      const oldVoteType = existingVote.voteType;
-      vote = await prisma.vote.update({
-        where: { id: existingVote.id },
-        data: { voteType },
-      });
+    const result = await setVote(postId, userId, voteType as VoteType);
 
-      // Update vote counts
-      if (oldVoteType === 'STAY' && voteType === 'DROP') {
-        voteCountChange = { stay: -1, drop: 1 };
-      } else if (oldVoteType === 'DROP' && voteType === 'STAY') {
-        voteCountChange = { stay: 1, drop: -1 };
-      }
-    } else {
-      vote = await prisma.vote.create({
-        data: {
-          postId,
-          userId: user.id,
-          voteType,
-        },
+    if (result.change === 'UNCHANGED') {
+      return res.json({
+        success: true,
+        message: 'Vote already cast',
+        vote: result.vote,
+        post: result.post,
       });
-
-      // Update vote counts
-      if (voteType === 'STAY') {
-        voteCountChange = { stay: 1, drop: 0 };
-      } else {
-        voteCountChange = { stay: 0, drop: 1 };
-      }
     }
 
-    // Update post vote counts
-    const updatedPost = await prisma.post.update({
-      where: { id: postId },
-      data: {
-        stayVotes: {
-          increment: voteCountChange.stay,
-        },
-        dropVotes: {
-          increment: voteCountChange.drop,
-        },
-      },
-    });
+    await refreshPostHotScore(postId);
 
     // Emit real-time update via WebSocket
-    getIO().emit('vote-update', {
+    publishRealtimeEvent('vote-update', {
       postId,
-      stayVotes: updatedPost.stayVotes,
-      dropVotes: updatedPost.dropVotes,
+      stayVotes: result.post.stayVotes,
+      dropVotes: result.post.dropVotes,
+      stayBoost: result.post.stayBoost,
+      dropBoost: result.post.dropBoost,
       voteType,
-      userId: user.id,
+      userId,
     });
 
-    logger.info(`Vote cast: ${voteType} on post ${postId} by user ${user.id}`);
+    logger.info(`Vote ${result.change.toLowerCase()}: ${voteType} on post ${postId} by user ${userId}`);
+    if (voteType === 'STAY') {
+      queuePostPointsAward('stay vote received', () =>
+        awardStayVoteReceivedPoints({ postId, voterId: userId })
+      );
+      queuePostAuthorBadgeCheck(postId, ['STAY_VOTES_100']);
+    }
 
+    const vote = result.vote!;
     return res.json({
       success: true,
       vote: {
@@ -159,11 +100,7 @@ router.post('/', async (req: Request, res: Response) => {
         voteType: vote.voteType,
         createdAt: vote.createdAt,
       },
-      post: {
-        id: updatedPost.id,
-        stayVotes: updatedPost.stayVotes,
-        dropVotes: updatedPost.dropVotes,
-      },
+      post: result.post,
     });
   } catch (error) {
     logger.error('Vote error', { error });
@@ -180,6 +117,116 @@ router.post('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/votes/boost
+ * Spend vote credits to add weight to Stay or Drop on a banter
+ */
+router.post('/boost', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const { postId, voteType } = req.body || {};
+    const credits = Number(req.body?.credits);
+
+    if (!postId) {
+      throw new AppError('Post ID is required', 400);
+    }
+    if (!voteType || !['STAY', 'DROP'].includes(voteType)) {
+      throw new AppError('Vote type must be STAY or DROP', 400);
+    }
+
+    const result = await boostVote(postId, userId, voteType as VoteType, credits);
+
+    publishRealtimeEvent('vote-update', {
+      postId,
+      stayVotes: result.post.stayVotes,
+      dropVotes: result.post.dropVotes,
+      stayBoost: result.post.stayBoost,
+      dropBoost: result.post.dropBoost,
+      voteType,
+      userId,
+    });
+
+    logger.info(`Vote boost: ${result.boost.credits} credits on ${voteType} for post ${postId} by user ${userId}`);
+
+    return res.json({
+      success: true,
+      boost: {
+        id: result.boost.id,
+        postId: result.boost.postId,
+        voteType: result.boost.voteType,
+        credits: result.boost.credits,
+        createdAt: result.boost.createdAt,
+      },
+      post: result.post,
+      remainingVotes: result.remainingVotes,
+    });
+  } catch (error) {
+    logger.error('Vote boost error', { error });
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to boost vote',
+    });
+  }
+});
+
+/**
+ * DELETE /api/votes/:postId
+ * Retract the current user's vote on a post
+ */
+router.delete('/:postId', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const postId = req.params.postId;
+    const result = await setVote(postId, userId, null);
+
+    if (result.change === 'RETRACTED') {
+      await refreshPostHotScore(postId);
+      publishRealtimeEvent('vote-update', {
+        postId,
+        stayVotes: result.post.stayVotes,
+        dropVotes: result.post.dropVotes,
+        stayBoost: result.post.stayBoost,
+        dropBoost: result.post.dropBoost,
+        voteType: null,
+        userId,
+      });
+      logger.info(`Vote retracted: ${result.previousType} on post ${postId} by user ${userId}`);
+    }
+
+    return res.json({
+      success: true,
+      retracted: result.change === 'RETRACTED',
+      post: result.post,
+    });
+  } catch (error) {
+    logger.error('Retract vote error', { error });
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to retract vote',
+    });
+  }
+});
+
 /**
  * GET /api/votes/post/:postId
  * Get all votes for a post
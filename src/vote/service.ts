@@ -0,0 +1,379 @@
+import { Prisma, VoteType } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError } from '../utils/errorHandler';
+import { refreshPostHotScore } from '../post/ranking';
+import { applyVoteCreditChange } from '../payment/voteCredits';
+
+type TxClient = Prisma.TransactionClient;
+
+const VOTE_RECOUNT_BATCH_SIZE = 500;
+// Switching or retracting is blocked this close to expiresAt; first votes are still accepted.
+export const VOTE_LOCK_WINDOW_SECONDS = Math.max(
+  0,
+  Number.parseInt(process.env.VOTE_LOCK_WINDOW_SECONDS || '300', 10)
+);
+// Switches plus retractions allowed per user per post; 0 disables changes entirely.
+export const VOTE_MAX_CHANGES_PER_POST = Math.max(
+  0,
+  Number.parseInt(process.env.VOTE_MAX_CHANGES_PER_POST || '3', 10)
+);
+export const VOTE_CHANGE_COOLDOWN_SECONDS = Math.max(
+  0,
+  Number.parseInt(process.env.VOTE_CHANGE_COOLDOWN_SECONDS || '30', 10)
+);
+// Total vote credits one user may boost onto a single banter (both sides combined).
+export const VOTE_BOOST_MAX_CREDITS_PER_POST = Math.max(
+  0,
+  Number.parseInt(process.env.VOTE_BOOST_MAX_CREDITS_PER_POST || '50', 10)
+);
+
+export type VoteChangeKind = 'CAST' | 'SWITCHED' | 'RETRACTED' | 'UNCHANGED';
+
+const toCounterDelta = (voteType: VoteType | null, sign: 1 | -1) => ({
+  stay: voteType === 'STAY' ? sign : 0,
+  drop: voteType === 'DROP' ? sign : 0,
+});
+
+/**
+ * Tallies the survival rule is evaluated on: one per vote plus boosted credits.
+ */
+export const getWeightedTally = (post: {
+  stayVotes: number;
+  dropVotes: number;
+  stayBoost: number;
+  dropBoost: number;
+}) => ({
+  stayVotes: post.stayVotes + post.stayBoost,
+  dropVotes: post.dropVotes + post.dropBoost,
+});
+
+const TALLY_SELECT = {
+  id: true,
+  stayVotes: true,
+  dropVotes: true,
+  stayBoost: true,
+  dropBoost: true,
+} as const;
+
+/**
+ * Lock the post row for the rest of the transaction. Every counter write goes through this
+ * lock, so Vote rows and stayVotes/dropVotes always move together.
+ */
+const lockPost = async (tx: TxClient, postId: string) => {
+  await tx.$executeRaw`SELECT id FROM "Post" WHERE id = ${postId} FOR UPDATE`;
+  return tx.post.findUnique({ where: { id: postId } });
+};
+
+const assertVotablePost = (
+  post: { userId: string; status: string; isRoast: boolean; expiresAt: Date | null } | null,
+  userId: string
+) => {
+  if (!post) {
+    throw new AppError('Post not found', 404);
+  }
+  if (post.status !== 'ACTIVE') {
+    throw new AppError('Post is no longer active', 400);
+  }
+  if (!post.isRoast || !post.expiresAt || post.expiresAt <= new Date()) {
+    throw new AppError('Post not found', 404);
+  }
+  if (post.userId === userId) {
+    throw new AppError("You can't vote on your own post.", 400);
+  }
+};
+
+const assertOutsideLockWindow = (expiresAt: Date, subject: string) => {
+  if (expiresAt.getTime() - Date.now() <= VOTE_LOCK_WINDOW_SECONDS * 1000) {
+    throw new AppError(
+      `${subject} are locked in the final ${Math.ceil(VOTE_LOCK_WINDOW_SECONDS / 60)} minutes before expiry`,
+      409
+    );
+  }
+};
+
+/**
+ * Enforce the lock window, per-post change limit and cooldown for switches, retractions
+ * and re-casts after a retraction. Runs under the post lock, so concurrent requests from
+ * the same user cannot both slip under the limit.
+ */
+const assertVoteChangeAllowed = async (
+  tx: TxClient,
+  post: { id: string; expiresAt: Date },
+  userId: string,
+  lastVoteAt: Date | null
+) => {
+  const now = Date.now();
+  assertOutsideLockWindow(post.expiresAt, 'Votes');
+
+  const [changeCount, lastChange] = await Promise.all([
+    tx.voteChange.count({ where: { postId: post.id, userId } }),
+    tx.voteChange.findFirst({
+      where: { postId: post.id, userId },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    }),
+  ]);
+  if (changeCount >= VOTE_MAX_CHANGES_PER_POST) {
+    throw new AppError('You have reached the vote change limit for this post', 429);
+  }
+
+  const lastActivity = Math.max(lastVoteAt?.getTime() ?? 0, lastChange?.createdAt.getTime() ?? 0);
+  const retryAfterMs = lastActivity + VOTE_CHANGE_COOLDOWN_SECONDS * 1000 - now;
+  if (retryAfterMs > 0) {
+    throw new AppError(
+      `Please wait ${Math.ceil(retryAfterMs / 1000)}s before changing your vote again`,
+      429
+    );
+  }
+};
+
+/**
+ * Set (or clear, with voteType null) a user's vote on a post in one transaction.
+ * Repeating the same request is a no-op, so double-taps never double count.
+ */
+export async function setVote(postId: string, userId: string, voteType: VoteType | null) {
+  return prisma.$transaction(async (tx) => {
+    const post = await lockPost(tx, postId);
+    assertVotablePost(post, userId);
+
+    const existing = await tx.vote.findUnique({
+      where: { postId_userId: { postId, userId } },
+    });
+    const previousType = existing?.voteType ?? null;
+
+    if (previousType === voteType) {
+      return {
+        change: 'UNCHANGED' as VoteChangeKind,
+        vote: existing,
+        previousType,
+        post: {
+          id: postId,
+          stayVotes: post!.stayVotes,
+          dropVotes: post!.dropVotes,
+          stayBoost: post!.stayBoost,
+          dropBoost: post!.dropBoost,
+        },
+      };
+    }
+
+    // Re-casting after a retraction is treated as a change too, or retract + cast would reset it.
+    const hasChangeHistory =
+      !existing &&
+      (await tx.voteChange.count({ where: { postId, userId }, take: 1 })) > 0;
+    if (existing || hasChangeHistory) {
+      await assertVoteChangeAllowed(tx, post!, userId, existing?.createdAt ?? null);
+    }
+
+    let vote = existing;
+    let change: VoteChangeKind;
+    if (!existing) {
+      vote = await tx.vote.create({ data: { postId, userId, voteType: voteType! } });
+      change = 'CAST';
+    } else if (voteType) {
+      vote = await tx.vote.update({ where: { id: existing.id }, data: { voteType } });
+      change = 'SWITCHED';
+    } else {
+      await tx.vote.delete({ where: { id: existing.id } });
+      vote = null;
+      change = 'RETRACTED';
+    }
+    if (existing) {
+      await tx.voteChange.create({
+        data: { postId, userId, fromType: existing.voteType, toType: voteType },
+      });
+    }
+
+    const removed = toCounterDelta(previousType, -1);
+    const added = toCounterDelta(voteType, 1);
+    const updatedPost = await tx.post.update({
+      where: { id: postId },
+      data: {
+        stayVotes: { increment: removed.stay + added.stay },
+        dropVotes: { increment: removed.drop + added.drop },
+      },
+      select: TALLY_SELECT,
+    });
+
+    return { change, vote, previousType, post: updatedPost };
+  });
+}
+
+/**
+ * Spend vote credits to add weight to Stay or Drop on a banter. Credits are debited, the
+ * VoteBoost ledger row written and the post's boost counter bumped in one transaction.
+ */
+export async function boostVote(postId: string, userId: string, voteType: VoteType, credits: number) {
+  if (!Number.isInteger(credits) || credits <= 0) {
+    throw new AppError('credits must be a positive integer', 400);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const post = await lockPost(tx, postId);
+    assertVotablePost(post, userId);
+    assertOutsideLockWindow(post!.expiresAt, 'Boosts');
+
+    const boosted = await tx.voteBoost.aggregate({
+      where: { postId, userId, status: 'ACTIVE' },
+      _sum: { credits: true },
+    });
+    const alreadyBoosted = boosted._sum.credits ?? 0;
+    if (alreadyBoosted + credits > VOTE_BOOST_MAX_CREDITS_PER_POST) {
+      throw new AppError(
+        `You can boost at most ${VOTE_BOOST_MAX_CREDITS_PER_POST} credits per banter (${Math.max(
+          VOTE_BOOST_MAX_CREDITS_PER_POST - alreadyBoosted,
+          0
+        )} left)`,
+        400
+      );
+    }
+
+    const boost = await tx.voteBoost.create({
+      data: { postId, userId, voteType, credits },
+    });
+    const spend = await applyVoteCreditChange(tx, {
+      userId,
+      type: 'BANTER_BOOST',
+      credits: -credits,
+      reference: `vote_boost:${boost.id}`,
+      metadata: { postId, voteType },
+    });
+    const updatedPost = await tx.post.update({
+      where: { id: postId },
+      data: voteType === 'STAY' ? { stayBoost: { increment: credits } } : { dropBoost: { increment: credits } },
+      select: TALLY_SELECT,
+    });
+
+    return { boost, post: updatedPost, remainingVotes: spend.balance ?? 0 };
+  });
+}
+
+/**
+ * Return every active boost on a post to its buyer, inside the caller's transaction. The caller
+ * must hold the post row lock (boostVote takes the same lock), so no boost can land after the
+ * read and be left unrefunded.
+ */
+export async function refundPostBoosts(tx: TxClient, postId: string, reason: string) {
+  const boosts = await tx.voteBoost.findMany({
+    where: { postId, status: 'ACTIVE' },
+    select: { id: true, userId: true, voteType: true, credits: true },
+  });
+
+  let refundedCredits = 0;
+  for (const boost of boosts) {
+    await tx.voteBoost.update({
+      where: { id: boost.id },
+      data: { status: 'REFUNDED', refundedAt: new Date(), refundReason: reason },
+    });
+    await applyVoteCreditChange(tx, {
+      userId: boost.userId,
+      type: 'BOOST_REFUND',
+      credits: boost.credits,
+      reference: `vote_boost_refund:${boost.id}`,
+      metadata: { postId, reason },
+    });
+    await tx.post.updateMany({
+      where: { id: postId },
+      data:
+        boost.voteType === 'STAY'
+          ? { stayBoost: { decrement: boost.credits } }
+          : { dropBoost: { decrement: boost.credits } },
+    });
+    refundedCredits += boost.credits;
+  }
+
+  return { refunded: boosts.length, refundedCredits };
+}
+
+/**
+ * Rebuild one post's counters from its Vote rows. The post row is locked first so votes
+ * landing concurrently are applied after the recount rather than lost.
+ */
+const recountPost = async (postId: string, dryRun: boolean) =>
+  prisma.$transaction(async (tx) => {
+    const post = dryRun
+      ? await tx.post.findUnique({ where: { id: postId } })
+      : await lockPost(tx, postId);
+    if (!post) return null;
+
+    const grouped = await tx.vote.groupBy({
+      by: ['voteType'],
+      where: { postId },
+      _count: { _all: true },
+    });
+    const boosts = await tx.voteBoost.groupBy({
+      by: ['voteType'],
+      where: { postId, status: 'ACTIVE' },
+      _sum: { credits: true },
+    });
+    const actual = {
+      stayVotes: grouped.find((row) => row.voteType === 'STAY')?._count._all ?? 0,
+      dropVotes: grouped.find((row) => row.voteType === 'DROP')?._count._all ?? 0,
+      stayBoost: boosts.find((row) => row.voteType === 'STAY')?._sum.credits ?? 0,
+      dropBoost: boosts.find((row) => row.voteType === 'DROP')?._sum.credits ?? 0,
+    };
+    if (
+      actual.stayVotes === post.stayVotes &&
+      actual.dropVotes === post.dropVotes &&
+      actual.stayBoost === post.stayBoost &&
+      actual.dropBoost === post.dropBoost
+    ) {
+      return null;
+    }
+
+    if (!dryRun) {
+      await tx.post.update({ where: { id: postId }, data: actual });
+    }
+    return {
+      postId,
+      before: {
+        stayVotes: post.stayVotes,
+        dropVotes: post.dropVotes,
+        stayBoost: post.stayBoost,
+        dropBoost: post.dropBoost,
+      },
+      after: actual,
+    };
+  });
+
+/**
+ * Compare post vote and boost counters with Vote/VoteBoost rows and fix any drift.
+ * Without a postId, scans posts in id order starting after `afterId`; the returned
+ * `nextAfterId` resumes the scan.
+ */
+export async function recountVotes(options: {
+  postId?: string;
+  afterId?: string;
+  limit?: number;
+  dryRun?: boolean;
+}) {
+  const dryRun = Boolean(options.dryRun);
+  const limit = Math.min(Math.max(options.limit ?? VOTE_RECOUNT_BATCH_SIZE, 1), 5000);
+
+  const posts = options.postId
+    ? [{ id: options.postId }]
+    : await prisma.post.findMany({
+        where: options.afterId ? { id: { gt: options.afterId } } : {},
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: limit,
+      });
+
+  const drift: Array<NonNullable<Awaited<ReturnType<typeof recountPost>>>> = [];
+  for (const post of posts) {
+    const result = await recountPost(post.id, dryRun);
+    if (!result) continue;
+    drift.push(result);
+    if (!dryRun) {
+      await refreshPostHotScore(post.id);
+    }
+  }
+
+  return {
+    dryRun,
+    scanned: posts.length,
+    drifted: drift.length,
+    drift,
+    nextAfterId:
+      !options.postId && posts.length === limit ? posts[posts.length - 1].id : null,
+  };
+}
@@ -0,0 +1,125 @@
+import { Prisma, PrismaClient, RolLedgerType } from '@prisma/client';
+import { AppError } from '../utils/errorHandler';
+
+type TxClient = Prisma.TransactionClient | PrismaClient;
+
+type RolChangeResult = {
+  applied: boolean;
+  reference: string;
+  amountRaw: bigint;
+  balanceRaw: bigint | null;
+  reason?: 'ALREADY_APPLIED';
+};
+
+/**
+ * The only writer of User.rolBalanceRaw. Amounts are signed raw units (8 decimals) and each
+ * change is recorded once per reference, so replaying a reward or refund is a no-op.
+ * Debits never take the balance below zero.
+ */
+export const applyRolChange = async (
+  tx: TxClient,
+  input: {
+    userId: string;
+    type: RolLedgerType;
+    amountRaw: bigint;
+    reference: string;
+    metadata?: Prisma.InputJsonValue;
+  }
+): Promise<RolChangeResult> => {
+  if (input.amountRaw === BigInt(0)) {
+    throw new AppError('ROL change must be non-zero', 400);
+  }
+
+  const existing = await tx.rolLedger.findUnique({
+    where: { reference: input.reference },
+    select: { id: true },
+  });
+  if (existing) {
+    return {
+      applied: false,
+      reference: input.reference,
+      amountRaw: input.amountRaw,
+      balanceRaw: null,
+      reason: 'ALREADY_APPLIED',
+    };
+  }
+
+  if (input.amountRaw < BigInt(0)) {
+    const debited = await tx.user.updateMany({
+      where: { id: input.userId, rolBalanceRaw: { gte: -input.amountRaw } },
+      data: { rolBalanceRaw: { increment: input.amountRaw } },
+    });
+    if (debited.count === 0) {
+      throw new AppError('Insufficient ROL balance', 402);
+    }
+  } else {
+    await tx.user.update({
+      where: { id: input.userId },
+      data: { rolBalanceRaw: { increment: input.amountRaw } },
+    });
+  }
+
+  const user = await tx.user.findUnique({
+    where: { id: input.userId },
+    select: { rolBalanceRaw: true },
+  });
+  const balanceRaw = user?.rolBalanceRaw ?? BigInt(0);
+
+  // A concurrent duplicate fails here on the unique reference and rolls back its balance change.
+  await tx.rolLedger.create({
+    data: {
+      userId: input.userId,
+      type: input.type,
+      amountRaw: input.amountRaw,
+      balanceAfterRaw: balanceRaw,
+      reference: input.reference,
+      metadata: input.metadata,
+    },
+  });
+
+  return {
+    applied: true,
+    reference: input.reference,
+    amountRaw: input.amountRaw,
+    balanceRaw,
+  };
+};
+
+/**
+ * Compare a user's stored ROL balance with the sum of their ledger entries.
+ */
+export const getRolDrift = async (tx: TxClient, userId: string) => {
+  const [user, ledger] = await Promise.all([
+    tx.user.findUnique({ where: { id: userId }, select: { rolBalanceRaw: true } }),
+    tx.rolLedger.aggregate({
+      where: { userId },
+      _sum: { amountRaw: true },
+    }),
+  ]);
+  const balanceRaw = user?.rolBalanceRaw ?? BigInt(0);
+  const ledgerSumRaw = ledger._sum.amountRaw ?? BigInt(0);
+  return {
+    balanceRaw,
+    ledgerSumRaw,
+    driftRaw: balanceRaw - ledgerSumRaw,
+    mismatch: balanceRaw !== ledgerSumRaw,
+  };
+};
+
+export const serializeRolLedgerEntry = (entry: {
+  id: string;
+  type: RolLedgerType;
+  amountRaw: bigint;
+  balanceAfterRaw: bigint;
+  reference: string;
+  metadata: Prisma.JsonValue | null;
+  createdAt: Date;
+}) => ({
+  id: entry.id,
+  type: entry.type,
+  amountRaw: entry.amountRaw.toString(),
+  balanceAfterRaw: entry.balanceAfterRaw.toString(),
+  reference: entry.reference,
+  metadata: entry.metadata,
+  createdAt: entry.createdAt,
+});
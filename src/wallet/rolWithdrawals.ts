@@ -0,0 +1,439 @@
+import { Prisma, RolWithdrawal } from '@prisma/client';
+import { prisma } from '../index';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandler';
+import { createNotification } from '../notification/service';
+import { formatRolAmount } from '../post/lifecycle';
+import {
+  buildRolTransfer,
+  getRolTreasurySequenceNumber,
+  getMovementTransactionStatus,
+  getRolWithdrawalTokenAddress,
+  isRolWithdrawalConfigured,
+  submitRolTransfer,
+} from '../auth/aptosWalletService';
+import { applyRolChange } from './rolLedger';
+
+const parseRawAmountEnv = (value: string | undefined, fallback: string) => {
+  try {
+    const parsed = BigInt(value || fallback);
+    return parsed > BigInt(0) ? parsed : BigInt(fallback);
+  } catch {
+    return BigInt(fallback);
+  }
+};
+
+// Raw units, 8 decimals: 1 ROL minimum, admin approval from 1,000 ROL.
+const ROL_WITHDRAWAL_MIN_RAW = parseRawAmountEnv(process.env.ROL_WITHDRAWAL_MIN_RAW, '100000000');
+const ROL_WITHDRAWAL_APPROVAL_THRESHOLD_RAW = parseRawAmountEnv(
+  process.env.ROL_WITHDRAWAL_APPROVAL_THRESHOLD_RAW,
+  '100000000000'
+);
+const ROL_WITHDRAWAL_BATCH_SIZE = Math.max(
+  1,
+  Number.parseInt(process.env.ROL_WITHDRAWAL_BATCH_SIZE || '20', 10)
+);
+const ROL_WITHDRAWAL_EXPIRY_GRACE_MS = Math.max(
+  0,
+  Number.parseInt(process.env.ROL_WITHDRAWAL_EXPIRY_GRACE_MS || '60000', 10)
+);
+
+const OPEN_WITHDRAWAL_STATUSES = ['PENDING', 'APPROVED', 'BROADCAST'] as const;
+
+export const serializeRolWithdrawal = (withdrawal: RolWithdrawal) => ({
+  ...withdrawal,
+  amountRaw: withdrawal.amountRaw.toString(),
+});
+
+export const parseRolAmountRaw = (value: unknown) => {
+  try {
+    const parsed = BigInt(String(value));
+    if (parsed <= BigInt(0)) throw new Error('non-positive');
+    return parsed;
+  } catch {
+    throw new AppError('amountRaw must be a positive integer string', 400);
+  }
+};
+
+/**
+ * Debit the user's off-chain ROL and queue a transfer to their Movement address.
+ * Amounts at or above the approval threshold wait in PENDING for an admin.
+ */
+export async function requestRolWithdrawal(input: { userId: string; amountRaw: bigint }) {
+  if (input.amountRaw < ROL_WITHDRAWAL_MIN_RAW) {
+    throw new AppError(
+      `Minimum withdrawal is ${formatRolAmount(ROL_WITHDRAWAL_MIN_RAW)} ROL`,
+      400
+    );
+  }
+
+  const withdrawal = await prisma.$transaction(async (tx) => {
+    // Serialize requests per user so only one withdrawal can be open at a time.
+    await tx.$executeRaw`SELECT id FROM "User" WHERE id = ${input.userId} FOR UPDATE`;
+
+    const user = await tx.user.findUnique({
+      where: { id: input.userId },
+      select: { movementAddress: true },
+    });
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+    if (!user.movementAddress) {
+      throw new AppError('Link a Movement wallet before withdrawing ROL', 400);
+    }
+
+    const open = await tx.rolWithdrawal.findFirst({
+      where: { userId: input.userId, status: { in: [...OPEN_WITHDRAWAL_STATUSES] } },
+      select: { id: true },
+    });
+    if (open) {
+      throw new AppError('You already have a withdrawal in progress', 409);
+    }
+
+    const requiresApproval = input.amountRaw >= ROL_WITHDRAWAL_APPROVAL_THRESHOLD_RAW;
+    const created = await tx.rolWithdrawal.create({
+      data: {
+        userId: input.userId,
+        amountRaw: input.amountRaw,
+        toAddress: user.movementAddress,
+        requiresApproval,
+        status: requiresApproval ? 'PENDING' : 'APPROVED',
+        approvedAt: requiresApproval ? null : new Date(),
+      },
+    });
+
+    await applyRolChange(tx, {
+      userId: input.userId,
+      type: 'WITHDRAWAL',
+      amountRaw: -input.amountRaw,
+      reference: `rol_withdrawal:${created.id}`,
+      metadata: { withdrawalId: created.id, toAddress: created.toAddress },
+    });
+
+    return created;
+  });
+
+  logger.info('ROL withdrawal requested', {
+    withdrawalId: withdrawal.id,
+    userId: withdrawal.userId,
+    amountRaw: withdrawal.amountRaw.toString(),
+    requiresApproval: withdrawal.requiresApproval,
+  });
+  return withdrawal;
+}
+
+export async function approveRolWithdrawal(withdrawalId: string, approvedBy: string | null) {
+  const result = await prisma.rolWithdrawal.updateMany({
+    where: { id: withdrawalId, status: 'PENDING' },
+    data: { status: 'APPROVED', approvedBy, approvedAt: new Date() },
+  });
+  if (result.count === 0) {
+    const existing = await prisma.rolWithdrawal.findUnique({
+      where: { id: withdrawalId },
+      select: { status: true },
+    });
+    if (!existing) {
+      throw new AppError('Withdrawal not found', 404);
+    }
+    throw new AppError(`Withdrawal is ${existing.status.toLowerCase()}, not pending`, 409);
+  }
+  return prisma.rolWithdrawal.findUniqueOrThrow({ where: { id: withdrawalId } });
+}
+
+/**
+ * Move a withdrawal to a terminal failure state and return the ROL to the user.
+ * Only withdrawals currently in one of `fromStatuses` are touched.
+ */
+async function closeWithdrawalWithRefund(
+  withdrawalId: string,
+  fromStatuses: RolWithdrawal['status'][],
+  data: Prisma.RolWithdrawalUpdateManyMutationInput & { status: 'FAILED' | 'REJECTED' }
+) {
+  const closed = await prisma.$transaction(async (tx) => {
+    const updated = await tx.rolWithdrawal.updateMany({
+      where: { id: withdrawalId, status: { in: fromStatuses } },
+      data,
+    });
+    if (updated.count === 0) {
+      return null;
+    }
+
+    const withdrawal = await tx.rolWithdrawal.findUniqueOrThrow({ where: { id: withdrawalId } });
+    await applyRolChange(tx, {
+      userId: withdrawal.userId,
+      type: 'WITHDRAWAL_REFUND',
+      amountRaw: withdrawal.amountRaw,
+      reference: `rol_withdrawal_refund:${withdrawal.id}`,
+      metadata: { withdrawalId: withdrawal.id, status: data.status },
+    });
+    return withdrawal;
+  });
+
+  if (closed) {
+    await createNotification({
+      userId: closed.userId,
+      type: 'SYSTEM',
+      title: 'ROL withdrawal returned',
+      body: `Your withdrawal of ${formatRolAmount(closed.amountRaw)} ROL could not be completed and was returned to your balance.`,
+      data: { withdrawalId: closed.id, status: closed.status },
+      reference: `rol_withdrawal_refund:${closed.id}`,
+    });
+  }
+  return closed;
+}
+
+export async function rejectRolWithdrawal(
+  withdrawalId: string,
+  rejectedBy: string | null,
+  reason: string | null
+) {
+  const rejected = await closeWithdrawalWithRefund(withdrawalId, ['PENDING', 'APPROVED'], {
+    status: 'REJECTED',
+    rejectedBy,
+    rejectedReason: reason,
+  });
+  if (!rejected) {
+    const existing = await prisma.rolWithdrawal.findUnique({
+      where: { id: withdrawalId },
+      select: { status: true },
+    });
+    if (!existing) {
+      throw new AppError('Withdrawal not found', 404);
+    }
+    throw new AppError(`Withdrawal is ${existing.status.toLowerCase()} and can no longer be rejected`, 409);
+  }
+  return rejected;
+}
+
+const failWithdrawal = (withdrawalId: string, reason: string) =>
+  closeWithdrawalWithRefund(withdrawalId, ['BROADCAST'], {
+    status: 'FAILED',
+    failedAt: new Date(),
+    failureReason: reason.slice(0, 500),
+  });
+
+/**
+ * Sign and submit approved withdrawals from the treasury. The transaction hash is stored
+ * before submission, so a crash mid-broadcast leaves a BROADCAST row that reconciliation
+ * can settle instead of a transfer the database does not know about.
+ */
+export async function broadcastApprovedRolWithdrawals(options: { limit?: number } = {}) {
+  if (!isRolWithdrawalConfigured()) {
+    return { skipped: true, scanned: 0, broadcast: 0, failed: 0, errors: 0 };
+  }
+
+  // The committed sequence number does not count transfers still in the mempool, so numbering
+  // from it while earlier transfers are unconfirmed would reuse their numbers. Wait for
+  // reconciliation to settle them first.
+  const unconfirmed = await prisma.rolWithdrawal.count({ where: { status: 'BROADCAST' } });
+  if (unconfirmed > 0) {
+    return { skipped: true, unconfirmed, scanned: 0, broadcast: 0, failed: 0, errors: 0 };
+  }
+
+  const limit = Math.max(1, Math.min(options.limit ?? ROL_WITHDRAWAL_BATCH_SIZE, 100));
+  const approved = await prisma.rolWithdrawal.findMany({
+    where: { status: 'APPROVED' },
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+  });
+
+  let broadcast = 0;
+  let failed = 0;
+  let errors = 0;
+  if (!approved.length) {
+    return { skipped: false, scanned: 0, broadcast, failed, errors };
+  }
+
+  // Transfers in a batch are pending together, so the chain's sequence number does not move
+  // between them: number them from one read and only advance past transfers the node accepted.
+  let sequenceNumber = await getRolTreasurySequenceNumber();
+  for (const withdrawal of approved) {
+    try {
+      const signed = await buildRolTransfer({
+        toAddress: withdrawal.toAddress,
+        amountRaw: withdrawal.amountRaw,
+        sequenceNumber,
+      });
+
+      const claimed = await prisma.rolWithdrawal.updateMany({
+        where: { id: withdrawal.id, status: 'APPROVED' },
+        data: {
+          status: 'BROADCAST',
+          txHash: signed.txHash,
+          txExpiresAt: signed.expiresAt,
+          broadcastAt: new Date(),
+        },
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      const submitted = await submitRolTransfer(signed);
+      if (!submitted.accepted) {
+        await failWithdrawal(withdrawal.id, submitted.reason);
+        failed += 1;
+        logger.warn('ROL withdrawal rejected by node', {
+          withdrawalId: withdrawal.id,
+          reason: submitted.reason,
+        });
+        continue;
+      }
+
+      sequenceNumber += BigInt(1);
+      broadcast += 1;
+      logger.info('ROL withdrawal broadcast', {
+        withdrawalId: withdrawal.id,
+        txHash: submitted.txHash,
+      });
+    } catch (error) {
+      errors += 1;
+      logger.error('ROL withdrawal broadcast failed', { withdrawalId: withdrawal.id, error });
+      // The transfer may or may not hold this sequence number; the next run reads it afresh.
+      break;
+    }
+  }
+
+  return { skipped: false, scanned: approved.length, broadcast, failed, errors };
+}
+
+/**
+ * Record a confirmed withdrawal as a WalletTransaction on the user's Movement wallet, or link
+ * the row the indexer already stored for the same hash. Returns whether the stored row agrees
+ * with the withdrawal.
+ */
+async function linkWalletTransaction(
+  withdrawal: RolWithdrawal,
+  txHash: string,
+  blockTime: Date
+) {
+  const existing = await prisma.walletTransaction.findUnique({ where: { txHash } });
+  if (existing) {
+    const matches =
+      existing.amount === withdrawal.amountRaw.toString() &&
+      (existing.toAddress || '').toLowerCase() === withdrawal.toAddress.toLowerCase();
+    return { walletTransactionId: existing.id, matches };
+  }
+
+  const wallet = await prisma.wallet.findFirst({
+    where: {
+      userId: withdrawal.userId,
+      blockchain: 'MOVEMENT',
+      address: { equals: withdrawal.toAddress, mode: 'insensitive' },
+    },
+    select: { id: true },
+  });
+  if (!wallet) {
+    return { walletTransactionId: null, matches: false };
+  }
+
+  const created = await prisma.walletTransaction.create({
+    data: {
+      walletId: wallet.id,
+      txHash,
+      txType: 'RECEIVE',
+      amount: withdrawal.amountRaw.toString(),
+      tokenAddress: getRolWithdrawalTokenAddress(),
+      tokenSymbol: 'ROL',
+      toAddress: withdrawal.toAddress,
+      status: 'COMPLETED',
+      blockTime,
+      description: 'ROL rewards withdrawal',
+      metadata: { source: 'rol-withdrawal', withdrawalId: withdrawal.id, decimals: 8 },
+    },
+  });
+  return { walletTransactionId: created.id, matches: true };
+}
+
+/**
+ * Settle BROADCAST withdrawals against the chain: confirm committed transfers and link them to
+ * WalletTransaction, refund failed ones, and refund ones whose transaction expired unseen.
+ */
+export async function reconcileRolWithdrawals(options: { limit?: number } = {}) {
+  const limit = Math.max(1, Math.min(options.limit ?? ROL_WITHDRAWAL_BATCH_SIZE, 100));
+  const inFlight = await prisma.rolWithdrawal.findMany({
+    where: { status: 'BROADCAST' },
+    orderBy: { broadcastAt: 'asc' },
+    take: limit,
+  });
+
+  let confirmed = 0;
+  let failed = 0;
+  let pending = 0;
+  let errors = 0;
+  const mismatched: string[] = [];
+
+  for (const withdrawal of inFlight) {
+    try {
+      if (!withdrawal.txHash) {
+        pending += 1;
+        continue;
+      }
+
+      const status = await getMovementTransactionStatus(withdrawal.txHash);
+      if (status.state === 'SUCCESS') {
+        const link = await linkWalletTransaction(
+          withdrawal,
+          withdrawal.txHash,
+          status.timestamp
+        );
+        const updated = await prisma.rolWithdrawal.updateMany({
+          where: { id: withdrawal.id, status: 'BROADCAST' },
+          data: {
+            status: 'CONFIRMED',
+            confirmedAt: status.timestamp,
+            walletTransactionId: link.walletTransactionId,
+          },
+        });
+        if (updated.count === 0) continue;
+
+        confirmed += 1;
+        if (!link.matches) {
+          mismatched.push(withdrawal.id);
+          logger.warn('ROL withdrawal confirmed without a matching wallet transaction', {
+            withdrawalId: withdrawal.id,
+            txHash: withdrawal.txHash,
+            walletTransactionId: link.walletTransactionId,
+          });
+        }
+
+        await createNotification({
+          userId: withdrawal.userId,
+          type: 'WALLET_RECEIVE',
+          title: 'ROL withdrawal confirmed',
+          body: `${formatRolAmount(withdrawal.amountRaw)} ROL was sent to your Movement wallet.`,
+          data: {
+            withdrawalId: withdrawal.id,
+            txHash: withdrawal.txHash,
+            tokenSymbol: 'ROL',
+            amountRaw: withdrawal.amountRaw.toString(),
+          },
+          reference: `rol_withdrawal_confirmed:${withdrawal.id}`,
+        });
+        continue;
+      }
+
+      if (status.state === 'FAILED') {
+        if (await failWithdrawal(withdrawal.id, `Transaction failed: ${status.vmStatus}`)) {
+          failed += 1;
+        }
+        continue;
+      }
+
+      const expiredAt = withdrawal.txExpiresAt?.getTime() ?? 0;
+      if (status.state === 'NOT_FOUND' && Date.now() > expiredAt + ROL_WITHDRAWAL_EXPIRY_GRACE_MS) {
+        // Past its expiration the transaction can never commit, so the debit is safe to return.
+        if (await failWithdrawal(withdrawal.id, 'Transaction expired before it was committed')) {
+          failed += 1;
+        }
+        continue;
+      }
+
+      pending += 1;
+    } catch (error) {
+      errors += 1;
+      logger.error('ROL withdrawal reconciliation failed', { withdrawalId: withdrawal.id, error });
+    }
+  }
+
+  return { scanned: inFlight.length, confirmed, failed, pending, errors, mismatched };
+}
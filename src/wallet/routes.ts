@@ -2,7 +2,20 @@ import { Router, Request, Response } from 'express';
 import { prisma } from '../index';
 import { logger } from '../utils/logger';
 import { AppError } from '../utils/errorHandler';
+import {
+  buildCursorPage,
+  buildTimeCursorWhere,
+  decodeTimeCursor,
+  encodeTimeCursor,
+  parseCursorParams,
+} from '../utils/cursor';
 import { syncMovementBalance, syncSolanaBalance } from './balanceIndexer';
+import { serializeRolLedgerEntry } from './rolLedger';
+import {
+  parseRolAmountRaw,
+  requestRolWithdrawal,
+  serializeRolWithdrawal,
+} from './rolWithdrawals';
 import axios from 'axios';
 import { createNotification } from '../notification/service';
 import { Connection, PublicKey } from '@solana/web3.js';
@@ -45,8 +58,8 @@ const walletOverviewCache = new Map<
   }
 >();
 
-const walletOverviewCacheKey = (userId: string, page: number, limit: number) =>
-  `${userId}:${page}:${limit}`;
+const walletOverviewCacheKey = (userId: string, cursor: string | null, limit: number) =>
+  `${userId}:${cursor || 'first'}:${limit}`;
 
 const clonePayload = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
 
@@ -63,9 +76,9 @@ const trimWalletOverviewCache = () => {
   keys.forEach((key) => walletOverviewCache.delete(key));
 };
 
-const getWalletOverviewCache = (userId: string, page: number, limit: number) => {
+const getWalletOverviewCache = (userId: string, cursor: string | null, limit: number) => {
   trimWalletOverviewCache();
-  const key = walletOverviewCacheKey(userId, page, limit);
+  const key = walletOverviewCacheKey(userId, cursor, limit);
   const cached = walletOverviewCache.get(key);
   if (!cached || cached.expiresAt <= Date.now()) {
     return null;
@@ -75,12 +88,12 @@ const getWalletOverviewCache = (userId: string, page: number, limit: number) =>
 
 const setWalletOverviewCache = (
   userId: string,
-  page: number,
+  cursor: string | null,
   limit: number,
   payload: Record<string, unknown>
 ) => {
   trimWalletOverviewCache();
-  walletOverviewCache.set(walletOverviewCacheKey(userId, page, limit), {
+  walletOverviewCache.set(walletOverviewCacheKey(userId, cursor, limit), {
     expiresAt: Date.now() + WALLET_OVERVIEW_CACHE_TTL_MS,
     payload: clonePayload(payload),
   });
@@ -642,38 +655,37 @@ const getWalletBalancesPayload = async (
   };
 };
 
-const getStoredTransactionsPayload = async (walletIds: string[], page: number, limit: number) => {
-  const skip = (page - 1) * limit;
-  const [transactions, total] = await Promise.all([
-    prisma.walletTransaction.findMany({
-      where: {
-        walletId: { in: walletIds },
-        OR: [
-          { paymentId: null },
-          { payment: { status: 'COMPLETED' } },
-        ],
-      },
-      orderBy: { createdAt: 'desc' },
-      skip,
-      take: limit,
-    }),
-    prisma.walletTransaction.count({
-      where: {
-        walletId: { in: walletIds },
-        OR: [
-          { paymentId: null },
-          { payment: { status: 'COMPLETED' } },
-        ],
-      },
-    }),
-  ]);
+const getStoredTransactionsPayload = async (
+  walletIds: string[],
+  cursor: string | null,
+  limit: number
+) => {
+  const rows = await prisma.walletTransaction.findMany({
+    where: {
+      walletId: { in: walletIds },
+      OR: [
+        { paymentId: null },
+        { payment: { status: 'COMPLETED' } },
+      ],
+      AND: [buildTimeCursorWhere(decodeTimeCursor(cursor))],
+    },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+  });
+  const { items, pagination } = buildCursorPage(rows, limit, encodeTimeCursor);
 
   return {
-    transactions,
-    total,
+    transactions: items,
+    pagination,
   };
 };
 
+const emptyTransactionsPagination = (limit: number) => ({
+  limit,
+  nextCursor: null,
+  hasMore: false,
+});
+
 const collectMovementIndexerTransactions = async (wallet: { id: string; address: string }) => {
   const activities = await fetchMovementUSDCHistory(wallet.address);
   const moveActivities = await fetchMovementMoveHistory(wallet.address);
@@ -940,6 +952,7 @@ router.post('/sync/:walletId', async (req: Request, res: Response) => {
 /**
  * GET /api/wallet/transactions
  * Get recent wallet transactions for authenticated user
+ * Query params: limit, cursor, includeIndexer=1 (first page only), sync=1
  */
 router.get('/transactions', async (req: Request, res: Response) => {
   try {
@@ -948,8 +961,7 @@ router.get('/transactions', async (req: Request, res: Response) => {
       throw new AppError('User not authenticated', 401);
     }
 
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 50;
+    const { limit, cursor } = parseCursorParams(req.query, { defaultLimit: 50, maxLimit: 100 });
     const wallets = await prisma.wallet.findMany({
       where: { userId },
       select: { id: true },
@@ -957,13 +969,14 @@ router.get('/transactions', async (req: Request, res: Response) => {
 
     const walletIds = wallets.map((w) => w.id);
     if (walletIds.length === 0) {
-      return res.json({ success: true, transactions: [], pagination: { page, limit, total: 0, totalPages: 0 } });
+      return res.json({ success: true, transactions: [], pagination: emptyTransactionsPagination(limit) });
     }
 
-    const includeIndexer = req.query.includeIndexer === '1';
+    // Live indexer rows have no stable cursor position, so they are only merged into the first page.
+    const includeIndexer = req.query.includeIndexer === '1' && !cursor;
     const syncIndexer = req.query.sync === '1' || includeIndexer;
 
-    const { transactions, total } = await getStoredTransactionsPayload(walletIds, page, limit);
+    const { transactions, pagination } = await getStoredTransactionsPayload(walletIds, cursor, limit);
 
     let indexerTransactions: any[] = [];
     if (includeIndexer) {
@@ -1003,12 +1016,7 @@ router.get('/transactions', async (req: Request, res: Response) => {
     return res.json({
       success: true,
       transactions: mergedTransactions,
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
+      pagination,
     });
   } catch (error) {
     logger.error('Get transactions error', { error });
@@ -1026,14 +1034,13 @@ router.get('/overview', async (req: Request, res: Response) => {
       throw new AppError('User not authenticated', 401);
     }
 
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
+    const { limit, cursor } = parseCursorParams(req.query, { defaultLimit: 20, maxLimit: 100 });
     const refresh = req.query.refresh === '1';
     const awaitRefresh = req.query.await_refresh === '1';
     const refreshWithTransactions = req.query.refresh_transactions === '1';
 
     if (!refresh) {
-      const cached = getWalletOverviewCache(userId, page, limit);
+      const cached = getWalletOverviewCache(userId, cursor, limit);
       if (cached) {
         return res.json(cached);
       }
@@ -1090,26 +1097,21 @@ router.get('/overview', async (req: Request, res: Response) => {
         : initialSnapshot;
 
     const walletIds = overviewSnapshot.wallets.map((wallet) => wallet.id);
-    const { transactions, total } =
+    const { transactions, pagination } =
       walletIds.length > 0
-        ? await getStoredTransactionsPayload(walletIds, page, limit)
-        : { transactions: [], total: 0 };
+        ? await getStoredTransactionsPayload(walletIds, cursor, limit)
+        : { transactions: [], pagination: emptyTransactionsPagination(limit) };
 
     const payload = {
       success: true,
       balances: overviewSnapshot.balances,
       wallets: overviewSnapshot.wallets,
       transactions,
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
+      pagination,
     };
 
     if (!refresh) {
-      setWalletOverviewCache(userId, page, limit, payload);
+      setWalletOverviewCache(userId, cursor, limit, payload);
     }
 
     return res.json(payload);
@@ -1122,4 +1124,110 @@ router.get('/overview', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/wallet/rol/history
+ * Off-chain ROL ledger for the authenticated user, newest first.
+ * Query params: limit, cursor
+ */
+router.get('/rol/history', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const { limit, cursor } = parseCursorParams(req.query, { defaultLimit: 30, maxLimit: 100 });
+    const [user, rows] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { rolBalanceRaw: true } }),
+      prisma.rolLedger.findMany({
+        where: {
+          userId,
+          ...buildTimeCursorWhere(decodeTimeCursor(cursor)),
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+      }),
+    ]);
+    const { items, pagination } = buildCursorPage(rows, limit, encodeTimeCursor);
+
+    return res.json({
+      success: true,
+      rolBalanceRaw: (user?.rolBalanceRaw ?? BigInt(0)).toString(),
+      history: items.map(serializeRolLedgerEntry),
+      pagination,
+    });
+  } catch (error) {
+    logger.error('Get ROL history error', { error });
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    return res.status(500).json({ success: false, message: 'Failed to get ROL history' });
+  }
+});
+
+/**
+ * GET /api/wallet/rol/withdrawals
+ * Query params: limit, cursor
+ */
+router.get('/rol/withdrawals', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const { limit, cursor } = parseCursorParams(req.query, { defaultLimit: 20, maxLimit: 100 });
+    const rows = await prisma.rolWithdrawal.findMany({
+      where: {
+        userId,
+        ...buildTimeCursorWhere(decodeTimeCursor(cursor)),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+    });
+    const { items, pagination } = buildCursorPage(rows, limit, encodeTimeCursor);
+
+    return res.json({
+      success: true,
+      withdrawals: items.map(serializeRolWithdrawal),
+      pagination,
+    });
+  } catch (error) {
+    logger.error('Get ROL withdrawals error', { error });
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    return res.status(500).json({ success: false, message: 'Failed to get ROL withdrawals' });
+  }
+});
+
+/**
+ * POST /api/wallet/rol/withdrawals
+ * Withdraw accrued ROL to the user's Movement address.
+ * Body: amountRaw (string, 8 decimals)
+ */
+router.post('/rol/withdrawals', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const amountRaw = parseRolAmountRaw(req.body?.amountRaw);
+    const withdrawal = await requestRolWithdrawal({ userId, amountRaw });
+    invalidateWalletOverviewCache(userId);
+
+    return res.status(201).json({
+      success: true,
+      withdrawal: serializeRolWithdrawal(withdrawal),
+    });
+  } catch (error) {
+    logger.error('Request ROL withdrawal error', { error });
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    return res.status(500).json({ success: false, message: 'Failed to request ROL withdrawal' });
+  }
+});
+
 export default router;
@@ -0,0 +1,576 @@
+/**
+ * Catalogue of every realtime event, in both directions. Each payload is declared once as a
+ * JSON Schema: TypeScript types are inferred from it, inbound payloads are validated against it,
+ * and `npm run realtime:schema` publishes it for client codegen.
+ *
+ * Bump an event's version whenever its payload changes shape; clients read it from `v`.
+ * This module has no runtime imports so the schema script can load it without the app.
+ */
+
+type JsonSchema =
+  | {
+      type: 'string';
+      enum?: readonly string[];
+      format?: 'date-time';
+      minLength?: number;
+      maxLength?: number;
+    }
+  | { type: 'integer' | 'number'; const?: number; minimum?: number }
+  | { type: 'boolean' }
+  | { type: 'null' }
+  | { type: 'array'; items: JsonSchema }
+  | {
+      type: 'object';
+      properties: Record<string, JsonSchema>;
+      required: readonly string[];
+      additionalProperties: false;
+    }
+  | { type: 'object'; additionalProperties: JsonSchema }
+  | { anyOf: readonly JsonSchema[] }
+  // Any JSON value
+  | Record<string, never>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & unknown;
+
+type ObjectFromSchema<P, R> = Simplify<
+  { [K in keyof P as K extends R ? K : never]: FromSchema<P[K]> } & {
+    [K in keyof P as K extends R ? never : K]?: FromSchema<P[K]>;
+  }
+>;
+
+/**
+ * TypeScript type of a value matching schema S. Date-time strings also accept a Date on the
+ * server, since Socket.IO serialises it to the same ISO string.
+ */
+export type FromSchema<S> = S extends { anyOf: readonly (infer U)[] }
+  ? FromSchema<U>
+  : S extends { type: 'string'; enum: readonly (infer E)[] }
+    ? E
+    : S extends { type: 'string'; format: 'date-time' }
+      ? string | Date
+      : S extends { type: 'string' }
+        ? string
+        : S extends { type: 'integer' | 'number'; const: infer C }
+          ? C
+          : S extends { type: 'integer' | 'number' }
+            ? number
+            : S extends { type: 'boolean' }
+              ? boolean
+              : S extends { type: 'null' }
+                ? null
+                : S extends { type: 'array'; items: infer I }
+                  ? FromSchema<I>[]
+                  : S extends {
+                        type: 'object';
+                        properties: infer P;
+                        required: readonly (infer R)[];
+                      }
+                    ? ObjectFromSchema<P, R>
+                    : S extends { type: 'object'; additionalProperties: infer A }
+                      ? Record<string, FromSchema<A>>
+                      : unknown;
+
+const id = { type: 'string', minLength: 1, maxLength: 128 } as const;
+const text = { type: 'string' } as const;
+const dateTime = { type: 'string', format: 'date-time' } as const;
+const integer = { type: 'integer' } as const;
+const number = { type: 'number' } as const;
+const boolean = { type: 'boolean' } as const;
+const anyJson = {} as const;
+
+const nullable = <S extends JsonSchema>(schema: S) => ({
+  anyOf: [schema, { type: 'null' }] as const,
+});
+
+const stringEnum = <E extends string>(values: readonly E[]) => ({
+  type: 'string' as const,
+  enum: values,
+});
+
+const arrayOf = <S extends JsonSchema>(items: S) => ({ type: 'array' as const, items });
+
+const recordOf = <S extends JsonSchema>(values: S) => ({
+  type: 'object' as const,
+  additionalProperties: values,
+});
+
+// Closed object; every property is required unless listed in `optional`.
+const object = <P extends Record<string, JsonSchema>, O extends keyof P & string = never>(
+  properties: P,
+  optional: readonly O[] = []
+) => ({
+  type: 'object' as const,
+  properties,
+  required: Object.keys(properties).filter(
+    (key) => !(optional as readonly string[]).includes(key)
+  ) as Exclude<keyof P & string, O>[],
+  additionalProperties: false as const,
+});
+
+/**
+ * Who receives a server event: clients in a post, feed, PCA category or user room, or only the
+ * socket that sent the request being answered.
+ */
+export type RealtimeAudience = 'post' | 'feed' | 'pcaCategory' | 'user' | 'socket';
+
+const serverEvent = <
+  V extends number,
+  A extends RealtimeAudience,
+  P extends Record<string, JsonSchema>,
+  O extends keyof P & string = never,
+>(definition: {
+  version: V;
+  audience: readonly A[];
+  description: string;
+  payload: P;
+  optional?: readonly O[];
+}) => ({
+  version: definition.version,
+  audience: definition.audience,
+  description: definition.description,
+  schema: object(
+    { v: { type: 'integer' as const, const: definition.version }, ...definition.payload },
+    definition.optional
+  ),
+});
+
+const clientEvent = <S extends JsonSchema>(description: string, schema: S) => ({
+  description,
+  schema,
+});
+
+const postTally = {
+  stayVotes: integer,
+  dropVotes: integer,
+  stayBoost: integer,
+  dropBoost: integer,
+};
+
+const reactionAction = stringEnum(['created', 'updated', 'removed']);
+
+const comment = object(
+  {
+    id,
+    postId: id,
+    userId: id,
+    parentId: nullable(id),
+    content: text,
+    createdAt: dateTime,
+    user: object({
+      id,
+      displayName: nullable(text),
+      username: nullable(text),
+      avatarUrl: nullable(text),
+    }),
+    replyCount: integer,
+  },
+  ['replyCount']
+);
+
+const pcaStanding = object({
+  nomineeId: id,
+  name: nullable(text),
+  groupIndex: integer,
+  votes: integer,
+  sharePct: number,
+});
+
+export const SERVER_EVENTS = {
+  'vote-update': serverEvent({
+    version: 1,
+    audience: ['post'],
+    description: "A post's Stay/Drop tally changed. voteType is null when a vote was retracted.",
+    payload: {
+      postId: id,
+      ...postTally,
+      voteType: nullable(stringEnum(['STAY', 'DROP'])),
+      userId: id,
+    },
+  }),
+  'share-update': serverEvent({
+    version: 1,
+    audience: ['post'],
+    description: "A post's share count changed.",
+    payload: { postId: id, shareCount: integer },
+  }),
+  'repost-update': serverEvent({
+    version: 1,
+    audience: ['post'],
+    description: "A post's repost count changed.",
+    payload: { postId: id, repostCount: integer },
+  }),
+  'post-hidden': serverEvent({
+    version: 1,
+    audience: ['post', 'feed'],
+    description:
+      'A post left the feed: archived by its vote, deleted by its author or removed by an admin.',
+    payload: { postId: id, reason: text, league: nullable(text), ...postTally },
+    optional: ['reason', 'league', 'stayVotes', 'dropVotes', 'stayBoost', 'dropBoost'],
+  }),
+  'post-stays': serverEvent({
+    version: 1,
+    audience: ['post'],
+    description: 'A post survived its vote and starts another cycle.',
+    payload: {
+      postId: id,
+      reason: text,
+      ...postTally,
+      survivalCycles: integer,
+      rewardCyclesPaid: integer,
+      nextExpiresAt: dateTime,
+    },
+  }),
+  'reaction-update': serverEvent({
+    version: 1,
+    audience: ['post'],
+    description: "A post's reactions changed.",
+    payload: {
+      postId: id,
+      reactionCount: integer,
+      reactionBreakdown: recordOf(integer),
+      action: reactionAction,
+      type: text,
+      userId: id,
+    },
+  }),
+  'comment-created': serverEvent({
+    version: 1,
+    audience: ['post'],
+    description: 'A comment was posted on a post.',
+    payload: { postId: id, comment, commentCount: integer },
+  }),
+  'comment-updated': serverEvent({
+    version: 1,
+    audience: ['post'],
+    description: 'A comment on a post was edited.',
+    payload: { postId: id, comment },
+  }),
+  'comment-deleted': serverEvent({
+    version: 1,
+    audience: ['post'],
+    description: 'A comment on a post was deleted.',
+    payload: { postId: id, commentId: id, commentCount: integer },
+  }),
+  'comment-reaction-update': serverEvent({
+    version: 1,
+    audience: ['post'],
+    description: "A comment's reactions changed.",
+    payload: {
+      postId: id,
+      commentId: id,
+      reactionBreakdown: recordOf(integer),
+      action: reactionAction,
+      emoji: text,
+      userId: id,
+    },
+  }),
+  'pca.standings': serverEvent({
+    version: 1,
+    audience: ['pcaCategory'],
+    description:
+      'Throttled live standings for a PCA category, or its open bracket round. Only countsHidden is sent while the category hides live counts.',
+    payload: {
+      categoryId: id,
+      roundId: nullable(id),
+      roundLabel: nullable(text),
+      countsHidden: boolean,
+      totalVotes: integer,
+      standings: arrayOf(pcaStanding),
+      votesAdded: integer,
+      at: dateTime,
+    },
+    optional: ['roundLabel', 'totalVotes', 'standings', 'votesAdded'],
+  }),
+  'pca.closed': serverEvent({
+    version: 1,
+    audience: ['pcaCategory', 'feed'],
+    description: "A PCA category's results were announced.",
+    payload: {
+      categoryId: id,
+      winnerNomineeId: nullable(id),
+      winnerName: nullable(text),
+      at: dateTime,
+    },
+  }),
+  'pca.subscribed': serverEvent({
+    version: 1,
+    audience: ['socket'],
+    description: 'Reply to join-pca-category.',
+    payload: { categoryId: id },
+  }),
+  'notifications.subscribed': serverEvent({
+    version: 1,
+    audience: ['socket'],
+    description: 'The socket now receives events for this user.',
+    payload: { userId: id },
+  }),
+  'notifications.error': serverEvent({
+    version: 1,
+    audience: ['socket'],
+    description: 'notifications.subscribe failed.',
+    payload: { message: text },
+  }),
+  'notifications.new': serverEvent({
+    version: 1,
+    audience: ['user'],
+    description: 'A notification was created for the user.',
+    payload: {
+      id,
+      type: text,
+      title: text,
+      body: nullable(text),
+      message: nullable(text),
+      data: anyJson,
+      readAt: nullable(dateTime),
+      createdAt: dateTime,
+    },
+  }),
+  'notifications.read': serverEvent({
+    version: 1,
+    audience: ['user'],
+    description: 'One notification was marked read.',
+    payload: { id, readAt: nullable(dateTime) },
+  }),
+  'notifications.read_all': serverEvent({
+    version: 1,
+    audience: ['user'],
+    description: "All of the user's notifications were marked read.",
+    payload: { readAt: dateTime },
+  }),
+  'messages.requested': serverEvent({
+    version: 1,
+    audience: ['user'],
+    description: 'Someone asked to start a conversation with the user.',
+    payload: { conversationId: id, senderId: id },
+  }),
+  'messages.new': serverEvent({
+    version: 1,
+    audience: ['user'],
+    description: 'A direct message arrived.',
+    payload: { conversationId: id, messageId: id, senderId: id },
+  }),
+  'messages.read': serverEvent({
+    version: 2,
+    audience: ['user'],
+    description:
+      "A participant's read watermark moved: sent to the other participant as a read receipt and to the reader's other devices.",
+    payload: {
+      conversationId: id,
+      readerId: id,
+      upToMessageId: id,
+      readAt: dateTime,
+      count: integer,
+    },
+  }),
+  'messages.delivered': serverEvent({
+    version: 1,
+    audience: ['user'],
+    description:
+      "The recipient's client loaded the conversation: the sender's messages up to deliveredAt are delivered.",
+    payload: { conversationId: id, recipientId: id, deliveredAt: dateTime, count: integer },
+  }),
+  'messages.request_resolved': serverEvent({
+    version: 1,
+    audience: ['user'],
+    description: 'A message request was accepted or rejected.',
+    payload: { conversationId: id, status: stringEnum(['ACTIVE', 'REJECTED']) },
+  }),
+  'messages.typing': serverEvent({
+    version: 1,
+    audience: ['user'],
+    description:
+      'The other participant of an accepted conversation started or stopped typing. Drop a start that is not refreshed by expiresAt.',
+    payload: { conversationId: id, userId: id, typing: boolean, expiresAt: nullable(dateTime) },
+  }),
+  'presence.update': serverEvent({
+    version: 1,
+    audience: ['user'],
+    description:
+      'A user the recipient shares an accepted conversation with came online, went offline or changed presence visibility.',
+    payload: {
+      userId: id,
+      visible: boolean,
+      online: nullable(boolean),
+      lastSeenAt: nullable(dateTime),
+    },
+  }),
+  'realtime.error': serverEvent({
+    version: 1,
+    audience: ['socket'],
+    description: 'An inbound event was rejected because its payload did not match the catalogue.',
+    payload: { event: text, message: text },
+  }),
+};
+
+export const CLIENT_EVENTS = {
+  'notifications.subscribe': clientEvent(
+    'Receive notification and message events for the token holder. The token may be omitted when the connection was authenticated.',
+    nullable(object({ token: text }, ['token']))
+  ),
+  'join-post': clientEvent('Watch a post (post id).', id),
+  'leave-post': clientEvent('Stop watching a post (post id).', id),
+  'join-feed': clientEvent(
+    'Receive feed-level events, and those of one league feed when a league is given.',
+    nullable(text)
+  ),
+  'leave-feed': clientEvent(
+    'Leave a league feed, or the main feed when no league is given.',
+    nullable(text)
+  ),
+  'join-pca-category': clientEvent('Watch live standings of a PCA category (category id).', id),
+  'leave-pca-category': clientEvent('Stop watching a PCA category (category id).', id),
+  'messages.typing': clientEvent(
+    'Start or stop the typing indicator in an accepted conversation. Requires an authenticated socket.',
+    object({ conversationId: id, typing: boolean })
+  ),
+};
+
+export type ServerEvent = keyof typeof SERVER_EVENTS;
+export type ClientEvent = keyof typeof CLIENT_EVENTS;
+
+export type ServerEventMap = {
+  [E in ServerEvent]: FromSchema<(typeof SERVER_EVENTS)[E]['schema']>;
+};
+export type ClientEventMap = {
+  [E in ClientEvent]: FromSchema<(typeof CLIENT_EVENTS)[E]['schema']>;
+};
+
+// What a publisher supplies; the version is added on the way out.
+export type ServerEventPayload<E extends ServerEvent> = Omit<ServerEventMap[E], 'v'>;
+
+// Server events delivered to a given kind of audience.
+export type ServerEventFor<A extends RealtimeAudience> = {
+  [E in ServerEvent]: A extends (typeof SERVER_EVENTS)[E]['audience'][number] ? E : never;
+}[ServerEvent];
+
+export const versionServerEvent = <E extends ServerEvent>(
+  event: E,
+  payload: ServerEventPayload<E>
+) => ({ v: SERVER_EVENTS[event].version, ...payload });
+
+const describeType = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+// First mismatch between value and schema, or null when it matches.
+const findSchemaError = (schema: JsonSchema, value: unknown, path: string): string | null => {
+  if ('anyOf' in schema) {
+    const errors = schema.anyOf.map((option) => findSchemaError(option, value, path));
+    return errors.includes(null) ? null : errors[0];
+  }
+  if (!('type' in schema)) {
+    return null;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return `${path} must be a string`;
+      if (schema.enum && !schema.enum.includes(value)) {
+        return `${path} must be one of ${schema.enum.join(', ')}`;
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return `${path} must not be empty`;
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return `${path} must be at most ${schema.maxLength} characters`;
+      }
+      if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+        return `${path} must be an ISO date-time`;
+      }
+      return null;
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${path} must be a number`;
+      if (schema.type === 'integer' && !Number.isInteger(value))
+        return `${path} must be an integer`;
+      if (schema.const !== undefined && value !== schema.const)
+        return `${path} must be ${schema.const}`;
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return `${path} must be at least ${schema.minimum}`;
+      }
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${path} must be a boolean`;
+    case 'null':
+      return value === null ? null : `${path} must be null`;
+    case 'array':
+      if (!Array.isArray(value)) return `${path} must be an array`;
+      for (const [index, item] of value.entries()) {
+        const error = findSchemaError(schema.items, item, `${path}[${index}]`);
+        if (error) return error;
+      }
+      return null;
+    case 'object': {
+      if (describeType(value) !== 'object') return `${path} must be an object`;
+      const record = value as Record<string, unknown>;
+      if ('properties' in schema) {
+        for (const key of schema.required) {
+          if (record[key] === undefined) return `${path}.${key} is required`;
+        }
+        for (const [key, item] of Object.entries(record)) {
+          const property = schema.properties[key];
+          if (!property) return `${path}.${key} is not allowed`;
+          if (item === undefined) continue;
+          const error = findSchemaError(property, item, `${path}.${key}`);
+          if (error) return error;
+        }
+        return null;
+      }
+      for (const [key, item] of Object.entries(record)) {
+        const error = findSchemaError(schema.additionalProperties, item, `${path}.${key}`);
+        if (error) return error;
+      }
+      return null;
+    }
+  }
+};
+
+/**
+ * Check an inbound event's payload against the catalogue. Socket.IO passes a missing payload as
+ * undefined, which is treated as null.
+ */
+export const parseClientEvent = <E extends ClientEvent>(
+  event: E,
+  payload: unknown
+): { ok: true; payload: ClientEventMap[E] } | { ok: false; message: string } => {
+  const value = payload === undefined ? null : payload;
+  const error = findSchemaError(CLIENT_EVENTS[event].schema, value, 'payload');
+  return error ? { ok: false, message: error } : { ok: true, payload: value as ClientEventMap[E] };
+};
+
+/**
+ * The catalogue as a JSON Schema document (draft 2020-12). Each event's payload is under
+ * $defs as `server.<event>` or `client.<event>`; x-events lists direction, version and audience.
+ */
+export const buildRealtimeJsonSchema = () => {
+  const $defs: Record<string, unknown> = {};
+  const events: Array<Record<string, unknown>> = [];
+
+  for (const [name, definition] of Object.entries(SERVER_EVENTS)) {
+    $defs[`server.${name}`] = { description: definition.description, ...definition.schema };
+    events.push({
+      name,
+      direction: 'server-to-client',
+      version: definition.version,
+      audience: definition.audience,
+      payload: { $ref: `#/$defs/server.${name}` },
+    });
+  }
+  for (const [name, definition] of Object.entries(CLIENT_EVENTS)) {
+    $defs[`client.${name}`] = { description: definition.description, ...definition.schema };
+    events.push({
+      name,
+      direction: 'client-to-server',
+      payload: { $ref: `#/$defs/client.${name}` },
+    });
+  }
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: 'urn:banter:realtime-events',
+    title: 'Banter realtime events',
+    description:
+      'Socket.IO events exchanged with the Banter backend. Server events carry their payload version in `v`.',
+    'x-events': events,
+    $defs,
+  };
+};
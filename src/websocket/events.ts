@@ -0,0 +1,65 @@
+import { logger } from '../utils/logger';
+import { getIO } from './socket';
+import {
+  FEED_ROOM,
+  buildLeagueFeedRoom,
+  buildPcaCategoryRoom,
+  buildPostRoom,
+  buildUserRoom,
+} from './rooms';
+import { SERVER_EVENTS, ServerEventFor, ServerEventPayload, versionServerEvent } from './contracts';
+
+// Events whose audience is a room derived from the payload.
+type RoomEvent = ServerEventFor<'post' | 'feed' | 'pcaCategory'>;
+
+/**
+ * Rooms for each audience the catalogue declares. Post and PCA rooms come from the payload's
+ * postId and categoryId; the feed also reaches the league feed when the payload names one.
+ */
+const getAudienceRooms = (event: RoomEvent, payload: Record<string, unknown>) =>
+  SERVER_EVENTS[event].audience.flatMap((audience) => {
+    switch (audience) {
+      case 'post':
+        return [buildPostRoom(String(payload.postId))];
+      case 'feed':
+        return typeof payload.league === 'string' && payload.league
+          ? [FEED_ROOM, buildLeagueFeedRoom(payload.league)]
+          : [FEED_ROOM];
+      case 'pcaCategory':
+        return [buildPcaCategoryRoom(String(payload.categoryId))];
+      default:
+        return [];
+    }
+  });
+
+/**
+ * Publish an event to its audience's rooms. With the Redis adapter enabled the rooms span every
+ * instance, so only sockets that joined a room receive it. Realtime delivery is best-effort and
+ * never fails the caller.
+ */
+export function publishRealtimeEvent<E extends RoomEvent>(
+  event: E,
+  payload: ServerEventPayload<E>
+) {
+  const rooms = [...new Set(getAudienceRooms(event, payload as Record<string, unknown>))];
+  try {
+    getIO().to(rooms).emit(event, versionServerEvent(event, payload));
+  } catch (error) {
+    logger.warn(`WebSocket not available for ${event} event`, { error, rooms });
+  }
+}
+
+/**
+ * Publish a user-audience event to every socket signed in as that user.
+ */
+export function publishUserEvent<E extends ServerEventFor<'user'>>(
+  userId: string,
+  event: E,
+  payload: ServerEventPayload<E>
+) {
+  try {
+    getIO().to(buildUserRoom(userId)).emit(event, versionServerEvent(event, payload));
+  } catch (error) {
+    logger.warn('WebSocket emit skipped (socket not ready)', { userId, event, error });
+  }
+}
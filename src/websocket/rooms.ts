@@ -0,0 +1,10 @@
+/**
+ * Socket.IO room names. Clients join these from socket.ts; the event bus publishes to them.
+ */
+export const buildUserRoom = (userId: string) => `user:${userId}`;
+export const buildPostRoom = (postId: string) => `post:${postId}`;
+export const buildPcaCategoryRoom = (categoryId: string) => `pca:${categoryId}`;
+
+// Clients on the main feed; league feeds narrow it to one league's banters.
+export const FEED_ROOM = 'feed';
+export const buildLeagueFeedRoom = (league: string) => `feed:league:${league}`;
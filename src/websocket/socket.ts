@@ -1,9 +1,25 @@
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { verifyToken } from '../auth/jwt';
 import { logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandler';
+import { handlePresenceConnect, handlePresenceDisconnect, relayTyping } from '../message/presence';
+import {
+  FEED_ROOM,
+  buildLeagueFeedRoom,
+  buildPcaCategoryRoom,
+  buildPostRoom,
+  buildUserRoom,
+} from './rooms';
+import {
+  ClientEvent,
+  ClientEventMap,
+  ServerEventFor,
+  ServerEventPayload,
+  parseClientEvent,
+  versionServerEvent,
+} from './contracts';
 
 let ioInstance: SocketIOServer | null = null;
-const buildUserRoom = (userId: string) => `user:${userId}`;
 
 const extractToken = (socket: Socket) => {
   const authToken =
@@ -17,6 +33,35 @@ const extractToken = (socket: Socket) => {
   return (authToken || headerAuth).replace(/^Bearer\s+/i, '').trim();
 };
 
+// Reply to one socket with a catalogued event.
+const emitToSocket = <E extends ServerEventFor<'socket'>>(
+  socket: Socket,
+  event: E,
+  payload: ServerEventPayload<E>
+) => socket.emit(event, versionServerEvent(event, payload));
+
+// Handle a catalogued inbound event; payloads that fail its schema get a realtime.error reply.
+const onClientEvent = <E extends ClientEvent>(
+  socket: Socket,
+  event: E,
+  handler: (payload: ClientEventMap[E]) => void
+) => {
+  socket.on(event as string, (payload: unknown) => {
+    const parsed = parseClientEvent(event, payload);
+    if (!parsed.ok) {
+      emitToSocket(socket, 'realtime.error', { event, message: parsed.message });
+      return;
+    }
+    handler(parsed.payload);
+  });
+};
+
+const trackPresence = (userId: string, update: (userId: string) => Promise<void>) => {
+  void update(userId).catch((error) => {
+    logger.warn('Failed to update presence', { userId, error });
+  });
+};
+
 /**
  * Setup WebSocket server for real-time updates.
  */
@@ -43,37 +88,97 @@ export function setupWebSocket(io: SocketIOServer): void {
 
     if (socket.data.userId) {
       socket.join(buildUserRoom(socket.data.userId));
-      socket.emit('notifications.subscribed', { userId: socket.data.userId });
+      emitToSocket(socket, 'notifications.subscribed', { userId: socket.data.userId });
+      trackPresence(socket.data.userId, handlePresenceConnect);
     }
 
-    socket.on('notifications.subscribe', (payload?: { token?: string }) => {
+    onClientEvent(socket, 'notifications.subscribe', (payload) => {
       try {
         const token = (payload?.token || '').replace(/^Bearer\s+/i, '');
         const resolvedUserId = socket.data.userId || (token ? verifyToken(token).userId : '');
         if (!resolvedUserId) {
-          socket.emit('notifications.error', { message: 'Missing auth token' });
+          emitToSocket(socket, 'notifications.error', { message: 'Missing auth token' });
           return;
         }
+        const joined = socket.rooms.has(buildUserRoom(resolvedUserId));
         socket.data.userId = resolvedUserId;
         socket.join(buildUserRoom(resolvedUserId));
-        socket.emit('notifications.subscribed', { userId: resolvedUserId });
+        emitToSocket(socket, 'notifications.subscribed', { userId: resolvedUserId });
+        if (!joined) {
+          trackPresence(resolvedUserId, handlePresenceConnect);
+        }
       } catch {
-        socket.emit('notifications.error', { message: 'Invalid auth token' });
+        emitToSocket(socket, 'notifications.error', { message: 'Invalid auth token' });
       }
     });
 
-    socket.on('join-post', (postId: string) => {
-      socket.join(`post:${postId}`);
+    onClientEvent(socket, 'join-post', (postId) => {
+      socket.join(buildPostRoom(postId));
       logger.debug(`Client ${socket.id} joined post room: ${postId}`);
     });
 
-    socket.on('leave-post', (postId: string) => {
-      socket.leave(`post:${postId}`);
+    onClientEvent(socket, 'leave-post', (postId) => {
+      socket.leave(buildPostRoom(postId));
       logger.debug(`Client ${socket.id} left post room: ${postId}`);
     });
 
+    // Feed viewers get events that change what the feed shows; pass a league for its feed too.
+    onClientEvent(socket, 'join-feed', (league) => {
+      socket.join(FEED_ROOM);
+      if (league) {
+        socket.join(buildLeagueFeedRoom(league));
+      }
+      logger.debug(`Client ${socket.id} joined feed${league ? ` for ${league}` : ''}`);
+    });
+
+    onClientEvent(socket, 'leave-feed', (league) => {
+      if (league) {
+        socket.leave(buildLeagueFeedRoom(league));
+      } else {
+        socket.leave(FEED_ROOM);
+      }
+      logger.debug(`Client ${socket.id} left feed${league ? ` for ${league}` : ''}`);
+    });
+
+    onClientEvent(socket, 'join-pca-category', (categoryId) => {
+      socket.join(buildPcaCategoryRoom(categoryId));
+      emitToSocket(socket, 'pca.subscribed', { categoryId });
+      logger.debug(`Client ${socket.id} joined PCA category room: ${categoryId}`);
+    });
+
+    onClientEvent(socket, 'leave-pca-category', (categoryId) => {
+      socket.leave(buildPcaCategoryRoom(categoryId));
+      logger.debug(`Client ${socket.id} left PCA category room: ${categoryId}`);
+    });
+
+    // Typing is relayed only within accepted conversations the socket's user takes part in.
+    onClientEvent(socket, 'messages.typing', ({ conversationId, typing }) => {
+      const userId = socket.data.userId;
+      if (!userId) {
+        emitToSocket(socket, 'realtime.error', {
+          event: 'messages.typing',
+          message: 'Missing auth token',
+        });
+        return;
+      }
+      void relayTyping(userId, conversationId, typing).catch((error) => {
+        if (error instanceof AppError) {
+          emitToSocket(socket, 'realtime.error', {
+            event: 'messages.typing',
+            message: error.message,
+          });
+          return;
+        }
+        logger.warn('Failed to relay typing indicator', { userId, conversationId, error });
+      });
+    });
+
     socket.on('disconnect', () => {
       logger.info(`Client disconnected: ${socket.id}`);
+      // Socket.IO has already removed the socket from its rooms here.
+      if (socket.data.userId) {
+        trackPresence(socket.data.userId, handlePresenceDisconnect);
+      }
     });
   });
 